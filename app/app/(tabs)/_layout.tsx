@@ -12,6 +12,7 @@ import Animated, {
 import { useTheme } from "@/context/ThemeContext";
 import { CustomTabBar } from "@/components/CustomTabBar";
 import { AnimatedPressable } from "@/components/AnimatedComponents";
+import { useOfflineSync } from "@/hooks/useOfflineQueue";
 
 // ─── Desktop sidebar ──────────────────────────────────────────────────────────
 const SIDEBAR_ROUTES = [
@@ -150,6 +151,9 @@ export default function TabLayout() {
   const { width } = useWindowDimensions();
   const isDesktop = Platform.OS === "web" && width >= 768;
 
+  // Entries saved offline go up as soon as there is a connection
+  useOfflineSync();
+
   return (
     <View
       style={{
@@ -18,7 +18,20 @@ import api, { FuelEntry, Vehicle } from "@/services/api";
 import { router, useLocalSearchParams } from "expo-router";
 import { useTheme } from "@/context/ThemeContext";
 import { AnimatedPressable } from "@/components/AnimatedComponents";
-import { useUnits } from "@/hooks/useUnits";
+import { currencySymbolFor, useUnits } from "@/hooks/useUnits";
+import { shareTextFile } from "@/services/shareFile";
+import {
+  PendingEntry,
+  discardPendingEntry,
+  forceSavePendingEntry,
+  isNetworkError,
+  retryPendingEntry,
+  syncPendingEntries,
+} from "@/services/offlineQueue";
+import { usePendingEntries } from "@/hooks/useOfflineQueue";
+import { useQueryInvalidation } from "@/hooks/useQueryCache";
+import { cachedQuery, queryKey } from "@/services/queryCache";
+import { useAuth } from "@/context/AuthContext";
 
 // Helper to safely format numbers
 const formatCurrency = (val: any) => {
@@ -33,18 +46,19 @@ const formatDecimal = (val: any, decimals: number = 2) => {
 
 export default function HistoryScreen() {
   const params = useLocalSearchParams();
+  const { user } = useAuth();
   const { colors, isDark } = useTheme();
   const styles = useMemo(() => getStyles(colors), [colors]);
   const {
     currencySymbol,
-    volumeUnit,
     distanceUnit,
     volumeUnitLabel,
-    pricePerVolumeUnit,
-    formatVolume,
+    unitFor,
+    formatUnits,
     formatDistance,
-    formatPricePerVolume,
-    convertCurrency,
+    entryTotalCost,
+    entryPricePerUnit,
+    currency,
   } = useUnits();
 
   const [entries, setEntries] = useState<FuelEntry[]>([]);
@@ -54,6 +68,7 @@ export default function HistoryScreen() {
   const [selectedVehicle, setSelectedVehicle] = useState<string | null>(null);
   const [filterDate, setFilterDate] = useState<string | null>(null);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [hasMore, setHasMore] = useState(true);
 
   // Sort State
@@ -65,6 +80,14 @@ export default function HistoryScreen() {
   const [selectedEntry, setSelectedEntry] = useState<FuelEntry | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
 
+  // Entries saved offline that haven't reached the server yet
+  const pendingEntries = usePendingEntries();
+  const visiblePending = pendingEntries.filter(
+    (item) =>
+      (!selectedVehicle || item.entry.vehicleId === selectedVehicle) &&
+      (!filterDate || item.entry.date === filterDate),
+  );
+
   // Initialize filter from params
   useEffect(() => {
     if (params.date) {
@@ -73,35 +96,49 @@ export default function HistoryScreen() {
   }, [params.date]);
 
   const loadData = useCallback(
-    async (reset = false) => {
+    async (reset = false, force = false) => {
       try {
         if (reset) {
           setLoading(true);
         }
 
-        const [entriesData, vehiclesData] = await Promise.all([
-          api.getEntries({
-            vehicleId: selectedVehicle || undefined,
-            startDate: filterDate || undefined,
-            endDate: filterDate || undefined,
-            limit: 20,
-            offset: reset ? 0 : entries.length,
-            sortBy,
-            order: sortOrder,
-          }),
-          vehicles.length === 0 ? api.getVehicles() : Promise.resolve(vehicles),
-        ]);
+        const params = {
+          vehicleId: selectedVehicle || undefined,
+          startDate: filterDate || undefined,
+          endDate: filterDate || undefined,
+          limit: 20,
+          sortBy,
+          order: sortOrder,
+        };
+        const showPage = (page: FuelEntry[]) => {
+          if (reset) {
+            setEntries(page);
+            setLoading(false);
+          } else {
+            setEntries((prev) => [...prev, ...page]);
+          }
+          setHasMore(page.length === 20);
+        };
 
         if (reset) {
-          setEntries(entriesData);
+          // The first page and the vehicle list come from the cache while
+          // they revalidate; further pages are fetched as the user scrolls
+          await Promise.all([
+            cachedQuery(
+              queryKey("entries", params),
+              () => api.getEntries(params),
+              showPage,
+              { force },
+            ),
+            cachedQuery(
+              queryKey("vehicles"),
+              () => api.getVehicles(),
+              setVehicles,
+              { force },
+            ),
+          ]);
         } else {
-          setEntries((prev) => [...prev, ...entriesData]);
-        }
-
-        setHasMore(entriesData.length === 20);
-
-        if (vehicles.length === 0) {
-          setVehicles(vehiclesData);
+          showPage(await api.getEntries({ ...params, offset: entries.length }));
         }
       } catch (error) {
         console.error("Failed to load history:", error);
@@ -111,16 +148,19 @@ export default function HistoryScreen() {
         setLoadingMore(false);
       }
     },
-    [selectedVehicle, entries.length, vehicles, sortBy, sortOrder, filterDate],
+    [selectedVehicle, entries.length, sortBy, sortOrder, filterDate],
   );
 
   useEffect(() => {
     loadData(true);
   }, [selectedVehicle, sortBy, sortOrder, filterDate]);
 
+  // Reload after entries change elsewhere, e.g. queued ones synced
+  useQueryInvalidation(["entries", "vehicles"], () => loadData(true));
+
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadData(true);
+    await loadData(true, true);
   };
 
   const loadMore = () => {
@@ -170,6 +210,159 @@ export default function HistoryScreen() {
     );
   }, [selectedEntry, loadData]);
 
+  const confirmDiscardPending = (item: PendingEntry) => {
+    Alert.alert(
+      "Discard Entry",
+      "This entry hasn't been synced yet and will be lost.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => discardPendingEntry(item.id),
+        },
+      ],
+    );
+  };
+
+  const handleForceSavePending = async (item: PendingEntry) => {
+    try {
+      await forceSavePendingEntry(item.id);
+    } catch (err) {
+      console.error("Failed to save pending entry:", err);
+      Alert.alert(
+        "Error",
+        isNetworkError(err)
+          ? "You're still offline. Try again once you're connected."
+          : "Failed to save entry",
+      );
+    }
+  };
+
+  const handleSyncPending = async (item: PendingEntry) => {
+    if (!user) return;
+    if (item.status === "failed") {
+      await retryPendingEntry(item.id);
+    }
+    await syncPendingEntries(user.id);
+  };
+
+  // Pending entries can be synced right away or discarded; conflicts are
+  // entries the server thinks are duplicates and need the user's call
+  const openPendingEntry = (item: PendingEntry) => {
+    const discard = {
+      text: "Discard",
+      style: "destructive" as const,
+      onPress: () => confirmDiscardPending(item),
+    };
+
+    if (item.status === "conflict") {
+      Alert.alert(
+        "Possible Duplicate",
+        "An entry with the same date and cost already exists. Save this one anyway?",
+        [
+          { text: "Cancel", style: "cancel" },
+          discard,
+          { text: "Save Anyway", onPress: () => handleForceSavePending(item) },
+        ],
+      );
+    } else {
+      Alert.alert(
+        item.status === "failed" ? "Sync Failed" : "Waiting to Sync",
+        item.status === "failed"
+          ? item.error || "The server rejected this entry."
+          : "This entry is saved on your device and will be uploaded once you're back online.",
+        [
+          { text: "Cancel", style: "cancel" },
+          discard,
+          {
+            text: item.status === "failed" ? "Retry" : "Sync Now",
+            onPress: () => handleSyncPending(item),
+          },
+        ],
+      );
+    }
+  };
+
+  const renderPendingEntry = (item: PendingEntry) => {
+    const { entry } = item;
+    const formattedDate = new Date(entry.date).toLocaleDateString("cs-CZ", {
+      weekday: "short",
+      day: "numeric",
+      month: "numeric",
+      year: "numeric",
+    });
+    const vehicleName = vehicles.find((v) => v.id === entry.vehicleId)?.name;
+    const badge =
+      item.status === "conflict"
+        ? {
+            icon: "exclamation-triangle",
+            label: "Duplicate?",
+            color: colors.warning,
+          }
+        : item.status === "failed"
+          ? { icon: "times-circle", label: "Sync failed", color: colors.error }
+          : {
+              icon: "clock-o",
+              label: "Pending sync",
+              color: colors.textSecondary,
+            };
+
+    return (
+      <AnimatedPressable
+        key={item.id}
+        style={[styles.entryCard, styles.pendingEntryCard]}
+        scaleValue={0.97}
+        onPress={() => openPendingEntry(item)}
+      >
+        <View style={styles.entryLeft}>
+          <View style={styles.entryIconContainer}>
+            <FontAwesome
+              name={entry.energyUnit === "kWh" ? "bolt" : "tint"}
+              size={18}
+              color={colors.tint}
+            />
+          </View>
+        </View>
+
+        <View style={styles.entryCenter}>
+          <Text style={styles.entryStation} numberOfLines={1}>
+            {entry.stationName || entry.stationAddress || "Unknown Station"}
+          </Text>
+          <Text style={styles.entryMeta} numberOfLines={1}>
+            {[formattedDate, vehicleName].filter(Boolean).join(" • ")}
+          </Text>
+          <View style={styles.pendingBadge}>
+            <FontAwesome
+              name={badge.icon as any}
+              size={11}
+              color={badge.color}
+            />
+            <Text style={[styles.pendingBadgeText, { color: badge.color }]}>
+              {badge.label}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.entryRight}>
+          <Text style={styles.entryAmount}>
+            {formatCurrency(entry.totalCost)}{" "}
+            {currencySymbolFor(entry.currency)}
+          </Text>
+          {item.receiptMimeType && (
+            <View style={styles.receiptBadge}>
+              <FontAwesome
+                name="image"
+                size={10}
+                color={colors.textSecondary}
+              />
+            </View>
+          )}
+        </View>
+      </AnimatedPressable>
+    );
+  };
+
   const renderEntry = ({ item }: { item: FuelEntry }) => {
     const date = new Date(item.date);
     const formattedDate = date.toLocaleDateString("cs-CZ", {
@@ -197,7 +390,11 @@ export default function HistoryScreen() {
       >
         <View style={styles.entryLeft}>
           <View style={styles.entryIconContainer}>
-            <FontAwesome name="tint" size={18} color={colors.tint} />
+            <FontAwesome
+              name={item.energyUnit === "kWh" ? "bolt" : "tint"}
+              size={18}
+              color={colors.tint}
+            />
           </View>
         </View>
 
@@ -210,10 +407,10 @@ export default function HistoryScreen() {
           </Text>
           {item.totalLiters && (
             <Text style={styles.entryDetails}>
-              {formatDecimal(formatVolume(item.totalLiters), 1)}
-              {volumeUnit} @{" "}
-              {formatDecimal(formatPricePerVolume(item.pricePerLiter), 2)}{" "}
-              {pricePerVolumeUnit}
+              {formatDecimal(formatUnits(item.totalLiters, item.energyUnit), 1)}
+              {unitFor(item.energyUnit)} @{" "}
+              {formatDecimal(entryPricePerUnit(item), 2)} {currencySymbol}/
+              {unitFor(item.energyUnit)}
             </Text>
           )}
           {item.mileage && (
@@ -233,7 +430,7 @@ export default function HistoryScreen() {
 
         <View style={styles.entryRight}>
           <Text style={styles.entryAmount}>
-            {formatCurrency(convertCurrency(item.totalCost))} {currencySymbol}
+            {formatCurrency(entryTotalCost(item))} {currencySymbol}
           </Text>
           {item.receiptImageUrl && (
             <View style={styles.receiptBadge}>
@@ -249,19 +446,58 @@ export default function HistoryScreen() {
     );
   };
 
+  // Exports the current filter in the user's currency and units
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const csv = await api.exportEntries({
+        vehicleId: selectedVehicle || undefined,
+        startDate: filterDate || undefined,
+        endDate: filterDate || undefined,
+        convert: true,
+      });
+      const filename = `tankuy-entries-${new Date().toISOString().split("T")[0]}.csv`;
+
+      await shareTextFile(filename, csv, "text/csv");
+    } catch (error) {
+      console.error("Failed to export entries:", error);
+      Alert.alert("Error", "Failed to export entries");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container} edges={["top"]}>
       <View style={styles.webContainer}>
         {/* Header */}
         <View style={styles.header}>
           <Text style={styles.title}>History</Text>
-          <TouchableOpacity
-            onPress={() => setSortModalVisible(true)}
-            style={styles.sortButton}
-          >
-            <FontAwesome name="sort" size={16} color={colors.tint} />
-            <Text style={styles.sortButtonText}>Sort</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={handleExport}
+              style={styles.sortButton}
+              disabled={exporting}
+            >
+              {exporting ? (
+                <ActivityIndicator size="small" color={colors.tint} />
+              ) : (
+                <FontAwesome
+                  name="share-square-o"
+                  size={16}
+                  color={colors.tint}
+                />
+              )}
+              <Text style={styles.sortButtonText}>Export</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setSortModalVisible(true)}
+              style={styles.sortButton}
+            >
+              <FontAwesome name="sort" size={16} color={colors.tint} />
+              <Text style={styles.sortButtonText}>Sort</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Vehicle Filter */}
@@ -314,6 +550,11 @@ export default function HistoryScreen() {
             }
             onEndReached={loadMore}
             onEndReachedThreshold={0.5}
+            ListHeaderComponent={
+              visiblePending.length > 0 ? (
+                <View>{visiblePending.map(renderPendingEntry)}</View>
+              ) : null
+            }
             ListFooterComponent={
               loadingMore ? (
                 <View style={styles.footerLoader}>
@@ -322,23 +563,25 @@ export default function HistoryScreen() {
               ) : null
             }
             ListEmptyComponent={
-              <View style={styles.emptyContainer}>
-                <FontAwesome
-                  name="history"
-                  size={48}
-                  color={colors.textMuted}
-                />
-                <Text style={styles.emptyText}>No entries yet</Text>
-                <Text style={styles.emptySubtext}>
-                  Scan a receipt to add your first fuel entry
-                </Text>
-                <TouchableOpacity
-                  style={styles.scanButton}
-                  onPress={() => router.push("/(tabs)/scan")}
-                >
-                  <Text style={styles.scanButtonText}>Scan Receipt</Text>
-                </TouchableOpacity>
-              </View>
+              visiblePending.length > 0 ? null : (
+                <View style={styles.emptyContainer}>
+                  <FontAwesome
+                    name="history"
+                    size={48}
+                    color={colors.textMuted}
+                  />
+                  <Text style={styles.emptyText}>No entries yet</Text>
+                  <Text style={styles.emptySubtext}>
+                    Scan a receipt to add your first fuel entry
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.scanButton}
+                    onPress={() => router.push("/(tabs)/scan")}
+                  >
+                    <Text style={styles.scanButtonText}>Scan Receipt</Text>
+                  </TouchableOpacity>
+                </View>
+              )
             }
           />
         )}
@@ -371,12 +614,20 @@ export default function HistoryScreen() {
               <ScrollView style={styles.modalContent}>
                 <View style={styles.amountHeader}>
                   <Text style={styles.bigAmount}>
-                    {formatCurrency(convertCurrency(selectedEntry.totalCost))}{" "}
+                    {formatCurrency(entryTotalCost(selectedEntry))}{" "}
                     {currencySymbol}
                   </Text>
                   <Text style={styles.volumeText}>
-                    {formatDecimal(formatVolume(selectedEntry.totalLiters), 2)}{" "}
-                    {volumeUnitLabel}
+                    {formatDecimal(
+                      formatUnits(
+                        selectedEntry.totalLiters,
+                        selectedEntry.energyUnit,
+                      ),
+                      2,
+                    )}{" "}
+                    {selectedEntry.energyUnit === "kWh"
+                      ? "kWh"
+                      : volumeUnitLabel}
                   </Text>
                 </View>
 
@@ -431,13 +682,62 @@ export default function HistoryScreen() {
                       colors={colors}
                     />
                   )}
+                  {selectedEntry.energyUnit === "kWh" ? (
+                    <DetailRow
+                      icon="plug"
+                      label="Charging"
+                      value={
+                        [
+                          selectedEntry.chargerType,
+                          selectedEntry.chargingPowerKw != null
+                            ? `${selectedEntry.chargingPowerKw} kW`
+                            : null,
+                          selectedEntry.socStart != null &&
+                          selectedEntry.socEnd != null
+                            ? `${selectedEntry.socStart}% → ${selectedEntry.socEnd}%`
+                            : null,
+                        ]
+                          .filter(Boolean)
+                          .join(" • ") || "Charging session"
+                      }
+                      styles={styles}
+                      colors={colors}
+                    />
+                  ) : (
+                    <DetailRow
+                      icon="battery-full"
+                      label="Fill-up"
+                      value={
+                        (selectedEntry.fullTank
+                          ? "Full tank"
+                          : "Partial fill") +
+                        (selectedEntry.missedFillup ? " • missed fill-up" : "")
+                      }
+                      styles={styles}
+                      colors={colors}
+                    />
+                  )}
                   <DetailRow
                     icon="money"
-                    label={`Price per ${volumeUnitLabel.slice(0, -1)}`}
-                    value={`${formatDecimal(formatPricePerVolume(selectedEntry.pricePerLiter), 2)} ${currencySymbol}`}
+                    label={
+                      selectedEntry.energyUnit === "kWh"
+                        ? "Price per kWh"
+                        : `Price per ${volumeUnitLabel.slice(0, -1)}`
+                    }
+                    value={`${formatDecimal(entryPricePerUnit(selectedEntry), 2)} ${currencySymbol}`}
                     styles={styles}
                     colors={colors}
                   />
+                  {selectedEntry.currency !== currency &&
+                    selectedEntry.originalTotalCost != null && (
+                      <DetailRow
+                        icon="exchange"
+                        label="Paid"
+                        value={`${formatDecimal(selectedEntry.originalTotalCost, 2)} ${currencySymbolFor(selectedEntry.currency)}`}
+                        styles={styles}
+                        colors={colors}
+                      />
+                    )}
                   {selectedEntry.notes && (
                     <View style={styles.noteContainer}>
                       <Text style={styles.noteLabel}>Notes</Text>
@@ -450,7 +750,9 @@ export default function HistoryScreen() {
                   <View style={styles.receiptSection}>
                     <Text style={styles.sectionTitle}>Receipt Image</Text>
                     <Image
-                      source={{ uri: selectedEntry.receiptImageUrl }}
+                      source={api.receiptImageSource(
+                        selectedEntry.receiptImageUrl,
+                      )}
                       style={styles.receiptImage}
                       resizeMode="contain"
                     />
@@ -699,6 +1001,10 @@ const getStyles = (colors: any) =>
       fontWeight: "700",
       color: colors.text,
     },
+    headerActions: {
+      flexDirection: "row",
+      gap: 8,
+    },
     sortButton: {
       flexDirection: "row",
       alignItems: "center",
@@ -802,6 +1108,21 @@ const getStyles = (colors: any) =>
       fontWeight: "600",
       color: colors.text,
     },
+    pendingEntryCard: {
+      borderWidth: 1,
+      borderStyle: "dashed",
+      borderColor: colors.border,
+    },
+    pendingBadge: {
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      gap: 4,
+      marginTop: 4,
+    },
+    pendingBadgeText: {
+      fontSize: 12,
+      fontWeight: "500",
+    },
     receiptBadge: {
       marginTop: 6,
       backgroundColor: colors.elevated, // Was #2C2C2E
@@ -12,9 +12,21 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { LinearGradient } from "expo-linear-gradient";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 import SpendingChart from "@/components/SpendingChart";
+import PriceTrendChart from "@/components/PriceTrendChart";
+import DateRangeModal, { DateRange } from "@/components/DateRangeModal";
+import BudgetCard from "@/components/BudgetCard";
+import BudgetModal from "@/components/BudgetModal";
 import { useAuth } from "@/context/AuthContext";
 import { useTheme } from "@/context/ThemeContext";
-import api, { Stats, FuelEntry } from "@/services/api";
+import api, {
+  Stats,
+  FuelEntry,
+  Vehicle,
+  MaintenanceReminder,
+  PriceTrends,
+  StatsDelta,
+  StatsPeriod,
+} from "@/services/api";
 import { router } from "expo-router";
 import { useTranslation } from "react-i18next";
 import {
@@ -23,6 +35,12 @@ import {
   AnimatedPressable,
 } from "@/components/AnimatedComponents";
 import { useUnits } from "@/hooks/useUnits";
+import { useQueryInvalidation } from "@/hooks/useQueryCache";
+import { cachedQuery, queryKey } from "@/services/queryCache";
+import {
+  describeReminderDue,
+  REMINDER_STATUS_COLORS,
+} from "@/components/RemindersSection";
 
 // Helper function to safely format numbers
 const formatNumber = (value: any, decimals: number = 2): string => {
@@ -33,6 +51,17 @@ const formatNumber = (value: any, decimals: number = 2): string => {
   return num.toFixed(decimals);
 };
 
+const PERIODS: StatsPeriod[] = ["week", "month", "year", "all", "custom"];
+
+// Price trend resolution for each calendar period; custom ranges use the
+// stats chart's own granularity
+const PRICE_TREND_INTERVALS = {
+  week: "day",
+  month: "day",
+  year: "week",
+  all: "month",
+} as const;
+
 export default function HomeScreen() {
   const { width: screenWidth } = useWindowDimensions();
   const isLargeScreen = screenWidth >= 768;
@@ -48,11 +77,21 @@ export default function HomeScreen() {
   const [recentEntries, setRecentEntries] = useState<FuelEntry[]>([]);
   const [_loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [period, setPeriod] = useState<"week" | "month" | "year" | "all">(
-    "month",
-  );
+  const [period, setPeriod] = useState<StatsPeriod>("month");
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [customRange, setCustomRange] = useState<DateRange | null>(null);
+  const [rangePickerVisible, setRangePickerVisible] = useState(false);
+  const [budgetModalVisible, setBudgetModalVisible] = useState(false);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [selectedVehicle, setSelectedVehicle] = useState<string | null>(null);
+  const [dueReminders, setDueReminders] = useState<MaintenanceReminder[]>([]);
+  const [chartMode, setChartMode] = useState<"cost" | "price">("cost");
+  const [priceTrends, setPriceTrends] = useState<PriceTrends | null>(null);
+  const [compareTo, setCompareTo] = useState<"previous" | "lastYear">(
+    "previous",
+  );
 
+  // Stats arrive already converted into the display currency
   const {
     currencySymbol,
     volumeUnit,
@@ -64,31 +103,122 @@ export default function HomeScreen() {
     formatPricePerVolume,
     formatCostPerDistance,
     convertCurrency,
+    unitFor,
+    formatUnits,
     isImperial,
-  } = useUnits();
+  } = useUnits({ convertAmounts: false });
+  const { entryTotalCost } = useUnits();
 
-  const loadData = useCallback(async () => {
+  const loadData = useCallback(async (force = false) => {
     try {
-      const [statsData, entriesData] = await Promise.all([
-        api.getStats(period, currentDate.toISOString()),
-        api.getEntries({ limit: 5 }),
+      const date = currentDate.toISOString();
+      const vehicleId = selectedVehicle || undefined;
+      const range =
+        period === "custom" ? (customRange ?? undefined) : undefined;
+      // Cached data is shown right away and replaced once the server answers
+      const [, , vehiclesData] = await Promise.all([
+        cachedQuery(
+          // Stats only depend on the day, not the time of `date`
+          queryKey("stats", {
+            period,
+            day: date.split("T")[0],
+            vehicleId,
+            compareTo,
+            range,
+          }),
+          () => api.getStats(period, date, vehicleId, compareTo, range),
+          (data) => {
+            setStats(data);
+            setLoading(false);
+          },
+          { force },
+        ),
+        cachedQuery(
+          queryKey("entries", { limit: 5, vehicleId }),
+          () => api.getEntries({ limit: 5, vehicleId }),
+          setRecentEntries,
+          { force },
+        ),
+        cachedQuery(queryKey("vehicles"), () => api.getVehicles(), setVehicles, {
+          force,
+        }),
       ]);
-      setStats(statsData);
-      setRecentEntries(entriesData);
+
+      // Fall back to all vehicles if the selected one was deleted
+      if (
+        selectedVehicle &&
+        !vehiclesData.some((v) => v.id === selectedVehicle)
+      ) {
+        setSelectedVehicle(null);
+      }
+
+      // Reminders live per vehicle; a failing one shouldn't hide the rest
+      const reminderLists = await Promise.all(
+        vehiclesData
+          .filter((v) => !selectedVehicle || v.id === selectedVehicle)
+          .map((v) =>
+            api
+              .getReminders(v.id)
+              .then((data) => data.reminders)
+              .catch(() => [] as MaintenanceReminder[]),
+          ),
+      );
+      setDueReminders(
+        reminderLists
+          .flat()
+          .filter((r) => r.status !== "ok")
+          .sort((a, b) =>
+            a.status === b.status ? 0 : a.status === "overdue" ? -1 : 1,
+          ),
+      );
     } catch (error) {
       console.error("Failed to load home data:", error);
     } finally {
       setLoading(false);
     }
-  }, [period, currentDate]);
+  }, [period, currentDate, selectedVehicle, compareTo, customRange]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  useQueryInvalidation(["entries", "stats", "vehicles"], loadData);
+
+  // Unit prices over the same range as the stats, loaded once the chart is
+  // switched to them
+  const loadPriceTrends = useCallback(
+    async (force = false) => {
+      if (chartMode !== "price" || !stats) return;
+      const params = {
+        interval:
+          PRICE_TREND_INTERVALS[
+            stats.period as keyof typeof PRICE_TREND_INTERVALS
+          ] ?? stats.granularity,
+        startDate: stats.range.start,
+        endDate: stats.range.end,
+        vehicleId: stats.vehicleId || undefined,
+      };
+      try {
+        await cachedQuery(
+          queryKey("priceTrends", params),
+          () => api.getPriceTrends(params),
+          setPriceTrends,
+          { force },
+        );
+      } catch (error) {
+        console.error("Failed to load price trends:", error);
+      }
+    },
+    [chartMode, stats],
+  );
+
+  useEffect(() => {
+    loadPriceTrends();
+  }, [loadPriceTrends]);
+
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadData();
+    await loadData(true);
     setRefreshing(false);
   };
 
@@ -105,7 +235,13 @@ export default function HomeScreen() {
   };
 
   const formattedPeriod = () => {
-    if (period === "all") {
+    if (period === "custom" && customRange) {
+      const format = (iso: string) => {
+        const [year, month, day] = iso.split("-").map(Number);
+        return `${day}.${month}.${year}`;
+      };
+      return `${format(customRange.start)} - ${format(customRange.end)}`;
+    } else if (period === "all") {
       return t("home.allTime");
     } else if (period === "year") {
       return currentDate.getFullYear().toString();
@@ -143,6 +279,32 @@ export default function HomeScreen() {
 
   const hasData = stats?.summary?.total_tanks && stats.summary.total_tanks > 0;
 
+  // Change against the comparison period. `better` says which direction is
+  // good news and colors the indicator; volumes are neither.
+  const toDelta = (
+    percent: number | null | undefined,
+    better: "higher" | "lower" | null,
+  ): CardDelta | undefined => {
+    if (percent == null) return undefined;
+    return {
+      percent,
+      good:
+        percent === 0 || !better ? null : percent > 0 === (better === "higher"),
+    };
+  };
+  const deltaFor = (
+    field: keyof NonNullable<Stats["comparison"]>["deltas"],
+    better: "higher" | "lower" | null,
+  ) => toDelta(stats?.comparison?.deltas[field]?.percent, better);
+
+  // mpg is the inverse of L/100km, so its change has to be derived
+  const mpgDelta = () => {
+    const current = stats?.summary?.avg_consumption;
+    const previous = stats?.comparison?.summary.avg_consumption;
+    if (!current || !previous) return undefined;
+    return toDelta(Math.round((previous / current - 1) * 1000) / 10, "higher");
+  };
+
   // Stats cards definition — keeps JSX clean and enables proper per-card stagger
   const statCards = [
     {
@@ -150,18 +312,21 @@ export default function HomeScreen() {
       label: t("home.stats.totalSpent"),
       value: `${formatNumber(convertCurrency(stats?.summary?.total_spent), 0)} ${currencySymbol}`,
       color: colors.tint,
+      delta: deltaFor("total_spent", "lower"),
     },
     {
       icon: "tint",
       label: t("home.stats.totalVolume", { unit: volumeUnitLabel }),
       value: `${formatNumber(formatVolume(stats?.summary?.total_liters), 1)}${volumeUnit}`,
       color: "#30D158",
+      delta: deltaFor("total_liters", null),
     },
     {
       icon: "tag",
       label: t("home.stats.avgPrice", { unit: volumeUnit }),
       value: `${formatNumber(formatPricePerVolume(stats?.summary?.avg_price_per_liter), 2)} ${currencySymbol}`,
       color: "#32ADE6",
+      delta: deltaFor("avg_price_per_liter", "lower"),
     },
     {
       icon: "dashboard",
@@ -198,6 +363,7 @@ export default function HomeScreen() {
           ? `${formatNumber(formatCostPerDistance(stats.summary.cost_per_km), 2)} ${currencySymbol}`
           : "N/A",
       color: "#BF5AF2",
+      delta: deltaFor("cost_per_km", "lower"),
     },
     {
       icon: "leaf",
@@ -212,9 +378,40 @@ export default function HomeScreen() {
         return `${formatNumber(c, 1)} L/100km`;
       })(),
       color: "#34C759",
+      delta: isImperial ? mpgDelta() : deltaFor("avg_consumption", "lower"),
     },
   ];
 
+  // EV charging sessions get their own cards next to the liquid fuel ones
+  if (stats?.summary?.total_charges) {
+    statCards.push(
+      {
+        icon: "bolt",
+        label: t("home.stats.totalEnergy"),
+        value: `${formatNumber(stats.summary.total_kwh, 1)} kWh`,
+        color: "#FFD60A",
+        delta: deltaFor("total_kwh", null),
+      },
+      {
+        icon: "plug",
+        label: t("home.stats.avgPricePerKwh"),
+        value: `${formatNumber(convertCurrency(stats.summary.avg_price_per_kwh), 2)} ${currencySymbol}`,
+        color: "#64D2FF",
+        delta: deltaFor("avg_price_per_kwh", "lower"),
+      },
+      {
+        icon: "battery-three-quarters",
+        label: t("home.stats.avgEnergyConsumption"),
+        value:
+          stats.summary.avg_consumption_kwh != null
+            ? `${formatNumber(stats.summary.avg_consumption_kwh, 1)} kWh/100km`
+            : "N/A",
+        color: "#30D158",
+        delta: deltaFor("avg_consumption_kwh", "lower"),
+      },
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container} edges={["top"]}>
       <ScrollView
@@ -246,7 +443,7 @@ export default function HomeScreen() {
         <FadeInView delay={80} translateY={10}>
           <View style={styles.periodSelectorContainer}>
             <View style={styles.periodSwitcher}>
-              {(["week", "month", "year", "all"] as const).map((p) => (
+              {PERIODS.map((p) => (
                 <TouchableOpacity
                   key={p}
                   style={[
@@ -254,6 +451,10 @@ export default function HomeScreen() {
                     period === p && styles.periodButtonActive,
                   ]}
                   onPress={() => {
+                    if (p === "custom") {
+                      setRangePickerVisible(true);
+                      return;
+                    }
                     setPeriod(p);
                     setCurrentDate(new Date());
                   }}
@@ -272,7 +473,7 @@ export default function HomeScreen() {
 
             {/* Date Navigation */}
             <View style={styles.dateNavigation}>
-              {period !== "all" && (
+              {period !== "all" && period !== "custom" && (
                 <TouchableOpacity
                   style={styles.navButton}
                   onPress={() => changeDate(-1)}
@@ -284,8 +485,13 @@ export default function HomeScreen() {
                   />
                 </TouchableOpacity>
               )}
-              <Text style={styles.dateLabel}>{formattedPeriod()}</Text>
-              {period !== "all" && (
+              <TouchableOpacity
+                disabled={period !== "custom"}
+                onPress={() => setRangePickerVisible(true)}
+              >
+                <Text style={styles.dateLabel}>{formattedPeriod()}</Text>
+              </TouchableOpacity>
+              {period !== "all" && period !== "custom" && (
                 <TouchableOpacity
                   style={styles.navButton}
                   onPress={() => changeDate(1)}
@@ -298,9 +504,90 @@ export default function HomeScreen() {
                 </TouchableOpacity>
               )}
             </View>
+
+            {/* Vehicle Picker — only useful with more than one vehicle */}
+            {vehicles.length > 1 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.vehiclePicker}
+              >
+                {[
+                  { id: null, label: t("home.allVehicles") },
+                  ...vehicles.map((v) => ({ id: v.id, label: v.name })),
+                ].map((option) => (
+                  <TouchableOpacity
+                    key={option.id || "all"}
+                    style={[
+                      styles.vehicleChip,
+                      selectedVehicle === option.id && styles.vehicleChipActive,
+                    ]}
+                    onPress={() => setSelectedVehicle(option.id)}
+                  >
+                    <Text
+                      style={[
+                        styles.vehicleChipText,
+                        selectedVehicle === option.id &&
+                          styles.vehicleChipTextActive,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
           </View>
         </FadeInView>
 
+        {/* ── Comparison Toggle ────────────────────────────── */}
+        {period !== "all" && (
+          <FadeInView delay={100} translateY={10}>
+            <View style={styles.comparisonRow}>
+              <Text style={styles.comparisonLabel}>
+                {t("home.comparison.label")}
+              </Text>
+              <View style={styles.chartToggle}>
+                {(["previous", "lastYear"] as const).map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[
+                      styles.chartToggleButton,
+                      compareTo === option && styles.chartToggleButtonActive,
+                    ]}
+                    onPress={() => setCompareTo(option)}
+                  >
+                    <Text
+                      style={[
+                        styles.chartToggleText,
+                        compareTo === option && styles.chartToggleTextActive,
+                      ]}
+                    >
+                      {t(`home.comparison.${option}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </FadeInView>
+        )}
+
+        {/* ── Budget ───────────────────────────────────────── */}
+        {stats && (period === "month" || period === "year") && (
+          <FadeInView
+            delay={110}
+            translateY={10}
+            style={styles.budgetContainer}
+          >
+            <BudgetCard
+              budget={stats.budget}
+              period={period}
+              currencySymbol={currencySymbol}
+              onPress={() => setBudgetModalVisible(true)}
+            />
+          </FadeInView>
+        )}
+
         {/* ── Stats Cards — individually staggered ────────── */}
         <View style={styles.statsContainer}>
           {statCards.map((card, i) => (
@@ -310,7 +597,7 @@ export default function HomeScreen() {
               translateY={16}
               style={styles.statsCardWrapper}
             >
-              <StatsCard {...card} styles={styles} />
+              <StatsCard {...card} styles={styles} colors={colors} />
             </FadeInView>
           ))}
         </View>
@@ -318,8 +605,39 @@ export default function HomeScreen() {
         {/* ── Spending Chart ───────────────────────────────── */}
         <ScaleInView delay={580}>
           <View style={styles.chartCard}>
-            <Text style={styles.chartTitle}>{t("home.chart.title")}</Text>
-            {hasData ? (
+            <View style={styles.chartHeader}>
+              <Text style={styles.chartTitle}>
+                {chartMode === "cost"
+                  ? t("home.chart.title")
+                  : t("home.chart.priceTitle")}
+              </Text>
+              <View style={styles.chartToggle}>
+                {(["cost", "price"] as const).map((mode) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[
+                      styles.chartToggleButton,
+                      chartMode === mode && styles.chartToggleButtonActive,
+                    ]}
+                    onPress={() => setChartMode(mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.chartToggleText,
+                        chartMode === mode && styles.chartToggleTextActive,
+                      ]}
+                    >
+                      {t(`home.chart.modes.${mode}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+            {hasData && chartMode === "price" ? (
+              priceTrends && (
+                <PriceTrendChart trends={priceTrends} period={period} />
+              )
+            ) : hasData ? (
               <SpendingChart
                 labels={chartData.labels}
                 data={chartData.datasets[0].data}
@@ -364,9 +682,9 @@ export default function HomeScreen() {
                     colors={colors}
                     units={{
                       currencySymbol,
-                      volumeUnit,
-                      formatVolume,
-                      convertCurrency,
+                      unitFor,
+                      formatUnits,
+                      entryTotalCost,
                     }}
                   />
                 </FadeInView>
@@ -399,6 +717,46 @@ export default function HomeScreen() {
           </View>
         </FadeInView>
 
+        {/* ── Due Reminders ────────────────────────────────── */}
+        {dueReminders.length > 0 && (
+          <FadeInView delay={750} translateY={20}>
+            <View style={styles.insightsSection}>
+              <Text style={styles.sectionTitle}>
+                {t("home.reminders.title")}
+              </Text>
+
+              <View style={styles.insightsGrid}>
+                {dueReminders.map((reminder, index) => (
+                  <InsightCard
+                    key={reminder.id}
+                    iconName={
+                      reminder.status === "overdue"
+                        ? "exclamation-triangle"
+                        : "wrench"
+                    }
+                    iconColor={REMINDER_STATUS_COLORS[reminder.status]}
+                    bgColor={`${REMINDER_STATUS_COLORS[reminder.status]}1A`}
+                    label={
+                      vehicles.find((v) => v.id === reminder.vehicleId)
+                        ?.name || ""
+                    }
+                    value={reminder.title}
+                    sub={describeReminderDue(
+                      reminder,
+                      t,
+                      (km) =>
+                        `${Math.round(formatDistance(km) || 0).toLocaleString()} ${distanceUnit}`,
+                    )}
+                    styles={styles}
+                    colors={colors}
+                    delay={780 + index * 40}
+                  />
+                ))}
+              </View>
+            </View>
+          </FadeInView>
+        )}
+
         {/* ── Insights ─────────────────────────────────────── */}
         {stats?.insights && hasData && (
           <FadeInView delay={800} translateY={20}>
@@ -564,29 +922,89 @@ export default function HomeScreen() {
           </FadeInView>
         )}
       </ScrollView>
+
+      <DateRangeModal
+        visible={rangePickerVisible}
+        initialRange={customRange}
+        onApply={(range) => {
+          setCustomRange(range);
+          setPeriod("custom");
+          setRangePickerVisible(false);
+        }}
+        onClose={() => setRangePickerVisible(false)}
+      />
+
+      {(period === "month" || period === "year") && (
+        <BudgetModal
+          visible={budgetModalVisible}
+          period={period}
+          vehicleId={selectedVehicle}
+          vehicleName={
+            vehicles.find((v) => v.id === selectedVehicle)?.name ?? null
+          }
+          budget={stats?.budget ?? null}
+          onClose={() => setBudgetModalVisible(false)}
+        />
+      )}
     </SafeAreaView>
   );
 }
 
 // ── Sub-components ─────────────────────────────────────────────────────────────
 
+// Percent change against the comparison period; `good` is null when the
+// direction is neither good nor bad
+interface CardDelta {
+  percent: number;
+  good: boolean | null;
+}
+
 function StatsCard({
   icon,
   label,
   value,
   color,
+  delta,
   styles,
+  colors,
 }: {
   icon: string;
   label: string;
   value: string;
   color: string;
+  delta?: CardDelta;
   styles: any;
+  colors: any;
 }) {
+  const deltaColor =
+    delta?.good == null
+      ? colors.textSecondary
+      : delta.good
+        ? colors.success
+        : colors.error;
+
   return (
     <View style={styles.statsCard}>
-      <View style={[styles.statsIconContainer, { backgroundColor: `${color}20` }]}>
-        <FontAwesome name={icon as any} size={16} color={color} />
+      <View style={styles.statsCardHeader}>
+        <View style={[styles.statsIconContainer, { backgroundColor: `${color}20` }]}>
+          <FontAwesome name={icon as any} size={16} color={color} />
+        </View>
+        {delta && (
+          <View
+            style={[styles.statsDelta, { backgroundColor: `${deltaColor}20` }]}
+          >
+            {delta.percent !== 0 && (
+              <FontAwesome
+                name={delta.percent > 0 ? "arrow-up" : "arrow-down"}
+                size={10}
+                color={deltaColor}
+              />
+            )}
+            <Text style={[styles.statsDeltaText, { color: deltaColor }]}>
+              {Math.abs(delta.percent).toFixed(0)}%
+            </Text>
+          </View>
+        )}
       </View>
       <Text style={styles.statsValue}>{value}</Text>
       <Text style={styles.statsLabel}>{label}</Text>
@@ -605,7 +1023,7 @@ function EntryCard({
   colors: any;
   units: any;
 }) {
-  const { currencySymbol, volumeUnit, formatVolume, convertCurrency } = units;
+  const { currencySymbol, unitFor, formatUnits, entryTotalCost } = units;
   const date = new Date(entry.date);
   const formattedDate = date.toLocaleDateString("en-US", {
     month: "short",
@@ -615,7 +1033,11 @@ function EntryCard({
   return (
     <AnimatedPressable style={styles.entryCard} scaleValue={0.97}>
       <View style={[styles.entryIconContainer, { backgroundColor: colors.primaryLight }]}>
-        <FontAwesome name="tint" size={18} color={colors.tint} />
+        <FontAwesome
+          name={entry.energyUnit === "kWh" ? "bolt" : "tint"}
+          size={18}
+          color={colors.tint}
+        />
       </View>
       <View style={styles.entryInfo}>
         <Text style={styles.entryStation} numberOfLines={1}>
@@ -625,12 +1047,12 @@ function EntryCard({
       </View>
       <View style={styles.entryAmount}>
         <Text style={styles.entryAmountText}>
-          {Number(convertCurrency(entry.totalCost)).toFixed(0)} {currencySymbol}
+          {Number(entryTotalCost(entry)).toFixed(0)} {currencySymbol}
         </Text>
         {entry.totalLiters && (
           <Text style={styles.entryLiters}>
-            {Number(formatVolume(entry.totalLiters)).toFixed(1)}
-            {volumeUnit}
+            {Number(formatUnits(entry.totalLiters, entry.energyUnit)).toFixed(1)}
+            {unitFor(entry.energyUnit)}
           </Text>
         )}
       </View>
@@ -754,6 +1176,26 @@ const getStyles = (colors: any, _screenWidth: number, isLargeScreen: boolean) =>
     periodButtonTextActive: {
       color: "#FFFFFF",
     },
+    vehiclePicker: {
+      gap: 8,
+    },
+    vehicleChip: {
+      backgroundColor: colors.card,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderRadius: 20,
+    },
+    vehicleChipActive: {
+      backgroundColor: colors.tint,
+    },
+    vehicleChipText: {
+      fontSize: 14,
+      fontWeight: "500",
+      color: colors.textSecondary,
+    },
+    vehicleChipTextActive: {
+      color: "#FFFFFF",
+    },
 
     // ── Stats ──────────────────────────────────────────────
     statsContainer: {
@@ -776,13 +1218,18 @@ const getStyles = (colors: any, _screenWidth: number, isLargeScreen: boolean) =>
       borderRadius: 16,
       padding: 16,
     },
+    statsCardHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "flex-start",
+      marginBottom: 12,
+    },
     statsIconContainer: {
       width: 36,
       height: 36,
       borderRadius: 10,
       justifyContent: "center",
       alignItems: "center",
-      marginBottom: 12,
     },
     statsValue: {
       fontSize: 22,
@@ -794,6 +1241,33 @@ const getStyles = (colors: any, _screenWidth: number, isLargeScreen: boolean) =>
       color: colors.textSecondary,
       marginTop: 4,
     },
+    statsDelta: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 3,
+      paddingHorizontal: 6,
+      paddingVertical: 3,
+      borderRadius: 8,
+    },
+    statsDeltaText: {
+      fontSize: 11,
+      fontWeight: "700",
+    },
+    budgetContainer: {
+      paddingHorizontal: 20,
+      marginTop: 16,
+    },
+    comparisonRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: 20,
+      marginTop: 16,
+    },
+    comparisonLabel: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
 
     // ── Chart ──────────────────────────────────────────────
     chartCard: {
@@ -804,12 +1278,41 @@ const getStyles = (colors: any, _screenWidth: number, isLargeScreen: boolean) =>
       paddingVertical: 16,
       overflow: "hidden",
     },
+    chartHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      gap: 12,
+      marginBottom: 16,
+      paddingHorizontal: 16,
+    },
     chartTitle: {
+      flexShrink: 1,
       fontSize: 17,
       fontWeight: "600",
       color: colors.text,
-      marginBottom: 16,
-      paddingHorizontal: 16,
+    },
+    chartToggle: {
+      flexDirection: "row",
+      backgroundColor: colors.background,
+      borderRadius: 8,
+      padding: 2,
+    },
+    chartToggleButton: {
+      paddingHorizontal: 10,
+      paddingVertical: 5,
+      borderRadius: 6,
+    },
+    chartToggleButtonActive: {
+      backgroundColor: colors.tint,
+    },
+    chartToggleText: {
+      color: colors.textSecondary,
+      fontWeight: "600",
+      fontSize: 12,
+    },
+    chartToggleTextActive: {
+      color: "#FFFFFF",
     },
     emptyChart: {
       height: 190,
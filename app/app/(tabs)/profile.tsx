@@ -35,7 +35,11 @@ import {
   AnimatedPressable,
   StaggeredChildren,
 } from "@/components/AnimatedComponents";
-import { useUnits } from "@/hooks/useUnits";
+import { currencySymbolFor, useUnits } from "@/hooks/useUnits";
+import MaintenanceModal from "@/components/MaintenanceModal";
+import { shareTextFile } from "@/services/shareFile";
+import { cachedQuery, queryKey } from "@/services/queryCache";
+import { useQueryInvalidation } from "@/hooks/useQueryCache";
 
 type FuelType = "petrol" | "diesel" | "lpg" | "electric" | "hybrid";
 
@@ -50,8 +54,21 @@ const FUEL_TYPES: { value: FuelType; label: string; icon: string }[] = [
 export default function ProfileScreen() {
   const { colors, toggleTheme, isDark } = useTheme();
   const styles = React.useMemo(() => getStyles(colors), [colors]);
-  const { user, signOut, isLoading: authLoading, updateUser } = useAuth();
-  const { currencySymbol, distanceUnit, currency, unitSystem } = useUnits();
+  const {
+    user,
+    signOut,
+    signInWithGoogle,
+    isLoading: authLoading,
+    updateUser,
+  } = useAuth();
+  const {
+    currencySymbol,
+    distanceUnit,
+    currency,
+    supportedCurrencies,
+    unitSystem,
+    convertCurrency,
+  } = useUnits();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -60,8 +77,12 @@ export default function ProfileScreen() {
 
   // Modal state
   const [showModal, setShowModal] = useState(false);
+  const [showCurrencyPicker, setShowCurrencyPicker] = useState(false);
   const [saving, setSaving] = useState(false);
   const [editingVehicle, setEditingVehicle] = useState<Vehicle | null>(null);
+  const [maintenanceVehicle, setMaintenanceVehicle] = useState<Vehicle | null>(
+    null,
+  );
 
   // Custom Confirmation Modal state
   const [confirmConfig, setConfirmConfig] = useState<{
@@ -102,36 +123,16 @@ export default function ProfileScreen() {
   const [showModelSuggestions, setShowModelSuggestions] = useState(false);
   const [showEngineSuggestions, setShowEngineSuggestions] = useState(false);
 
-  const [vehicleMileages, setVehicleMileages] = useState<
-    Record<string, number | null>
-  >({});
-
-  const loadVehicles = useCallback(async () => {
+  const loadVehicles = useCallback(async (force = false) => {
     try {
-      const data = await api.getVehicles();
-      setVehicles(data);
-
-      // Fetch latest mileage for each vehicle
-      const mileageMap: Record<string, number | null> = {};
-      await Promise.all(
-        data.map(async (v: Vehicle) => {
-          try {
-            const entries = await api.getEntries({
-              vehicleId: v.id,
-              limit: 1,
-              sortBy: "date",
-              order: "DESC",
-            });
-            mileageMap[v.id] =
-              entries.length > 0 && entries[0].mileage
-                ? entries[0].mileage
-                : null;
-          } catch {
-            mileageMap[v.id] = null;
-          }
-        }),
+      await cachedQuery(
+        queryKey("vehicles"),
+        () => api.getVehicles(),
+        setVehicles,
+        {
+          force,
+        },
       );
-      setVehicleMileages(mileageMap);
     } catch (error) {
       console.error("Failed to load vehicles:", error);
     } finally {
@@ -143,9 +144,11 @@ export default function ProfileScreen() {
     loadVehicles();
   }, [loadVehicles]);
 
+  useQueryInvalidation(["vehicles"], loadVehicles);
+
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadVehicles();
+    await loadVehicles(true);
     setRefreshing(false);
   };
 
@@ -164,6 +167,61 @@ export default function ProfileScreen() {
     });
   };
 
+  const handleExportData = async () => {
+    try {
+      const data = await api.exportMyData();
+      await shareTextFile(
+        `tankuy-export-${new Date().toISOString().split("T")[0]}.json`,
+        data,
+        "application/json",
+      );
+    } catch (error) {
+      console.error("Failed to export data:", error);
+      if (Platform.OS === "web") {
+        window.alert(t("profile.data.exportError"));
+      } else {
+        Alert.alert(t("profile.alerts.error"), t("profile.data.exportError"));
+      }
+    }
+  };
+
+  // Guests keep their vehicles and entries when they sign in with Google
+  const handleLinkGoogle = async () => {
+    try {
+      await signInWithGoogle();
+    } catch (error) {
+      console.error("Failed to link Google account:", error);
+    }
+  };
+
+  const handleDeleteAccount = () => {
+    setConfirmConfig({
+      visible: true,
+      title: t("profile.data.deleteTitle"),
+      message: t("profile.data.deleteMessage"),
+      confirmText: t("profile.data.deleteConfirm"),
+      cancelText: t("profile.modal.cancel"),
+      isDestructive: true,
+      onConfirm: async () => {
+        setConfirmConfig((prev) => ({ ...prev, visible: false }));
+        try {
+          await api.deleteMe();
+          await signOut();
+        } catch (error) {
+          console.error("Failed to delete account:", error);
+          if (Platform.OS === "web") {
+            window.alert(t("profile.data.deleteError"));
+          } else {
+            Alert.alert(
+              t("profile.alerts.error"),
+              t("profile.data.deleteError"),
+            );
+          }
+        }
+      },
+    });
+  };
+
   const handleDeleteVehicle = (vehicle: Vehicle) => {
     setConfirmConfig({
       visible: true,
@@ -426,7 +484,7 @@ export default function ProfileScreen() {
                           .filter(Boolean)
                           .join(" • ") || vehicle.fuelType}
                       </Text>
-                      {vehicleMileages[vehicle.id] != null && (
+                      {vehicle.latestMileage != null && (
                         <View style={styles.vehicleMileageRow}>
                           <FontAwesome
                             name="tachometer"
@@ -434,14 +492,43 @@ export default function ProfileScreen() {
                             color={colors.textMuted}
                           />
                           <Text style={styles.vehicleMileageText}>
-                            {Number(
-                              vehicleMileages[vehicle.id],
-                            ).toLocaleString()}{" "}
+                            {Number(vehicle.latestMileage).toLocaleString()}{" "}
                             {distanceUnit}
                           </Text>
                         </View>
                       )}
+                      {vehicle.fuelCost || vehicle.maintenanceCost ? (
+                        <View style={styles.vehicleMileageRow}>
+                          <FontAwesome
+                            name="money"
+                            size={12}
+                            color={colors.textMuted}
+                          />
+                          <Text style={styles.vehicleMileageText}>
+                            {t("profile.maintenance.totalCost")}:{" "}
+                            {Number(
+                              convertCurrency(
+                                (vehicle.fuelCost || 0) +
+                                  (vehicle.maintenanceCost || 0),
+                              ),
+                            ).toLocaleString(undefined, {
+                              maximumFractionDigits: 0,
+                            })}{" "}
+                            {currencySymbol}
+                          </Text>
+                        </View>
+                      ) : null}
                     </View>
+                    <TouchableOpacity
+                      style={styles.vehicleAction}
+                      onPress={() => setMaintenanceVehicle(vehicle)}
+                    >
+                      <FontAwesome
+                        name="wrench"
+                        size={18}
+                        color={colors.textSecondary}
+                      />
+                    </TouchableOpacity>
                     <TouchableOpacity
                       style={styles.vehicleAction}
                       onPress={() => handleDeleteVehicle(vehicle)}
@@ -565,64 +652,15 @@ export default function ProfileScreen() {
               colors={colors}
             />
 
-            <View style={styles.settingsItem}>
-              <View style={styles.settingsItemLeft}>
-                <View style={styles.settingsIconContainer}>
-                  <FontAwesome
-                    name="money"
-                    size={16}
-                    color={colors.textSecondary}
-                  />
-                </View>
-                <Text style={styles.settingsLabel}>
-                  {t("profile.settings.currency")}
-                </Text>
-              </View>
-              <View
-                style={{ flexDirection: "row", alignItems: "center", gap: 8 }}
-              >
-                <TouchableOpacity
-                  onPress={() => updateUser({ currency: "CZK" })}
-                  style={{
-                    paddingHorizontal: 10,
-                    paddingVertical: 4,
-                    borderRadius: 12,
-                    backgroundColor:
-                      currency === "CZK" ? colors.tint : "transparent",
-                  }}
-                >
-                  <Text
-                    style={{
-                      fontSize: 13,
-                      fontWeight: "600",
-                      color: currency === "CZK" ? "#FFF" : colors.textSecondary,
-                    }}
-                  >
-                    CZK
-                  </Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  onPress={() => updateUser({ currency: "USD" })}
-                  style={{
-                    paddingHorizontal: 10,
-                    paddingVertical: 4,
-                    borderRadius: 12,
-                    backgroundColor:
-                      currency === "USD" ? colors.tint : "transparent",
-                  }}
-                >
-                  <Text
-                    style={{
-                      fontSize: 13,
-                      fontWeight: "600",
-                      color: currency === "USD" ? "#FFF" : colors.textSecondary,
-                    }}
-                  >
-                    USD
-                  </Text>
-                </TouchableOpacity>
-              </View>
-            </View>
+            <SettingsItem
+              icon="money"
+              label={t("profile.settings.currency")}
+              value={`${currency} (${currencySymbol})`}
+              showArrow
+              onPress={() => setShowCurrencyPicker(true)}
+              styles={styles}
+              colors={colors}
+            />
 
             <View style={styles.settingsItem}>
               <View style={styles.settingsItemLeft}>
@@ -689,6 +727,56 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Data Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t("profile.data.title")}</Text>
+
+          <View style={styles.settingsGroup}>
+            {user?.isGuest && (
+              <SettingsItem
+                icon="google"
+                label={t("profile.data.linkGoogle")}
+                showArrow
+                styles={styles}
+                colors={colors}
+                onPress={handleLinkGoogle}
+              />
+            )}
+            <SettingsItem
+              icon="download"
+              label={t("profile.data.import")}
+              showArrow
+              styles={styles}
+              colors={colors}
+              onPress={() => router.push("/import")}
+            />
+            <SettingsItem
+              icon="image"
+              label={t("profile.data.receipts")}
+              showArrow
+              styles={styles}
+              colors={colors}
+              onPress={() => router.push("/receipts")}
+            />
+            <SettingsItem
+              icon="upload"
+              label={t("profile.data.export")}
+              showArrow
+              styles={styles}
+              colors={colors}
+              onPress={handleExportData}
+            />
+            <SettingsItem
+              icon="user-times"
+              label={t("profile.data.deleteAccount")}
+              showArrow
+              styles={styles}
+              colors={colors}
+              onPress={handleDeleteAccount}
+            />
+          </View>
+        </View>
+
         {/* About Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t("profile.about.title")}</Text>
@@ -739,6 +827,47 @@ export default function ProfileScreen() {
         <View style={styles.footer} />
       </ScrollView>
 
+      {/* Display Currency Picker */}
+      <Modal
+        visible={showCurrencyPicker}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowCurrencyPicker(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowCurrencyPicker(false)}>
+              <Text style={styles.modalCancel}>
+                {t("profile.modal.cancel")}
+              </Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>
+              {t("profile.settings.currency")}
+            </Text>
+            <View style={{ width: 50 }} />
+          </View>
+          <ScrollView style={styles.modalContent}>
+            {supportedCurrencies.map((code) => (
+              <TouchableOpacity
+                key={code}
+                style={styles.settingsItem}
+                onPress={() => {
+                  updateUser({ currency: code });
+                  setShowCurrencyPicker(false);
+                }}
+              >
+                <Text style={styles.settingsLabel}>
+                  {code} ({currencySymbolFor(code)})
+                </Text>
+                {currency === code && (
+                  <FontAwesome name="check" size={16} color={colors.tint} />
+                )}
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
       {/* Add/Edit Vehicle Modal */}
       <Modal
         visible={showModal}
@@ -1099,6 +1228,15 @@ export default function ProfileScreen() {
         </SafeAreaView>
       </Modal>
 
+      {/* Maintenance Modal */}
+      <MaintenanceModal
+        vehicle={maintenanceVehicle}
+        onClose={(changed) => {
+          setMaintenanceVehicle(null);
+          if (changed) loadVehicles();
+        }}
+      />
+
       {/* Custom Confirmation Modal */}
       <Modal
         animationType="fade"
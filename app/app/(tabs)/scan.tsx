@@ -16,15 +16,31 @@ import {
   TextInput,
   KeyboardAvoidingView,
   Platform,
+  Switch,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 import * as ImagePicker from "expo-image-picker";
 import * as Location from "expo-location";
 import { router } from "expo-router";
-import api, { ReceiptScanResult, Vehicle } from "@/services/api";
+import api, {
+  ApiError,
+  EnergyUnit,
+  NewFuelEntry,
+  ReceiptField,
+  ReceiptScanResult,
+  Vehicle,
+} from "@/services/api";
+import {
+  PendingReceipt,
+  isNetworkError,
+  queueEntry,
+} from "@/services/offlineQueue";
+import { cachedQuery, queryKey } from "@/services/queryCache";
 import { useTheme } from "@/context/ThemeContext";
-import { useUnits } from "@/hooks/useUnits";
+import { useAuth } from "@/context/AuthContext";
+import { currencySymbolFor, useUnits } from "@/hooks/useUnits";
+import { useQueryInvalidation } from "@/hooks/useQueryCache";
 
 // Conditionally import Camera (not available on web)
 let CameraView: any = null;
@@ -37,6 +53,10 @@ if (Platform.OS !== "web") {
 
 type ScanState = "camera" | "processing" | "review" | "form" | "manual";
 
+// Scanned values the server is less sure of are highlighted until the user
+// edits or confirms them
+const LOW_CONFIDENCE = 0.6;
+
 type StationSuggestion = {
   id: string;
   name: string;
@@ -69,23 +89,31 @@ function useDebounce<T>(value: T, delay: number): T {
 
 export default function ScanScreen() {
   const { colors, isDark } = useTheme();
+  const { user } = useAuth();
   const styles = useMemo(() => getStyles(colors), [colors]);
+  // Prices are sent as paid; the server converts them to CZK by entry date
   const {
-    currencySymbol,
-    volumeUnit,
+    currency,
+    supportedCurrencies,
     volumeUnitLabel,
-    pricePerVolumeUnit,
     distanceUnit,
-    toMetricVolume,
     toMetricDistance,
-    toMetricPrice,
-  } = useUnits();
+    unitFor,
+    toStoredUnits,
+    toStoredPricePerUnit,
+  } = useUnits({ convertAmounts: false });
 
   const [scanState, setScanState] = useState<ScanState>("camera");
   const [scanResult, setScanResult] = useState<ReceiptScanResult | null>(null);
+  const [confirmedFields, setConfirmedFields] = useState<ReceiptField[]>([]);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [selectedVehicle, setSelectedVehicle] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [entryCurrency, setEntryCurrency] = useState<string | null>(null);
+  // Photo taken without a connection, uploaded when the entry syncs
+  const [offlineReceipt, setOfflineReceipt] = useState<PendingReceipt | null>(
+    null,
+  );
   const cameraRef = useRef<any>(null);
 
   // Location state
@@ -112,11 +140,85 @@ export default function ScanScreen() {
     totalLiters: "",
     totalCost: "",
     mileage: "",
+    fullTank: true,
+    missedFillup: false,
+    energyUnit: "L" as EnergyUnit,
+    chargerType: null as "AC" | "DC" | null,
+    chargingPowerKw: "",
+    socStart: "",
+    socEnd: "",
     notes: "",
   });
 
+  const isCharging = manualForm.energyUnit === "kWh";
+  const paidCurrency = entryCurrency ?? currency;
+  const paidCurrencySymbol = currencySymbolFor(paidCurrency);
+  const entryUnit = unitFor(manualForm.energyUnit);
+  const selectedFuelType = vehicles.find(
+    (v) => v.id === selectedVehicle,
+  )?.fuelType;
+
+  // Electric vehicles always log charging sessions; hybrids can switch below
+  useEffect(() => {
+    setManualForm((prev) => ({
+      ...prev,
+      energyUnit: selectedFuelType === "electric" ? "kWh" : "L",
+    }));
+  }, [selectedFuelType]);
+
+  // Charging session details, only sent for kWh entries
+  const getEnergyFields = () => ({
+    energyUnit: manualForm.energyUnit,
+    chargerType: isCharging ? manualForm.chargerType : null,
+    chargingPowerKw:
+      isCharging && manualForm.chargingPowerKw
+        ? parseFloat(manualForm.chargingPowerKw)
+        : null,
+    socStart:
+      isCharging && manualForm.socStart ? parseInt(manualForm.socStart) : null,
+    socEnd:
+      isCharging && manualForm.socEnd ? parseInt(manualForm.socEnd) : null,
+  });
+
   // ... (permissions and effects) ...
 
+  // No connection: keep the entry (and any receipt photo) on the device.
+  // It syncs in the background and shows as pending in History until then.
+  const saveEntryOffline = async (entryData: NewFuelEntry) => {
+    if (!user) return;
+    const { receiptKept } = await queueEntry(
+      user.id,
+      entryData,
+      offlineReceipt,
+    );
+    Alert.alert(
+      "Saved Offline",
+      receiptKept
+        ? "You're offline. The entry will be synced automatically once you're back online."
+        : "You're offline. The entry will be synced automatically once you're back online, but the receipt photo couldn't be kept on this device.",
+      [
+        {
+          text: "OK",
+          onPress: () => {
+            resetScan();
+            router.replace("/history");
+          },
+        },
+      ],
+    );
+  };
+
+  // The receipt couldn't be scanned without a connection, so keep the photo
+  // and let the user type the details in
+  const continueOfflineWithPhoto = (receipt: PendingReceipt) => {
+    setOfflineReceipt(receipt);
+    setScanState("manual");
+    Alert.alert(
+      "No Connection",
+      "The receipt can't be read offline. Fill in the details by hand; the photo is kept and uploaded with the entry.",
+    );
+  };
+
   const handleSaveManualEntry = async () => {
     if (!manualForm.totalCost) {
       Alert.alert("Error", "Please enter at least the total cost.");
@@ -128,7 +230,7 @@ export default function ScanScreen() {
       return;
     }
 
-    const entryData = {
+    const entryData: NewFuelEntry = {
       vehicleId: selectedVehicle,
       stationName: manualForm.stationName || null,
       stationAddress: manualForm.stationAddress || null,
@@ -137,15 +239,25 @@ export default function ScanScreen() {
       date: manualForm.date,
       time: manualForm.time || null,
       pricePerLiter: manualForm.pricePerLiter
-        ? toMetricPrice(parseFloat(manualForm.pricePerLiter))
+        ? toStoredPricePerUnit(
+            parseFloat(manualForm.pricePerLiter),
+            manualForm.energyUnit,
+          )
         : null,
       totalLiters: manualForm.totalLiters
-        ? toMetricVolume(parseFloat(manualForm.totalLiters))
+        ? toStoredUnits(
+            parseFloat(manualForm.totalLiters),
+            manualForm.energyUnit,
+          )
         : null,
       totalCost: parseFloat(manualForm.totalCost),
+      currency: paidCurrency,
       mileage: manualForm.mileage
         ? toMetricDistance(parseInt(manualForm.mileage))
         : null,
+      fullTank: isCharging || manualForm.fullTank,
+      missedFillup: manualForm.missedFillup,
+      ...getEnergyFields(),
       receiptImageUrl: null,
       notes: manualForm.notes || null,
     };
@@ -166,10 +278,9 @@ export default function ScanScreen() {
     } catch (error: any) {
       console.error("Failed to save entry:", error);
 
-      if (
-        error.message &&
-        (error.message.includes("409") || error.message.includes("Conflict"))
-      ) {
+      if (isNetworkError(error)) {
+        await saveEntryOffline(entryData);
+      } else if (error instanceof ApiError && error.status === 409) {
         Alert.alert(
           "Duplicate Entry",
           "We found a similar entry with the same date and cost. Do you want to save it anyway?",
@@ -214,9 +325,12 @@ export default function ScanScreen() {
   const resetScan = () => {
     setScanState("camera");
     setScanResult(null);
+    setConfirmedFields([]);
     setStationQuery("");
     setSuggestions([]);
     setShowSuggestions(false);
+    setEntryCurrency(null);
+    setOfflineReceipt(null);
     setManualForm({
       stationName: "",
       stationAddress: "",
@@ -226,6 +340,13 @@ export default function ScanScreen() {
       totalLiters: "",
       totalCost: "",
       mileage: "",
+      fullTank: true,
+      missedFillup: false,
+      energyUnit: selectedFuelType === "electric" ? "kWh" : "L",
+      chargerType: null,
+      chargingPowerKw: "",
+      socStart: "",
+      socEnd: "",
       notes: "",
     });
   };
@@ -292,22 +413,33 @@ export default function ScanScreen() {
 
   const loadVehicles = async () => {
     try {
-      const data = await api.getVehicles();
-      setVehicles(data);
-      if (data.length > 0) {
-        setSelectedVehicle(data[0].id);
-      }
+      await cachedQuery(
+        queryKey("vehicles"),
+        () => api.getVehicles(),
+        (data) => {
+          setVehicles(data);
+          // Keep the user's pick when the list is refreshed
+          setSelectedVehicle((current) =>
+            current && data.some((v) => v.id === current)
+              ? current
+              : (data[0]?.id ?? null),
+          );
+        },
+      );
     } catch (error) {
       console.error("Failed to load vehicles:", error);
     }
   };
 
+  useQueryInvalidation(["vehicles"], loadVehicles);
+
   const takePicture = async () => {
     if (!cameraRef.current) return;
 
+    let photo: any = null;
     try {
       setScanState("processing");
-      const photo = await cameraRef.current.takePictureAsync({
+      photo = await cameraRef.current.takePictureAsync({
         base64: true,
         quality: 0.4,
       });
@@ -318,6 +450,7 @@ export default function ScanScreen() {
         // Auto-populate manual form with extracted data
         const extracted = result.parsed || result;
         setScanResult(result); // Restore scanResult for Review screen
+        setConfirmedFields([]);
         setManualForm((prev) => ({
           ...prev,
           stationName: extracted.stationName || prev.stationName,
@@ -336,12 +469,20 @@ export default function ScanScreen() {
       }
     } catch (error) {
       console.error("Failed to scan receipt:", error);
+      if (photo?.base64 && isNetworkError(error)) {
+        continueOfflineWithPhoto({
+          base64: photo.base64,
+          mimeType: "image/jpeg",
+        });
+        return;
+      }
       Alert.alert("Error", "Failed to scan the receipt. Please try again.");
       setScanState("camera");
     }
   };
 
   const pickImage = async () => {
+    let picked: PendingReceipt | null = null;
     try {
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
@@ -359,6 +500,12 @@ export default function ScanScreen() {
         if (base64Data && base64Data.includes("base64,")) {
           base64Data = base64Data.split("base64,")[1];
         }
+        if (base64Data) {
+          picked = {
+            base64: base64Data,
+            mimeType: asset.mimeType || "image/jpeg",
+          };
+        }
 
         const scanData = await api.scanReceipt(
           base64Data,
@@ -370,6 +517,7 @@ export default function ScanScreen() {
         // Auto-populate manual form with extracted data
         const extracted = scanData.parsed || scanData;
         setScanResult(scanData); // Restore scanResult for Review screen
+        setConfirmedFields([]);
         setManualForm((prev) => ({
           ...prev,
           stationName: extracted.stationName || prev.stationName,
@@ -388,12 +536,58 @@ export default function ScanScreen() {
       }
     } catch (error) {
       console.error("Failed to scan image:", error);
+      if (picked && isNetworkError(error)) {
+        continueOfflineWithPhoto(picked);
+        return;
+      }
       Alert.alert("Error", "Failed to scan the image. Please try again.");
       setScanState("camera");
     }
   };
 
+  const needsConfirmation = (field: ReceiptField) =>
+    !!scanResult?.confidence &&
+    scanResult.confidence[field] < LOW_CONFIDENCE &&
+    !confirmedFields.includes(field);
+
+  const confirmField = (field: ReceiptField) =>
+    setConfirmedFields((prev) =>
+      prev.includes(field) ? prev : [...prev, field],
+    );
+
+  // Editing a scanned value counts as confirming it
+  const editScannedField = (
+    formField: string,
+    field: ReceiptField,
+    value: string,
+  ) => {
+    updateManualForm(formField, value);
+    confirmField(field);
+  };
+
   const handleConfirmScan = () => {
+    const unconfirmed = (
+      [
+        "stationName",
+        "date",
+        "time",
+        "pricePerUnit",
+        "totalUnits",
+        "totalCost",
+      ] as ReceiptField[]
+    ).filter(needsConfirmation);
+
+    if (unconfirmed.length > 0) {
+      Alert.alert(
+        "Check Highlighted Values",
+        "Some values may have been misread. Continue anyway?",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Continue", onPress: () => setScanState("form") },
+        ],
+      );
+      return;
+    }
     setScanState("form");
   };
 
@@ -407,7 +601,7 @@ export default function ScanScreen() {
       return;
     }
 
-    const entryData = {
+    const entryData: NewFuelEntry = {
       vehicleId: selectedVehicle,
       stationName:
         manualForm.stationName || scanResult?.parsed.stationName || null,
@@ -420,15 +614,25 @@ export default function ScanScreen() {
         new Date().toISOString().split("T")[0],
       time: manualForm.time || scanResult?.parsed.time,
       pricePerLiter: manualForm.pricePerLiter
-        ? toMetricPrice(parseFloat(manualForm.pricePerLiter))
+        ? toStoredPricePerUnit(
+            parseFloat(manualForm.pricePerLiter),
+            manualForm.energyUnit,
+          )
         : null,
       totalLiters: manualForm.totalLiters
-        ? toMetricVolume(parseFloat(manualForm.totalLiters))
+        ? toStoredUnits(
+            parseFloat(manualForm.totalLiters),
+            manualForm.energyUnit,
+          )
         : null,
       totalCost: parseFloat(manualForm.totalCost),
+      currency: paidCurrency,
       mileage: manualForm.mileage
         ? toMetricDistance(parseInt(manualForm.mileage))
         : null,
+      fullTank: isCharging || manualForm.fullTank,
+      missedFillup: manualForm.missedFillup,
+      ...getEnergyFields(),
       receiptImageUrl: scanResult?.imageUrl || null,
       notes: manualForm.notes || null,
     };
@@ -449,10 +653,9 @@ export default function ScanScreen() {
     } catch (error: any) {
       console.error("Failed to save entry:", error);
 
-      if (
-        error.message &&
-        (error.message.includes("409") || error.message.includes("Conflict"))
-      ) {
+      if (isNetworkError(error)) {
+        await saveEntryOffline(entryData);
+      } else if (error instanceof ApiError && error.status === 409) {
         Alert.alert(
           "Duplicate Entry",
           "We found a similar entry with the same date and cost. Do you want to save it anyway?",
@@ -535,6 +738,140 @@ export default function ScanScreen() {
     setManualForm(newForm);
   };
 
+  // Fill-up flags for fuels, charger details for charging sessions
+  const renderEnergySection = () => (
+    <>
+      {selectedFuelType === "hybrid" && (
+        <View style={styles.formSection}>
+          <ToggleRow
+            label="Charging session"
+            description="Log electricity in kWh instead of fuel"
+            icon="plug"
+            value={isCharging}
+            onValueChange={(v) =>
+              setManualForm((prev) => ({
+                ...prev,
+                energyUnit: v ? "kWh" : "L",
+              }))
+            }
+            styles={styles}
+            colors={colors}
+          />
+        </View>
+      )}
+
+      {isCharging ? (
+        <View style={styles.formSection}>
+          <Text style={styles.formSectionTitle}>Charging</Text>
+          <View style={styles.vehicleListHorizontal}>
+            {(["AC", "DC"] as const).map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[
+                  styles.vehicleChip,
+                  manualForm.chargerType === type && styles.vehicleChipSelected,
+                ]}
+                onPress={() =>
+                  setManualForm((prev) => ({ ...prev, chargerType: type }))
+                }
+              >
+                <FontAwesome
+                  name="plug"
+                  size={14}
+                  color={
+                    manualForm.chargerType === type
+                      ? "#FFFFFF"
+                      : colors.textSecondary
+                  }
+                />
+                <Text
+                  style={[
+                    styles.vehicleChipText,
+                    manualForm.chargerType === type &&
+                      styles.vehicleChipTextSelected,
+                  ]}
+                >
+                  {type}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={[styles.inputContainer, { marginTop: 10 }]}>
+            <FontAwesome name="bolt" size={18} color={colors.textSecondary} />
+            <TextInput
+              style={styles.textInput}
+              placeholder="Charging power"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="decimal-pad"
+              value={manualForm.chargingPowerKw}
+              onChangeText={(v) =>
+                setManualForm((prev) => ({ ...prev, chargingPowerKw: v }))
+              }
+            />
+            <Text style={styles.inputUnit}>kW</Text>
+          </View>
+
+          <View style={[styles.inputRow, { marginTop: 10 }]}>
+            <View style={[styles.inputContainer, { flex: 1 }]}>
+              <TextInput
+                style={styles.textInput}
+                placeholder="Start"
+                placeholderTextColor={colors.textMuted}
+                keyboardType="numeric"
+                value={manualForm.socStart}
+                onChangeText={(v) =>
+                  setManualForm((prev) => ({ ...prev, socStart: v }))
+                }
+              />
+              <Text style={styles.inputUnit}>%</Text>
+            </View>
+            <View style={[styles.inputContainer, { flex: 1 }]}>
+              <TextInput
+                style={styles.textInput}
+                placeholder="End"
+                placeholderTextColor={colors.textMuted}
+                keyboardType="numeric"
+                value={manualForm.socEnd}
+                onChangeText={(v) =>
+                  setManualForm((prev) => ({ ...prev, socEnd: v }))
+                }
+              />
+              <Text style={styles.inputUnit}>%</Text>
+            </View>
+          </View>
+        </View>
+      ) : (
+        // Fill-up type — drives full-to-full consumption
+        <View style={styles.formSection}>
+          <Text style={styles.formSectionTitle}>Fill-up</Text>
+          <ToggleRow
+            label="Full tank"
+            description="Filled up to the brim"
+            icon="battery-full"
+            value={manualForm.fullTank}
+            onValueChange={(v) =>
+              setManualForm((prev) => ({ ...prev, fullTank: v }))
+            }
+            styles={styles}
+            colors={colors}
+          />
+          <ToggleRow
+            label="Missed fill-up"
+            description="A previous fill-up was not recorded"
+            icon="exclamation-triangle"
+            value={manualForm.missedFillup}
+            onValueChange={(v) =>
+              setManualForm((prev) => ({ ...prev, missedFillup: v }))
+            }
+            styles={styles}
+            colors={colors}
+          />
+        </View>
+      )}
+    </>
+  );
+
   // Processing state
   if (scanState === "processing") {
     return (
@@ -568,6 +905,16 @@ export default function ScanScreen() {
               <View style={{ width: 20 }} />
             </View>
 
+            {offlineReceipt && (
+              <View style={styles.offlineNotice}>
+                <FontAwesome name="wifi" size={14} color={colors.warning} />
+                <Text style={styles.offlineNoticeText}>
+                  Receipt photo attached. It will be uploaded when you're back
+                  online.
+                </Text>
+              </View>
+            )}
+
             {/* Station Brand with Autocomplete */}
             <View style={styles.formSection}>
               <Text style={styles.formSectionTitle}>Station Brand</Text>
@@ -681,13 +1028,13 @@ export default function ScanScreen() {
                   />
                   <TextInput
                     style={styles.textInput}
-                    placeholder={volumeUnitLabel}
+                    placeholder={isCharging ? "Energy" : volumeUnitLabel}
                     placeholderTextColor={colors.textMuted}
                     keyboardType="decimal-pad"
                     value={manualForm.totalLiters}
                     onChangeText={(v) => updateManualForm("totalLiters", v)}
                   />
-                  <Text style={styles.inputUnit}>L</Text>
+                  <Text style={styles.inputUnit}>{entryUnit}</Text>
                 </View>
               </View>
 
@@ -699,13 +1046,15 @@ export default function ScanScreen() {
                 />
                 <TextInput
                   style={styles.textInput}
-                  placeholder={`Price per ${volumeUnit}`}
+                  placeholder={`Price per ${entryUnit}`}
                   placeholderTextColor={colors.textMuted}
                   keyboardType="decimal-pad"
                   value={manualForm.pricePerLiter}
                   onChangeText={(v) => updateManualForm("pricePerLiter", v)}
                 />
-                <Text style={styles.inputUnit}>{pricePerVolumeUnit}</Text>
+                <Text style={styles.inputUnit}>
+                  {`${paidCurrencySymbol}/${entryUnit}`}
+                </Text>
               </View>
 
               <View
@@ -728,9 +1077,39 @@ export default function ScanScreen() {
                   onChangeText={(v) => updateManualForm("totalCost", v)}
                 />
                 <Text style={[styles.inputUnit, { color: colors.tint }]}>
-                  {currencySymbol}
+                  {paidCurrencySymbol}
                 </Text>
               </View>
+
+              {/* Currency the receipt was paid in */}
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={{ marginTop: 10 }}
+              >
+                <View style={styles.vehicleListHorizontal}>
+                  {supportedCurrencies.map((code) => (
+                    <TouchableOpacity
+                      key={code}
+                      style={[
+                        styles.vehicleChip,
+                        paidCurrency === code && styles.vehicleChipSelected,
+                      ]}
+                      onPress={() => setEntryCurrency(code)}
+                    >
+                      <Text
+                        style={[
+                          styles.vehicleChipText,
+                          paidCurrency === code &&
+                            styles.vehicleChipTextSelected,
+                        ]}
+                      >
+                        {code}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </ScrollView>
             </View>
 
             {/* Vehicle Selection */}
@@ -797,6 +1176,8 @@ export default function ScanScreen() {
               </View>
             </View>
 
+            {renderEnergySection()}
+
             <TouchableOpacity
               style={[
                 styles.saveButton,
@@ -838,6 +1219,21 @@ export default function ScanScreen() {
             <View style={{ width: 20 }} />
           </View>
 
+          {scanResult.warnings?.length > 0 && (
+            <View style={styles.scanWarnings}>
+              {scanResult.warnings.map((warning, index) => (
+                <View key={index} style={styles.scanWarningRow}>
+                  <FontAwesome
+                    name="exclamation-triangle"
+                    size={14}
+                    color={colors.warning}
+                  />
+                  <Text style={styles.scanWarningText}>{warning.message}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
           <View style={styles.resultCard}>
             <Text style={styles.resultCardTitle}>Extracted Data</Text>
 
@@ -845,6 +1241,8 @@ export default function ScanScreen() {
               label="Station"
               value={scanResult.parsed.stationName || "Not detected"}
               icon="building"
+              lowConfidence={needsConfirmation("stationName")}
+              onConfirm={() => confirmField("stationName")}
               styles={styles}
               colors={colors}
             />
@@ -853,7 +1251,9 @@ export default function ScanScreen() {
               value={manualForm.date}
               icon="calendar"
               editable
-              onChangeText={(v: string) => updateManualForm("date", v)}
+              onChangeText={(v: string) => editScannedField("date", "date", v)}
+              lowConfidence={needsConfirmation("date")}
+              onConfirm={() => confirmField("date")}
               styles={styles}
               colors={colors}
             />
@@ -862,26 +1262,36 @@ export default function ScanScreen() {
               value={manualForm.time}
               icon="clock-o"
               editable
-              onChangeText={(v: string) => updateManualForm("time", v)}
+              onChangeText={(v: string) => editScannedField("time", "time", v)}
+              lowConfidence={needsConfirmation("time")}
+              onConfirm={() => confirmField("time")}
               styles={styles}
               colors={colors}
             />
             <DataRow
-              label="Price/Liter"
+              label={isCharging ? "Price/kWh" : "Price/Liter"}
               value={manualForm.pricePerLiter}
               icon="euro"
               editable
-              onChangeText={(v: string) => updateManualForm("pricePerLiter", v)}
+              onChangeText={(v: string) =>
+                editScannedField("pricePerLiter", "pricePerUnit", v)
+              }
+              lowConfidence={needsConfirmation("pricePerUnit")}
+              onConfirm={() => confirmField("pricePerUnit")}
               placeholder="0.00"
               styles={styles}
               colors={colors}
             />
             <DataRow
-              label="Total Liters"
+              label={isCharging ? "Total kWh" : "Total Liters"}
               value={manualForm.totalLiters}
               icon="tint"
               editable
-              onChangeText={(v: string) => updateManualForm("totalLiters", v)}
+              onChangeText={(v: string) =>
+                editScannedField("totalLiters", "totalUnits", v)
+              }
+              lowConfidence={needsConfirmation("totalUnits")}
+              onConfirm={() => confirmField("totalUnits")}
               placeholder="0.00"
               styles={styles}
               colors={colors}
@@ -892,7 +1302,11 @@ export default function ScanScreen() {
               icon="credit-card"
               highlighted
               editable
-              onChangeText={(v: string) => updateManualForm("totalCost", v)}
+              onChangeText={(v: string) =>
+                editScannedField("totalCost", "totalCost", v)
+              }
+              lowConfidence={needsConfirmation("totalCost")}
+              onConfirm={() => confirmField("totalCost")}
               placeholder="0"
               styles={styles}
               colors={colors}
@@ -999,6 +1413,8 @@ export default function ScanScreen() {
               </View>
             </View>
 
+            {renderEnergySection()}
+
             <View style={styles.summaryCard}>
               <Text style={styles.summaryTitle}>Review & Edit Details</Text>
 
@@ -1021,7 +1437,7 @@ export default function ScanScreen() {
                 colors={colors}
               />
               <DataRow
-                label="Price/Liter"
+                label={isCharging ? "Price/kWh" : "Price/Liter"}
                 value={manualForm.pricePerLiter}
                 icon="euro"
                 editable
@@ -1033,7 +1449,7 @@ export default function ScanScreen() {
                 colors={colors}
               />
               <DataRow
-                label="Total Liters"
+                label={isCharging ? "Total kWh" : "Total Liters"}
                 value={manualForm.totalLiters}
                 icon="tint"
                 editable
@@ -1182,6 +1598,39 @@ export default function ScanScreen() {
   );
 }
 
+function ToggleRow({
+  label,
+  description,
+  icon,
+  value,
+  onValueChange,
+  styles,
+  colors,
+}: {
+  label: string;
+  description: string;
+  icon: string;
+  value: boolean;
+  onValueChange: (value: boolean) => void;
+  styles: any;
+  colors: any;
+}) {
+  return (
+    <View style={styles.toggleRow}>
+      <FontAwesome name={icon as any} size={16} color={colors.textSecondary} />
+      <View style={styles.toggleRowText}>
+        <Text style={styles.toggleRowLabel}>{label}</Text>
+        <Text style={styles.toggleRowDescription}>{description}</Text>
+      </View>
+      <Switch
+        value={value}
+        onValueChange={onValueChange}
+        trackColor={{ false: "#767577", true: colors.tint }}
+      />
+    </View>
+  );
+}
+
 function DataRow({
   label,
   value,
@@ -1190,6 +1639,8 @@ function DataRow({
   editable,
   onChangeText,
   placeholder,
+  lowConfidence,
+  onConfirm,
   styles,
   colors,
 }: {
@@ -1200,16 +1651,31 @@ function DataRow({
   editable?: boolean;
   onChangeText?: (text: string) => void;
   placeholder?: string;
+  // Marks a scanned value to check, with a button to confirm it as read
+  lowConfidence?: boolean;
+  onConfirm?: () => void;
   styles: any;
   colors: any;
 }) {
   return (
-    <View style={[styles.dataRow, highlighted && styles.dataRowHighlighted]}>
+    <View
+      style={[
+        styles.dataRow,
+        highlighted && styles.dataRowHighlighted,
+        lowConfidence && styles.dataRowLowConfidence,
+      ]}
+    >
       <View style={styles.dataRowIcon}>
         <FontAwesome
-          name={icon as any}
+          name={(lowConfidence ? "exclamation-triangle" : icon) as any}
           size={16}
-          color={highlighted ? colors.tint : colors.textSecondary}
+          color={
+            lowConfidence
+              ? colors.warning
+              : highlighted
+                ? colors.tint
+                : colors.textSecondary
+          }
         />
       </View>
       <Text style={styles.dataRowLabel}>{label}</Text>
@@ -1240,6 +1706,15 @@ function DataRow({
           {value || "Not detected"}
         </Text>
       )}
+      {lowConfidence && onConfirm && (
+        <TouchableOpacity
+          style={styles.dataRowConfirm}
+          onPress={onConfirm}
+          hitSlop={8}
+        >
+          <FontAwesome name="check-circle" size={20} color={colors.warning} />
+        </TouchableOpacity>
+      )}
     </View>
   );
 }
@@ -1420,6 +1895,20 @@ const getStyles = (colors: any) =>
       alignItems: "center",
       marginBottom: 24,
     },
+    offlineNotice: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      backgroundColor: colors.elevated,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 20,
+    },
+    offlineNoticeText: {
+      flex: 1,
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
     reviewTitle: {
       fontSize: 20,
       fontWeight: "600",
@@ -1430,6 +1919,23 @@ const getStyles = (colors: any) =>
       borderRadius: 16,
       padding: 16,
     },
+    scanWarnings: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 16,
+      gap: 10,
+      marginBottom: 16,
+    },
+    scanWarningRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+    },
+    scanWarningText: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.text,
+    },
     resultCardTitle: {
       fontSize: 16,
       fontWeight: "600",
@@ -1451,6 +1957,14 @@ const getStyles = (colors: any) =>
       borderBottomWidth: 0,
       marginTop: 8,
     },
+    dataRowLowConfidence: {
+      borderLeftWidth: 3,
+      borderLeftColor: colors.warning,
+      paddingLeft: 8,
+    },
+    dataRowConfirm: {
+      marginLeft: 10,
+    },
     dataRowIcon: {
       width: 32,
     },
@@ -1520,6 +2034,28 @@ const getStyles = (colors: any) =>
       color: colors.text,
       marginBottom: 12,
     },
+    toggleRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      marginBottom: 10,
+      gap: 12,
+    },
+    toggleRowText: {
+      flex: 1,
+    },
+    toggleRowLabel: {
+      fontSize: 16,
+      color: colors.text,
+    },
+    toggleRowDescription: {
+      fontSize: 12,
+      color: colors.textMuted,
+      marginTop: 2,
+    },
     locationBadge: {
       fontSize: 12,
       color: "#30D158",
@@ -80,6 +80,20 @@ function RootLayoutNav() {
             animation: "slide_from_right",
           }}
         />
+        <Stack.Screen
+          name="import"
+          options={{
+            gestureEnabled: true,
+            animation: "slide_from_right",
+          }}
+        />
+        <Stack.Screen
+          name="receipts"
+          options={{
+            gestureEnabled: true,
+            animation: "slide_from_right",
+          }}
+        />
         <Stack.Screen name="modal" options={{ presentation: "modal" }} />
       </Stack>
     </NavigationThemeProvider>
@@ -0,0 +1,625 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Switch,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { Stack, useRouter } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/context/ThemeContext";
+import { currencySymbolFor, useUnits } from "@/hooks/useUnits";
+import api, {
+  ImportField,
+  ImportFormat,
+  ImportResult,
+  Vehicle,
+} from "@/services/api";
+
+const FORMATS: { value: ImportFormat; label: string }[] = [
+  { value: "fuelio", label: "Fuelio" },
+  { value: "spritmonitor", label: "Spritmonitor.de" },
+  { value: "acar", label: "aCar" },
+  { value: "generic", label: "CSV" },
+];
+
+// Columns offered in generic mode; the rest are optional extras
+const MAPPING_FIELDS: ImportField[] = [
+  "date",
+  "totalCost",
+  "totalLiters",
+  "pricePerLiter",
+  "mileage",
+  "stationName",
+];
+
+const DATE_ORDERS = ["YMD", "DMY", "MDY"] as const;
+
+// Rows shown in the preview; the summary still counts all of them
+const PREVIEW_LIMIT = 100;
+
+export default function ImportScreen() {
+  const { colors } = useTheme();
+  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { currency: displayCurrency, supportedCurrencies } = useUnits();
+
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [vehicleId, setVehicleId] = useState<string | null>(null);
+  const [format, setFormat] = useState<ImportFormat>("fuelio");
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, string>>>(
+    {},
+  );
+  const [dateOrder, setDateOrder] =
+    useState<(typeof DATE_ORDERS)[number]>("YMD");
+  const [decimalComma, setDecimalComma] = useState(false);
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    api
+      .getVehicles()
+      .then((data) => {
+        setVehicles(data);
+        if (data.length > 0) setVehicleId(data[0].id);
+      })
+      .catch((error) => console.error("Failed to load vehicles:", error));
+  }, []);
+
+  // Any change to the input invalidates the preview
+  useEffect(() => {
+    setPreview(null);
+  }, [vehicleId, format, csv, mapping, dateOrder, decimalComma, currency]);
+
+  const fileCurrency = currency ?? displayCurrency;
+
+  // Web only: read a local file; on native the CSV is pasted in
+  const pickFile = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".csv,text/csv,text/plain";
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = () => {
+        setCsv(String(reader.result || ""));
+        setFileName(file.name);
+      };
+      reader.readAsText(file);
+    };
+    input.click();
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!vehicleId) {
+      Alert.alert(t("import.title"), t("import.noVehicle"));
+      return;
+    }
+    if (!csv.trim()) {
+      Alert.alert(t("import.title"), t("import.noFile"));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const result = await api.importEntries({
+        vehicleId,
+        format,
+        csv,
+        ...(format === "generic" && { mapping, dateOrder, decimalComma }),
+        currency: fileCurrency,
+        dryRun,
+        includeDuplicates,
+      });
+
+      if (dryRun) {
+        setPreview(result);
+      } else {
+        Alert.alert(
+          t("import.title"),
+          t("import.success", { count: result.imported }),
+        );
+        router.back();
+      }
+    } catch (error: any) {
+      console.error("Import failed:", error);
+      Alert.alert(t("import.title"), error.message || t("import.failed"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const importCount = preview
+    ? preview.rows.filter(
+        (row) => row.entry && (includeDuplicates || !row.duplicate),
+      ).length
+    : 0;
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      <Stack.Screen
+        options={{
+          title: t("import.title"),
+          headerStyle: { backgroundColor: colors.background },
+          headerTintColor: colors.text,
+        }}
+      />
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Vehicle */}
+        <Text style={styles.label}>{t("import.vehicle")}</Text>
+        <View style={styles.chipRow}>
+          {vehicles.map((vehicle) => (
+            <Chip
+              key={vehicle.id}
+              label={vehicle.name}
+              selected={vehicleId === vehicle.id}
+              onPress={() => setVehicleId(vehicle.id)}
+              styles={styles}
+            />
+          ))}
+        </View>
+        {vehicles.length === 0 && (
+          <Text style={styles.hint}>{t("import.noVehicle")}</Text>
+        )}
+
+        {/* Source app */}
+        <Text style={styles.label}>{t("import.format")}</Text>
+        <View style={styles.chipRow}>
+          {FORMATS.map((option) => (
+            <Chip
+              key={option.value}
+              label={
+                option.value === "generic"
+                  ? t("import.genericFormat")
+                  : option.label
+              }
+              selected={format === option.value}
+              onPress={() => setFormat(option.value)}
+              styles={styles}
+            />
+          ))}
+        </View>
+        <Text style={styles.hint}>{t(`import.hints.${format}`)}</Text>
+
+        {/* Currency the amounts are in */}
+        <Text style={styles.label}>{t("import.currency")}</Text>
+        <View style={styles.chipRow}>
+          {supportedCurrencies.map((code) => (
+            <Chip
+              key={code}
+              label={code}
+              selected={fileCurrency === code}
+              onPress={() => setCurrency(code)}
+              styles={styles}
+            />
+          ))}
+        </View>
+
+        {/* Column mapping */}
+        {format === "generic" && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t("import.mapping")}</Text>
+            {MAPPING_FIELDS.map((field) => (
+              <View key={field} style={styles.mappingRow}>
+                <Text style={styles.mappingLabel}>
+                  {t(`import.fields.${field}`)}
+                </Text>
+                <TextInput
+                  style={styles.mappingInput}
+                  placeholder={t("import.columnPlaceholder")}
+                  placeholderTextColor={colors.textMuted}
+                  value={mapping[field] || ""}
+                  onChangeText={(v) =>
+                    setMapping((prev) => ({ ...prev, [field]: v }))
+                  }
+                />
+              </View>
+            ))}
+            <View style={styles.mappingRow}>
+              <Text style={styles.mappingLabel}>{t("import.dateOrder")}</Text>
+              <View style={styles.chipRow}>
+                {DATE_ORDERS.map((order) => (
+                  <Chip
+                    key={order}
+                    label={order}
+                    selected={dateOrder === order}
+                    onPress={() => setDateOrder(order)}
+                    styles={styles}
+                  />
+                ))}
+              </View>
+            </View>
+            <View style={styles.switchRow}>
+              <Text style={styles.mappingLabel}>
+                {t("import.decimalComma")}
+              </Text>
+              <Switch
+                value={decimalComma}
+                onValueChange={setDecimalComma}
+                trackColor={{ true: colors.tint }}
+              />
+            </View>
+          </View>
+        )}
+
+        {/* File */}
+        <Text style={styles.label}>{t("import.file")}</Text>
+        {Platform.OS === "web" && (
+          <TouchableOpacity style={styles.fileButton} onPress={pickFile}>
+            <FontAwesome name="upload" size={16} color={colors.tint} />
+            <Text style={styles.fileButtonText}>
+              {fileName || t("import.chooseFile")}
+            </Text>
+          </TouchableOpacity>
+        )}
+        <TextInput
+          style={styles.csvInput}
+          placeholder={t("import.pastePlaceholder")}
+          placeholderTextColor={colors.textMuted}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          value={csv}
+          onChangeText={(v) => {
+            setCsv(v);
+            setFileName(null);
+          }}
+        />
+
+        <TouchableOpacity
+          style={[styles.primaryButton, loading && { opacity: 0.6 }]}
+          onPress={() => runImport(true)}
+          disabled={loading}
+        >
+          {loading && !preview ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.primaryButtonText}>{t("import.preview")}</Text>
+          )}
+        </TouchableOpacity>
+
+        {/* Preview */}
+        {preview && (
+          <View style={styles.previewSection}>
+            <View style={styles.summaryRow}>
+              <SummaryItem
+                label={t("import.valid")}
+                value={preview.valid}
+                color={colors.success}
+                styles={styles}
+              />
+              <SummaryItem
+                label={t("import.duplicates")}
+                value={preview.duplicates}
+                color={colors.tint}
+                styles={styles}
+              />
+              <SummaryItem
+                label={t("import.errors")}
+                value={preview.errors}
+                color={colors.error}
+                styles={styles}
+              />
+            </View>
+
+            {preview.duplicates > 0 && (
+              <View style={styles.switchRow}>
+                <Text style={styles.mappingLabel}>
+                  {t("import.includeDuplicates")}
+                </Text>
+                <Switch
+                  value={includeDuplicates}
+                  onValueChange={setIncludeDuplicates}
+                  trackColor={{ true: colors.tint }}
+                />
+              </View>
+            )}
+
+            {preview.rows.slice(0, PREVIEW_LIMIT).map((row) => (
+              <View key={row.line} style={styles.rowCard}>
+                <Text style={styles.rowLine}>#{row.line}</Text>
+                {row.entry ? (
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>
+                      {row.entry.date} • {row.entry.totalCost}{" "}
+                      {currencySymbolFor(fileCurrency)}
+                      {row.entry.totalLiters != null &&
+                        ` • ${row.entry.totalLiters} L`}
+                    </Text>
+                    <Text style={styles.rowMeta} numberOfLines={1}>
+                      {[
+                        row.entry.mileage != null
+                          ? `${row.entry.mileage} km`
+                          : null,
+                        row.entry.fullTank ? null : t("import.partial"),
+                        row.entry.stationName,
+                      ]
+                        .filter(Boolean)
+                        .join(" • ")}
+                    </Text>
+                  </View>
+                ) : (
+                  <Text style={[styles.rowInfo, styles.rowError]}>
+                    {row.error}
+                  </Text>
+                )}
+                {row.duplicate && (
+                  <Text style={styles.duplicateBadge}>
+                    {t("import.duplicate")}
+                  </Text>
+                )}
+              </View>
+            ))}
+            {preview.rows.length > PREVIEW_LIMIT && (
+              <Text style={styles.hint}>
+                {t("import.moreRows", {
+                  count: preview.rows.length - PREVIEW_LIMIT,
+                })}
+              </Text>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                (loading || importCount === 0) && { opacity: 0.6 },
+              ]}
+              onPress={() => runImport(false)}
+              disabled={loading || importCount === 0}
+            >
+              {loading ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {t("import.confirm", { count: importCount })}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function Chip({
+  label,
+  selected,
+  onPress,
+  styles,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  styles: any;
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+function SummaryItem({
+  label,
+  value,
+  color,
+  styles,
+}: {
+  label: string;
+  value: number;
+  color: string;
+  styles: any;
+}) {
+  return (
+    <View style={styles.summaryItem}>
+      <Text style={[styles.summaryValue, { color }]}>{value}</Text>
+      <Text style={styles.summaryLabel}>{label}</Text>
+    </View>
+  );
+}
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    scrollContent: {
+      maxWidth: 800,
+      width: "100%",
+      alignSelf: "center",
+      padding: 20,
+      paddingBottom: 40,
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.textSecondary,
+      textTransform: "uppercase",
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    hint: {
+      fontSize: 13,
+      color: colors.textMuted,
+      marginTop: 8,
+    },
+    chipRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    chip: {
+      backgroundColor: colors.card,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+    },
+    chipSelected: {
+      backgroundColor: colors.tint,
+    },
+    chipText: {
+      fontSize: 14,
+      color: colors.text,
+      fontWeight: "500",
+    },
+    chipTextSelected: {
+      color: "#FFFFFF",
+    },
+    card: {
+      backgroundColor: colors.card,
+      borderRadius: 14,
+      padding: 16,
+      marginTop: 16,
+      gap: 10,
+    },
+    cardTitle: {
+      fontSize: 15,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    mappingRow: {
+      gap: 6,
+    },
+    mappingLabel: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    mappingInput: {
+      backgroundColor: colors.inputBackground,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      color: colors.text,
+    },
+    switchRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginVertical: 8,
+    },
+    fileButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 14,
+      marginBottom: 10,
+    },
+    fileButtonText: {
+      fontSize: 15,
+      color: colors.tint,
+      fontWeight: "600",
+    },
+    csvInput: {
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 14,
+      minHeight: 140,
+      maxHeight: 240,
+      fontSize: 12,
+      fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+      color: colors.text,
+      textAlignVertical: "top",
+    },
+    primaryButton: {
+      backgroundColor: colors.tint,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    primaryButtonText: {
+      color: "#FFFFFF",
+      fontWeight: "600",
+      fontSize: 16,
+    },
+    previewSection: {
+      marginTop: 24,
+    },
+    summaryRow: {
+      flexDirection: "row",
+      backgroundColor: colors.card,
+      borderRadius: 14,
+      padding: 16,
+      marginBottom: 12,
+    },
+    summaryItem: {
+      flex: 1,
+      alignItems: "center",
+    },
+    summaryValue: {
+      fontSize: 20,
+      fontWeight: "700",
+    },
+    summaryLabel: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    rowCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 8,
+      gap: 10,
+    },
+    rowLine: {
+      fontSize: 12,
+      color: colors.textMuted,
+      width: 40,
+    },
+    rowInfo: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 14,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    rowMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    rowError: {
+      fontSize: 13,
+      color: colors.error,
+    },
+    duplicateBadge: {
+      fontSize: 11,
+      fontWeight: "600",
+      color: colors.tint,
+      backgroundColor: colors.primaryLight,
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      borderRadius: 8,
+      overflow: "hidden",
+    },
+  });
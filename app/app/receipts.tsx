@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { Stack } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/context/ThemeContext";
+import { currencySymbolFor } from "@/hooks/useUnits";
+import { useQueryInvalidation } from "@/hooks/useQueryCache";
+import { cachedQuery, queryKey } from "@/services/queryCache";
+import api, { ReceiptListItem } from "@/services/api";
+import ReceiptViewer from "@/components/ReceiptViewer";
+
+const COLUMNS = 3;
+
+// Every stored receipt photo with the entry it belongs to, newest first
+export default function ReceiptsScreen() {
+  const { colors } = useTheme();
+  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { t, i18n } = useTranslation();
+
+  const [receipts, setReceipts] = useState<ReceiptListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [selected, setSelected] = useState<ReceiptListItem | null>(null);
+
+  const loadReceipts = useCallback(async () => {
+    try {
+      await cachedQuery(
+        queryKey("receipts"),
+        () => api.getReceipts(),
+        (data) => {
+          setReceipts(data);
+          setLoading(false);
+        },
+      );
+    } catch (error) {
+      console.error("Failed to load receipts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReceipts();
+  }, [loadReceipts]);
+
+  useQueryInvalidation(["receipts"], loadReceipts);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadReceipts();
+    setRefreshing(false);
+  };
+
+  const renderReceipt = ({ item }: { item: ReceiptListItem }) => (
+    <TouchableOpacity style={styles.tile} onPress={() => setSelected(item)}>
+      <Image
+        source={api.receiptImageSource(item.thumbnailUrl)}
+        style={styles.thumbnail}
+      />
+      <Text style={styles.tileTitle} numberOfLines={1}>
+        {item.stationName || t("receipts.unknownStation")}
+      </Text>
+      <Text style={styles.tileSubtitle} numberOfLines={1}>
+        {new Date(item.date).toLocaleDateString(i18n.language)} •{" "}
+        {item.totalCost.toFixed(0)} {currencySymbolFor(item.currency)}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      <Stack.Screen
+        options={{
+          title: t("receipts.title"),
+          headerStyle: { backgroundColor: colors.background },
+          headerTintColor: colors.text,
+        }}
+      />
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      ) : (
+        <FlatList
+          data={receipts}
+          keyExtractor={(item) => item.entryId}
+          renderItem={renderReceipt}
+          numColumns={COLUMNS}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={colors.tint}
+            />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <FontAwesome name="image" size={40} color={colors.textMuted} />
+              <Text style={styles.emptyText}>{t("receipts.empty")}</Text>
+            </View>
+          }
+        />
+      )}
+
+      <ReceiptViewer receipt={selected} onClose={() => setSelected(null)} />
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    listContent: {
+      maxWidth: 800,
+      width: "100%",
+      alignSelf: "center",
+      padding: 10,
+    },
+    tile: {
+      width: `${100 / COLUMNS}%`,
+      padding: 6,
+    },
+    thumbnail: {
+      width: "100%",
+      aspectRatio: 3 / 4,
+      borderRadius: 12,
+      backgroundColor: colors.card,
+    },
+    tileTitle: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.text,
+      marginTop: 6,
+    },
+    tileSubtitle: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: 60,
+      gap: 12,
+    },
+    emptyText: {
+      fontSize: 15,
+      color: colors.textSecondary,
+      textAlign: "center",
+    },
+  });
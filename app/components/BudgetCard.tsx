@@ -0,0 +1,174 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import Svg, { Circle } from "react-native-svg";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/context/ThemeContext";
+import { Stats } from "@/services/api";
+
+interface BudgetCardProps {
+  budget: Stats["budget"];
+  period: "month" | "year";
+  currencySymbol: string;
+  onPress: () => void;
+}
+
+const RING_SIZE = 72;
+const RING_STROKE = 8;
+
+// Share of the budget spent as a ring, full at 100%
+function ProgressRing({
+  progress,
+  color,
+}: {
+  progress: number;
+  color: string;
+}) {
+  const { colors } = useTheme();
+  const radius = (RING_SIZE - RING_STROKE) / 2;
+  const circumference = 2 * Math.PI * radius;
+
+  return (
+    <Svg width={RING_SIZE} height={RING_SIZE}>
+      <Circle
+        cx={RING_SIZE / 2}
+        cy={RING_SIZE / 2}
+        r={radius}
+        stroke={colors.inputBackground}
+        strokeWidth={RING_STROKE}
+        fill="none"
+      />
+      <Circle
+        cx={RING_SIZE / 2}
+        cy={RING_SIZE / 2}
+        r={radius}
+        stroke={color}
+        strokeWidth={RING_STROKE}
+        fill="none"
+        strokeLinecap="round"
+        strokeDasharray={`${circumference} ${circumference}`}
+        strokeDashoffset={circumference * (1 - Math.min(progress, 1))}
+        // Start at 12 o'clock
+        transform={`rotate(-90 ${RING_SIZE / 2} ${RING_SIZE / 2})`}
+      />
+    </Svg>
+  );
+}
+
+// Progress toward the fuel budget of the viewed month or year. Turns red
+// once the projected spend exceeds the budget. Without a budget it offers to
+// set one.
+export default function BudgetCard({
+  budget,
+  period,
+  currencySymbol,
+  onPress,
+}: BudgetCardProps) {
+  const { colors } = useTheme();
+  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { t } = useTranslation();
+
+  if (!budget) {
+    return (
+      <TouchableOpacity style={styles.setButton} onPress={onPress}>
+        <FontAwesome name="bullseye" size={16} color={colors.tint} />
+        <Text style={styles.setButtonText}>
+          {t(`home.budget.set.${period}`)}
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  const formatAmount = (value: number) =>
+    `${value.toFixed(0)} ${currencySymbol}`;
+  const color = budget.overBudget ? colors.error : colors.success;
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={onPress}>
+      <View style={styles.ring}>
+        <ProgressRing progress={budget.percentUsed / 100} color={color} />
+        <Text style={[styles.ringText, { color }]}>
+          {Math.round(budget.percentUsed)}%
+        </Text>
+      </View>
+      <View style={styles.info}>
+        <Text style={styles.title}>{t(`home.budget.title.${period}`)}</Text>
+        <Text style={styles.spent}>
+          {t("home.budget.spentOf", {
+            spent: formatAmount(budget.spent),
+            amount: formatAmount(budget.amount),
+          })}
+        </Text>
+        <Text style={[styles.projection, { color }]}>
+          {t("home.budget.projected", {
+            amount: formatAmount(budget.projected),
+          })}
+        </Text>
+        {budget.overBudget && (
+          <Text style={styles.alert}>{t("home.budget.overBudget")}</Text>
+        )}
+      </View>
+      <FontAwesome name="pencil" size={14} color={colors.textMuted} />
+    </TouchableOpacity>
+  );
+}
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    card: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 16,
+      gap: 16,
+    },
+    ring: {
+      width: RING_SIZE,
+      height: RING_SIZE,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    ringText: {
+      position: "absolute",
+      fontSize: 15,
+      fontWeight: "700",
+    },
+    info: {
+      flex: 1,
+      gap: 2,
+    },
+    title: {
+      fontSize: 15,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    spent: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    projection: {
+      fontSize: 13,
+      fontWeight: "600",
+    },
+    alert: {
+      fontSize: 12,
+      color: colors.error,
+    },
+    setButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderStyle: "dashed",
+      borderColor: colors.border,
+      paddingVertical: 14,
+    },
+    setButtonText: {
+      fontSize: 14,
+      fontWeight: "600",
+      color: colors.tint,
+    },
+  });
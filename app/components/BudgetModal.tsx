@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/context/ThemeContext";
+import { useUnits } from "@/hooks/useUnits";
+import api, { Stats } from "@/services/api";
+
+interface BudgetModalProps {
+  visible: boolean;
+  period: "month" | "year";
+  // null sets the budget for all vehicles
+  vehicleId: string | null;
+  vehicleName: string | null;
+  // The current budget, amounts in the display currency
+  budget: Stats["budget"];
+  onClose: () => void;
+}
+
+// Sets, changes or removes the fuel budget of a period for one vehicle or
+// all of them
+export default function BudgetModal({
+  visible,
+  period,
+  vehicleId,
+  vehicleName,
+  budget,
+  onClose,
+}: BudgetModalProps) {
+  const { colors } = useTheme();
+  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { t } = useTranslation();
+  const { currencySymbol, toBaseCurrency } = useUnits();
+
+  const [amount, setAmount] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setAmount(budget ? String(Math.round(budget.amount)) : "");
+    }
+  }, [visible, budget]);
+
+  const handleSave = async () => {
+    const value = parseFloat(amount.replace(",", "."));
+    if (!(value > 0)) {
+      Alert.alert(t("profile.alerts.error"), t("home.budget.invalid"));
+      return;
+    }
+
+    const data = {
+      period,
+      vehicleId,
+      amount: Math.round((toBaseCurrency(value) || 0) * 100) / 100,
+    };
+
+    try {
+      setSaving(true);
+      if (budget) {
+        await api.updateBudget(budget.id, data);
+      } else {
+        await api.addBudget(data);
+      }
+      onClose();
+    } catch (error) {
+      console.error("Failed to save budget:", error);
+      Alert.alert(t("profile.alerts.error"), t("home.budget.saveError"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!budget) return;
+    try {
+      setSaving(true);
+      await api.deleteBudget(budget.id);
+      onClose();
+    } catch (error) {
+      console.error("Failed to delete budget:", error);
+      Alert.alert(t("profile.alerts.error"), t("home.budget.deleteError"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{t(`home.budget.title.${period}`)}</Text>
+          <Text style={styles.scope}>
+            {vehicleName ?? t("home.allVehicles")}
+          </Text>
+
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={styles.textInput}
+              placeholder={t("home.budget.amount")}
+              placeholderTextColor={colors.textMuted}
+              keyboardType="decimal-pad"
+              value={amount}
+              onChangeText={setAmount}
+              autoFocus
+            />
+            <Text style={styles.inputUnit}>{currencySymbol}</Text>
+          </View>
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={onClose}
+              disabled={saving}
+            >
+              <Text style={styles.cancelButtonText}>
+                {t("home.budget.cancel")}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && { opacity: 0.6 }]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>
+                  {t("home.budget.save")}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {budget && (
+            <TouchableOpacity onPress={handleRemove} disabled={saving}>
+              <Text style={styles.removeText}>{t("home.budget.remove")}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: "rgba(0, 0, 0, 0.5)",
+      justifyContent: "center",
+      padding: 20,
+    },
+    card: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      gap: 12,
+      width: "100%",
+      maxWidth: 420,
+      alignSelf: "center",
+    },
+    title: {
+      fontSize: 17,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    scope: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: -8,
+    },
+    inputContainer: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.inputBackground,
+      borderRadius: 12,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      gap: 10,
+    },
+    textInput: {
+      flex: 1,
+      fontSize: 15,
+      color: colors.text,
+    },
+    inputUnit: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    actions: {
+      flexDirection: "row",
+      gap: 10,
+      marginTop: 4,
+    },
+    cancelButton: {
+      flex: 1,
+      backgroundColor: colors.inputBackground,
+      borderRadius: 12,
+      paddingVertical: 14,
+      alignItems: "center",
+    },
+    cancelButtonText: {
+      color: colors.text,
+      fontWeight: "600",
+      fontSize: 16,
+    },
+    saveButton: {
+      flex: 1,
+      backgroundColor: colors.tint,
+      borderRadius: 12,
+      paddingVertical: 14,
+      alignItems: "center",
+    },
+    saveButtonText: {
+      color: "#FFFFFF",
+      fontWeight: "600",
+      fontSize: 16,
+    },
+    removeText: {
+      color: colors.error,
+      fontSize: 14,
+      fontWeight: "600",
+      textAlign: "center",
+    },
+  });
@@ -0,0 +1,262 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+} from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/context/ThemeContext";
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+interface DateRangeModalProps {
+  visible: boolean;
+  initialRange: DateRange | null;
+  onApply: (range: DateRange) => void;
+  onClose: () => void;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const toIsoDate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Ranges ending today, relative to the day they are picked
+const PRESETS: { key: string; start: (today: Date) => Date }[] = [
+  {
+    key: "days30",
+    start: (today) =>
+      new Date(today.getFullYear(), today.getMonth(), today.getDate() - 29),
+  },
+  {
+    key: "months3",
+    start: (today) =>
+      new Date(today.getFullYear(), today.getMonth() - 3, today.getDate() + 1),
+  },
+  {
+    key: "months12",
+    start: (today) =>
+      new Date(today.getFullYear() - 1, today.getMonth(), today.getDate() + 1),
+  },
+  {
+    key: "yearToDate",
+    start: (today) => new Date(today.getFullYear(), 0, 1),
+  },
+];
+
+const presetRange = (start: (today: Date) => Date): DateRange => {
+  const today = new Date();
+  return { start: toIsoDate(start(today)), end: toIsoDate(today) };
+};
+
+// Picks an arbitrary start and end date for the dashboard stats
+export default function DateRangeModal({
+  visible,
+  initialRange,
+  onApply,
+  onClose,
+}: DateRangeModalProps) {
+  const { colors } = useTheme();
+  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { t } = useTranslation();
+
+  const [range, setRange] = useState<DateRange>(
+    initialRange ?? presetRange(PRESETS[0].start),
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setRange(initialRange ?? presetRange(PRESETS[0].start));
+      setError(null);
+    }
+  }, [visible, initialRange]);
+
+  const applyPreset = (start: (today: Date) => Date) => {
+    setRange(presetRange(start));
+    setError(null);
+  };
+
+  const handleApply = () => {
+    const valid =
+      ISO_DATE.test(range.start) &&
+      ISO_DATE.test(range.end) &&
+      !isNaN(new Date(range.start).getTime()) &&
+      !isNaN(new Date(range.end).getTime()) &&
+      range.start <= range.end;
+    if (!valid) {
+      setError(t("home.range.invalid"));
+      return;
+    }
+    onApply(range);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{t("home.range.title")}</Text>
+
+          <View style={styles.presets}>
+            {PRESETS.map((preset) => (
+              <TouchableOpacity
+                key={preset.key}
+                style={styles.presetChip}
+                onPress={() => applyPreset(preset.start)}
+              >
+                <Text style={styles.presetText}>
+                  {t(`home.range.presets.${preset.key}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {(["start", "end"] as const).map((field) => (
+            <View key={field}>
+              <Text style={styles.inputLabel}>{t(`home.range.${field}`)}</Text>
+              <View style={styles.inputContainer}>
+                <FontAwesome
+                  name="calendar"
+                  size={16}
+                  color={colors.textSecondary}
+                />
+                <TextInput
+                  style={styles.textInput}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={colors.textMuted}
+                  value={range[field]}
+                  onChangeText={(v) => {
+                    setRange((prev) => ({ ...prev, [field]: v.trim() }));
+                    setError(null);
+                  }}
+                />
+              </View>
+            </View>
+          ))}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>
+                {t("home.range.cancel")}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.applyButton} onPress={handleApply}>
+              <Text style={styles.applyButtonText}>
+                {t("home.range.apply")}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: "rgba(0, 0, 0, 0.5)",
+      justifyContent: "center",
+      padding: 20,
+    },
+    card: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      gap: 12,
+      width: "100%",
+      maxWidth: 420,
+      alignSelf: "center",
+    },
+    title: {
+      fontSize: 17,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    presets: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    presetChip: {
+      backgroundColor: colors.inputBackground,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 10,
+    },
+    presetText: {
+      fontSize: 13,
+      color: colors.text,
+      fontWeight: "500",
+    },
+    inputLabel: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginBottom: 6,
+    },
+    inputContainer: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.inputBackground,
+      borderRadius: 12,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      gap: 10,
+    },
+    textInput: {
+      flex: 1,
+      fontSize: 15,
+      color: colors.text,
+    },
+    errorText: {
+      fontSize: 13,
+      color: colors.error,
+    },
+    actions: {
+      flexDirection: "row",
+      gap: 10,
+      marginTop: 4,
+    },
+    cancelButton: {
+      flex: 1,
+      backgroundColor: colors.inputBackground,
+      borderRadius: 12,
+      paddingVertical: 14,
+      alignItems: "center",
+    },
+    cancelButtonText: {
+      color: colors.text,
+      fontWeight: "600",
+      fontSize: 16,
+    },
+    applyButton: {
+      flex: 1,
+      backgroundColor: colors.tint,
+      borderRadius: 12,
+      paddingVertical: 14,
+      alignItems: "center",
+    },
+    applyButtonText: {
+      color: "#FFFFFF",
+      fontWeight: "600",
+      fontSize: 16,
+    },
+  });
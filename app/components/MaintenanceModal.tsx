@@ -0,0 +1,595 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/context/ThemeContext";
+import { useUnits } from "@/hooks/useUnits";
+import api, {
+  MaintenanceCategory,
+  MaintenanceEntry,
+  Vehicle,
+} from "@/services/api";
+import RemindersSection from "@/components/RemindersSection";
+
+const CATEGORIES: { value: MaintenanceCategory; icon: string }[] = [
+  { value: "oil_change", icon: "tint" },
+  { value: "tyres", icon: "circle-o" },
+  { value: "inspection", icon: "check-square-o" },
+  { value: "insurance", icon: "shield" },
+  { value: "repair", icon: "wrench" },
+  { value: "other", icon: "ellipsis-h" },
+];
+
+const emptyForm = () => ({
+  category: "oil_change" as MaintenanceCategory,
+  cost: "",
+  mileage: "",
+  date: new Date().toISOString().split("T")[0],
+  notes: "",
+});
+
+interface MaintenanceModalProps {
+  vehicle: Vehicle | null;
+  onClose: (changed: boolean) => void;
+}
+
+export default function MaintenanceModal({
+  vehicle,
+  onClose,
+}: MaintenanceModalProps) {
+  const { colors } = useTheme();
+  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { t } = useTranslation();
+  const {
+    currencySymbol,
+    distanceUnit,
+    convertCurrency,
+    formatDistance,
+    toMetricDistance,
+    toBaseCurrency,
+  } = useUnits();
+
+  const [entries, setEntries] = useState<MaintenanceEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [changed, setChanged] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+
+  const loadEntries = useCallback(async () => {
+    if (!vehicle) return;
+    try {
+      setLoading(true);
+      setEntries(await api.getMaintenance(vehicle.id));
+    } catch (error) {
+      console.error("Failed to load maintenance:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [vehicle]);
+
+  useEffect(() => {
+    setEntries([]);
+    setChanged(false);
+    setShowForm(false);
+    setForm(emptyForm());
+    loadEntries();
+  }, [loadEntries]);
+
+  const maintenanceTotal = entries.reduce((sum, e) => sum + Number(e.cost), 0);
+  const fuelTotal = Number(vehicle?.fuelCost || 0);
+
+  const handleSave = async () => {
+    if (!vehicle) return;
+    if (!form.cost || !form.date) {
+      Alert.alert(
+        t("profile.alerts.error"),
+        t("profile.maintenance.requiredError"),
+      );
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const entry = await api.addMaintenance(vehicle.id, {
+        category: form.category,
+        cost: toBaseCurrency(parseFloat(form.cost)) || 0,
+        mileage: form.mileage
+          ? Math.round(toMetricDistance(parseInt(form.mileage)) || 0)
+          : null,
+        date: form.date,
+        notes: form.notes.trim() || null,
+        receiptImageUrl: null,
+      });
+      setEntries((prev) => [entry, ...prev]);
+      setChanged(true);
+      setShowForm(false);
+      setForm(emptyForm());
+    } catch (error) {
+      console.error("Failed to save maintenance:", error);
+      Alert.alert(
+        t("profile.alerts.error"),
+        t("profile.maintenance.saveError"),
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: MaintenanceEntry) => {
+    if (!vehicle) return;
+    try {
+      await api.deleteMaintenance(vehicle.id, entry.id);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      setChanged(true);
+    } catch (error) {
+      console.error("Failed to delete maintenance:", error);
+      Alert.alert(
+        t("profile.alerts.error"),
+        t("profile.maintenance.deleteError"),
+      );
+    }
+  };
+
+  const formatCost = (value: number) =>
+    `${Number(convertCurrency(value)).toFixed(0)} ${currencySymbol}`;
+
+  return (
+    <Modal
+      visible={!!vehicle}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={() => onClose(changed)}
+    >
+      <SafeAreaView style={styles.container}>
+        <KeyboardAvoidingView
+          style={{ flex: 1 }}
+          behavior={Platform.OS === "ios" ? "padding" : "height"}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => onClose(changed)}>
+              <Text style={styles.headerCancel}>
+                {t("profile.maintenance.close")}
+              </Text>
+            </TouchableOpacity>
+            <Text style={styles.headerTitle} numberOfLines={1}>
+              {vehicle?.name}
+            </Text>
+            <TouchableOpacity onPress={() => setShowForm((prev) => !prev)}>
+              <FontAwesome
+                name={showForm ? "minus" : "plus"}
+                size={18}
+                color={colors.tint}
+              />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.content}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Total cost of ownership */}
+            <View style={styles.summaryCard}>
+              <SummaryItem
+                label={t("profile.maintenance.fuel")}
+                value={formatCost(fuelTotal)}
+                styles={styles}
+              />
+              <SummaryItem
+                label={t("profile.maintenance.title")}
+                value={formatCost(maintenanceTotal)}
+                styles={styles}
+              />
+              <SummaryItem
+                label={t("profile.maintenance.totalCost")}
+                value={formatCost(fuelTotal + maintenanceTotal)}
+                highlighted
+                styles={styles}
+              />
+            </View>
+
+            {vehicle && <RemindersSection vehicle={vehicle} />}
+
+            <Text style={styles.sectionTitle}>
+              {t("profile.maintenance.history")}
+            </Text>
+
+            {/* Add form */}
+            {showForm && (
+              <View style={styles.formCard}>
+                <View style={styles.categoryGrid}>
+                  {CATEGORIES.map((category) => (
+                    <TouchableOpacity
+                      key={category.value}
+                      style={[
+                        styles.categoryOption,
+                        form.category === category.value &&
+                          styles.categoryOptionSelected,
+                      ]}
+                      onPress={() =>
+                        setForm((prev) => ({
+                          ...prev,
+                          category: category.value,
+                        }))
+                      }
+                    >
+                      <FontAwesome
+                        name={category.icon as any}
+                        size={14}
+                        color={
+                          form.category === category.value
+                            ? "#FFFFFF"
+                            : colors.textSecondary
+                        }
+                      />
+                      <Text
+                        style={[
+                          styles.categoryText,
+                          form.category === category.value &&
+                            styles.categoryTextSelected,
+                        ]}
+                      >
+                        {t(`profile.maintenance.categories.${category.value}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <View style={styles.inputContainer}>
+                  <FontAwesome
+                    name="credit-card"
+                    size={16}
+                    color={colors.textSecondary}
+                  />
+                  <TextInput
+                    style={styles.textInput}
+                    placeholder={t("profile.maintenance.cost")}
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType="decimal-pad"
+                    value={form.cost}
+                    onChangeText={(v) =>
+                      setForm((prev) => ({ ...prev, cost: v }))
+                    }
+                  />
+                  <Text style={styles.inputUnit}>{currencySymbol}</Text>
+                </View>
+
+                <View style={styles.inputRow}>
+                  <View style={[styles.inputContainer, { flex: 1 }]}>
+                    <FontAwesome
+                      name="calendar"
+                      size={16}
+                      color={colors.textSecondary}
+                    />
+                    <TextInput
+                      style={styles.textInput}
+                      placeholder="YYYY-MM-DD"
+                      placeholderTextColor={colors.textMuted}
+                      value={form.date}
+                      onChangeText={(v) =>
+                        setForm((prev) => ({ ...prev, date: v }))
+                      }
+                    />
+                  </View>
+                  <View style={[styles.inputContainer, { flex: 1 }]}>
+                    <FontAwesome
+                      name="tachometer"
+                      size={16}
+                      color={colors.textSecondary}
+                    />
+                    <TextInput
+                      style={styles.textInput}
+                      placeholder={t("profile.maintenance.mileage")}
+                      placeholderTextColor={colors.textMuted}
+                      keyboardType="numeric"
+                      value={form.mileage}
+                      onChangeText={(v) =>
+                        setForm((prev) => ({ ...prev, mileage: v }))
+                      }
+                    />
+                    <Text style={styles.inputUnit}>{distanceUnit}</Text>
+                  </View>
+                </View>
+
+                <View style={styles.inputContainer}>
+                  <FontAwesome
+                    name="sticky-note-o"
+                    size={16}
+                    color={colors.textSecondary}
+                  />
+                  <TextInput
+                    style={styles.textInput}
+                    placeholder={t("profile.maintenance.notes")}
+                    placeholderTextColor={colors.textMuted}
+                    value={form.notes}
+                    onChangeText={(v) =>
+                      setForm((prev) => ({ ...prev, notes: v }))
+                    }
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.saveButton, saving && { opacity: 0.6 }]}
+                  onPress={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>
+                      {t("profile.modal.save")}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {/* Entries */}
+            {loading ? (
+              <ActivityIndicator
+                size="small"
+                color={colors.tint}
+                style={{ marginTop: 20 }}
+              />
+            ) : entries.length > 0 ? (
+              entries.map((entry) => (
+                <View key={entry.id} style={styles.entryCard}>
+                  <View style={styles.entryIcon}>
+                    <FontAwesome
+                      name={
+                        (CATEGORIES.find((c) => c.value === entry.category)
+                          ?.icon || "wrench") as any
+                      }
+                      size={16}
+                      color={colors.tint}
+                    />
+                  </View>
+                  <View style={styles.entryInfo}>
+                    <Text style={styles.entryTitle}>
+                      {t(`profile.maintenance.categories.${entry.category}`)}
+                    </Text>
+                    <Text style={styles.entryMeta} numberOfLines={1}>
+                      {[
+                        new Date(entry.date).toLocaleDateString(),
+                        entry.mileage != null
+                          ? `${Number(formatDistance(entry.mileage)).toLocaleString()} ${distanceUnit}`
+                          : null,
+                        entry.notes,
+                      ]
+                        .filter(Boolean)
+                        .join(" • ")}
+                    </Text>
+                  </View>
+                  <Text style={styles.entryCost}>{formatCost(entry.cost)}</Text>
+                  <TouchableOpacity
+                    style={styles.entryAction}
+                    onPress={() => handleDelete(entry)}
+                  >
+                    <FontAwesome name="trash-o" size={16} color="#FF453A" />
+                  </TouchableOpacity>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>
+                {t("profile.maintenance.empty")}
+              </Text>
+            )}
+
+            <View style={{ height: 40 }} />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+function SummaryItem({
+  label,
+  value,
+  highlighted,
+  styles,
+}: {
+  label: string;
+  value: string;
+  highlighted?: boolean;
+  styles: any;
+}) {
+  return (
+    <View style={styles.summaryItem}>
+      <Text
+        style={[styles.summaryValue, highlighted && styles.summaryHighlighted]}
+      >
+        {value}
+      </Text>
+      <Text style={styles.summaryLabel}>{label}</Text>
+    </View>
+  );
+}
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: 20,
+      paddingVertical: 16,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      gap: 12,
+    },
+    headerCancel: {
+      fontSize: 16,
+      color: colors.textSecondary,
+    },
+    headerTitle: {
+      flex: 1,
+      textAlign: "center",
+      fontSize: 17,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+      padding: 20,
+    },
+    summaryCard: {
+      flexDirection: "row",
+      backgroundColor: colors.card,
+      borderRadius: 14,
+      padding: 16,
+      marginBottom: 16,
+    },
+    summaryItem: {
+      flex: 1,
+      alignItems: "center",
+    },
+    summaryValue: {
+      fontSize: 16,
+      fontWeight: "700",
+      color: colors.text,
+    },
+    summaryHighlighted: {
+      color: colors.tint,
+    },
+    summaryLabel: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    sectionTitle: {
+      fontSize: 17,
+      fontWeight: "600",
+      color: colors.text,
+      marginBottom: 10,
+    },
+    formCard: {
+      backgroundColor: colors.card,
+      borderRadius: 14,
+      padding: 16,
+      marginBottom: 16,
+      gap: 10,
+    },
+    categoryGrid: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    categoryOption: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.inputBackground,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderRadius: 10,
+      gap: 6,
+    },
+    categoryOptionSelected: {
+      backgroundColor: colors.tint,
+    },
+    categoryText: {
+      fontSize: 13,
+      color: colors.text,
+      fontWeight: "500",
+    },
+    categoryTextSelected: {
+      color: "#FFFFFF",
+    },
+    inputRow: {
+      flexDirection: "row",
+      gap: 10,
+    },
+    inputContainer: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.inputBackground,
+      borderRadius: 12,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      gap: 10,
+    },
+    textInput: {
+      flex: 1,
+      fontSize: 15,
+      color: colors.text,
+    },
+    inputUnit: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    saveButton: {
+      backgroundColor: colors.tint,
+      borderRadius: 12,
+      paddingVertical: 14,
+      alignItems: "center",
+    },
+    saveButtonText: {
+      color: "#FFFFFF",
+      fontWeight: "600",
+      fontSize: 16,
+    },
+    entryCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.card,
+      borderRadius: 14,
+      padding: 14,
+      marginBottom: 10,
+    },
+    entryIcon: {
+      width: 40,
+      height: 40,
+      borderRadius: 10,
+      backgroundColor: colors.primaryLight,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    entryInfo: {
+      flex: 1,
+      marginLeft: 12,
+    },
+    entryTitle: {
+      fontSize: 15,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    entryMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    entryCost: {
+      fontSize: 15,
+      fontWeight: "600",
+      color: colors.text,
+      marginLeft: 8,
+    },
+    entryAction: {
+      padding: 8,
+      marginLeft: 4,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textMuted,
+      textAlign: "center",
+      marginTop: 20,
+    },
+  });
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useTranslation } from "react-i18next";
+import SpendingChart from "@/components/SpendingChart";
+import { useTheme } from "@/context/ThemeContext";
+import { useUnits } from "@/hooks/useUnits";
+import { PriceTrends, StatsPeriod } from "@/services/api";
+
+interface PriceTrendChartProps {
+  trends: PriceTrends;
+  period: StatsPeriod;
+}
+
+// How many stations to list under the chart
+const STATION_COUNT = 3;
+
+// "14.03" for days and weeks, "03/24" for months, like the spending chart
+const formatPointLabel = (start: string, interval: PriceTrends["interval"]) => {
+  const [year, month, day] = start.split("-");
+  return interval === "month" ? `${month}/${year.slice(2)}` : `${day}.${month}`;
+};
+
+// Unit price over time: average per interval with its min/max band and
+// moving average, one fuel type at a time, plus the cheapest stations
+export default function PriceTrendChart({
+  trends,
+  period,
+}: PriceTrendChartProps) {
+  const { colors } = useTheme();
+  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { t } = useTranslation();
+  // Prices arrive already converted into the display currency
+  const { currencySymbol, unitFor, formatPricePerUnit } = useUnits({
+    convertAmounts: false,
+  });
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [trends]);
+
+  const series = trends.series[selected] ?? trends.series[0];
+
+  const chart = useMemo(() => {
+    if (!series) return null;
+    const price = (value: number) =>
+      formatPricePerUnit(value, series.unit) ?? 0;
+    return {
+      labels: series.points.map((p) =>
+        formatPointLabel(p.start, trends.interval),
+      ),
+      data: series.points.map((p) => price(p.avgPrice)),
+      average: series.points.map((p) => price(p.movingAverage)),
+      band: {
+        min: series.points.map((p) => price(p.minPrice)),
+        max: series.points.map((p) => price(p.maxPrice)),
+      },
+    };
+  }, [series, trends.interval, formatPricePerUnit]);
+
+  if (!series || !chart) {
+    return <Text style={styles.emptyText}>{t("home.chart.noPrices")}</Text>;
+  }
+
+  const unitLabel = `${currencySymbol}/${unitFor(series.unit)}`;
+
+  return (
+    <View>
+      {trends.series.length > 1 && (
+        <View style={styles.seriesPicker}>
+          {trends.series.map((item, i) => (
+            <TouchableOpacity
+              key={`${item.fuelType}-${item.unit}`}
+              style={[
+                styles.seriesChip,
+                i === selected && styles.seriesChipActive,
+              ]}
+              onPress={() => setSelected(i)}
+            >
+              <Text
+                style={[
+                  styles.seriesChipText,
+                  i === selected && styles.seriesChipTextActive,
+                ]}
+              >
+                {t(`home.chart.fuelTypes.${item.fuelType}`)} ·{" "}
+                {unitFor(item.unit)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <SpendingChart
+        labels={chart.labels}
+        data={chart.data}
+        period={period}
+        currency={unitLabel}
+        decimals={2}
+        fromZero={false}
+        average={chart.average.length > 1 ? chart.average : undefined}
+        band={chart.band}
+      />
+
+      <Text style={styles.legend}>
+        {t("home.chart.priceLegend", { count: trends.window })}
+      </Text>
+
+      {series.stations.length > 0 && (
+        <View style={styles.stations}>
+          <Text style={styles.stationsTitle}>
+            {t("home.chart.stationAverages")}
+          </Text>
+          {series.stations.slice(0, STATION_COUNT).map((station) => (
+            <View key={station.name} style={styles.stationRow}>
+              <Text style={styles.stationName} numberOfLines={1}>
+                {station.name}
+              </Text>
+              <Text style={styles.stationPrice}>
+                {formatPricePerUnit(station.avgPrice, series.unit)?.toFixed(2)}{" "}
+                {unitLabel}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    emptyText: {
+      color: colors.textSecondary,
+      fontSize: 14,
+      textAlign: "center",
+      paddingVertical: 40,
+    },
+    seriesPicker: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+      paddingHorizontal: 16,
+      marginBottom: 8,
+    },
+    seriesChip: {
+      backgroundColor: colors.background,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 14,
+    },
+    seriesChipActive: {
+      backgroundColor: colors.tint,
+    },
+    seriesChipText: {
+      color: colors.textSecondary,
+      fontSize: 12,
+      fontWeight: "600",
+    },
+    seriesChipTextActive: {
+      color: "#FFFFFF",
+    },
+    legend: {
+      color: colors.textMuted,
+      fontSize: 11,
+      paddingHorizontal: 16,
+      marginTop: 4,
+    },
+    stations: {
+      paddingHorizontal: 16,
+      marginTop: 12,
+      gap: 6,
+    },
+    stationsTitle: {
+      color: colors.text,
+      fontSize: 14,
+      fontWeight: "600",
+    },
+    stationRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      gap: 12,
+    },
+    stationName: {
+      flex: 1,
+      color: colors.textSecondary,
+      fontSize: 13,
+    },
+    stationPrice: {
+      color: colors.text,
+      fontSize: 13,
+      fontWeight: "600",
+    },
+  });
@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/context/ThemeContext";
+import { currencySymbolFor } from "@/hooks/useUnits";
+import api, {
+  ReceiptField,
+  ReceiptListItem,
+  ReceiptRescanResult,
+} from "@/services/api";
+import ZoomableImage from "./ZoomableImage";
+
+interface ReceiptViewerProps {
+  receipt: ReceiptListItem | null;
+  onClose: () => void;
+}
+
+const formatValue = (field: ReceiptField, value: string | number | null) => {
+  if (value == null || value === "") return "–";
+  if (typeof value !== "number") return value;
+  return value.toFixed(field === "totalCost" ? 2 : 3);
+};
+
+// A receipt photo full screen, zoomable, with the entry it belongs to.
+// Re-scanning reads the photo again and lists where the result differs from
+// the saved entry.
+export default function ReceiptViewer({
+  receipt,
+  onClose,
+}: ReceiptViewerProps) {
+  const { colors } = useTheme();
+  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { t, i18n } = useTranslation();
+
+  const [rescan, setRescan] = useState<ReceiptRescanResult | null>(null);
+  const [scanning, setScanning] = useState(false);
+
+  useEffect(() => {
+    setRescan(null);
+  }, [receipt]);
+
+  if (!receipt) return null;
+
+  const handleRescan = async () => {
+    try {
+      setScanning(true);
+      setRescan(await api.rescanReceipt(receipt.entryId));
+    } catch (error) {
+      console.error("Failed to rescan receipt:", error);
+      Alert.alert(t("profile.alerts.error"), t("receipts.rescanError"));
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  return (
+    <Modal visible animationType="fade" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} hitSlop={12}>
+            <FontAwesome name="close" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {receipt.stationName || t("receipts.unknownStation")}
+          </Text>
+          <View style={{ width: 22 }} />
+        </View>
+
+        <View style={styles.imageContainer}>
+          <ZoomableImage
+            source={api.receiptImageSource(receipt.imageUrl)}
+            style={styles.image}
+          />
+        </View>
+
+        <View style={styles.sheet}>
+          <Text style={styles.details}>
+            {[
+              new Date(receipt.date).toLocaleDateString(i18n.language),
+              receipt.vehicleName,
+              `${receipt.totalCost.toFixed(2)} ${currencySymbolFor(receipt.currency)}`,
+            ]
+              .filter(Boolean)
+              .join(" • ")}
+          </Text>
+
+          {rescan && (
+            <ScrollView style={styles.result}>
+              {rescan.differences.length === 0 ? (
+                <View style={styles.matchRow}>
+                  <FontAwesome
+                    name="check-circle"
+                    size={16}
+                    color={colors.success}
+                  />
+                  <Text style={styles.matchText}>{t("receipts.matches")}</Text>
+                </View>
+              ) : (
+                <>
+                  <View style={styles.diffRow}>
+                    <Text style={[styles.diffLabel, styles.diffHeading]}>
+                      {t("receipts.differences")}
+                    </Text>
+                    <Text style={[styles.diffValue, styles.diffHeading]}>
+                      {t("receipts.saved")}
+                    </Text>
+                    <Text style={[styles.diffValue, styles.diffHeading]}>
+                      {t("receipts.scanned")}
+                    </Text>
+                  </View>
+                  {rescan.differences.map((difference) => (
+                    <View key={difference.field} style={styles.diffRow}>
+                      <Text style={styles.diffLabel}>
+                        {t(`receipts.fields.${difference.field}`)}
+                      </Text>
+                      <Text style={styles.diffValue}>
+                        {formatValue(difference.field, difference.saved)}
+                      </Text>
+                      <Text style={[styles.diffValue, styles.diffScanned]}>
+                        {formatValue(difference.field, difference.scanned)}
+                      </Text>
+                    </View>
+                  ))}
+                </>
+              )}
+              {rescan.warnings.map((warning, index) => (
+                <Text key={index} style={styles.warningText}>
+                  {warning.message}
+                </Text>
+              ))}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity
+            style={[styles.rescanButton, scanning && { opacity: 0.6 }]}
+            onPress={handleRescan}
+            disabled={scanning}
+          >
+            {scanning ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <>
+                <FontAwesome name="refresh" size={16} color="#FFFFFF" />
+                <Text style={styles.rescanButtonText}>
+                  {t("receipts.rescan")}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: "#000000",
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingHorizontal: 20,
+      paddingVertical: 12,
+      gap: 12,
+    },
+    headerTitle: {
+      flex: 1,
+      textAlign: "center",
+      fontSize: 17,
+      fontWeight: "600",
+      color: "#FFFFFF",
+    },
+    imageContainer: {
+      flex: 1,
+      overflow: "hidden",
+    },
+    image: {
+      width: "100%",
+      height: "100%",
+    },
+    sheet: {
+      backgroundColor: colors.card,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      padding: 20,
+      gap: 12,
+    },
+    details: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: "center",
+    },
+    result: {
+      maxHeight: 220,
+    },
+    matchRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 8,
+    },
+    matchText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    diffRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingVertical: 6,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    diffHeading: {
+      fontSize: 12,
+      fontWeight: "600",
+      color: colors.textSecondary,
+      textTransform: "uppercase",
+    },
+    diffLabel: {
+      flex: 1.2,
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    diffValue: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.text,
+      textAlign: "right",
+    },
+    diffScanned: {
+      color: colors.tint,
+      fontWeight: "600",
+    },
+    warningText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: 8,
+    },
+    rescanButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 8,
+      backgroundColor: colors.tint,
+      borderRadius: 12,
+      paddingVertical: 14,
+    },
+    rescanButtonText: {
+      color: "#FFFFFF",
+      fontWeight: "600",
+      fontSize: 16,
+    },
+  });
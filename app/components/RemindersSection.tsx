@@ -0,0 +1,380 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { TFunction } from "i18next";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/context/ThemeContext";
+import { useUnits } from "@/hooks/useUnits";
+import api, {
+  MaintenanceReminder,
+  ReminderStatus,
+  Vehicle,
+} from "@/services/api";
+
+export const REMINDER_STATUS_COLORS: Record<ReminderStatus, string> = {
+  ok: "#34C759",
+  due: "#FF9500",
+  overdue: "#FF3B30",
+};
+
+// "in 12 d • in 800 km" / "overdue by 3 d"
+export function describeReminderDue(
+  reminder: MaintenanceReminder,
+  t: TFunction,
+  formatDistanceLabel: (km: number) => string,
+) {
+  const parts: string[] = [];
+  if (reminder.daysLeft != null) {
+    parts.push(
+      reminder.daysLeft < 0
+        ? t("profile.reminders.overdueDays", { days: -reminder.daysLeft })
+        : t("profile.reminders.inDays", { days: reminder.daysLeft }),
+    );
+  }
+  if (reminder.kmLeft != null) {
+    parts.push(
+      reminder.kmLeft <= 0
+        ? t("profile.reminders.overdueDistance", {
+            distance: formatDistanceLabel(-reminder.kmLeft),
+          })
+        : t("profile.reminders.inDistance", {
+            distance: formatDistanceLabel(reminder.kmLeft),
+          }),
+    );
+  }
+  return parts.join(" • ") || t("profile.reminders.noDeadline");
+}
+
+const emptyForm = () => ({
+  title: "",
+  intervalKm: "",
+  intervalMonths: "",
+  dueDate: "",
+});
+
+interface RemindersSectionProps {
+  vehicle: Vehicle;
+}
+
+export default function RemindersSection({ vehicle }: RemindersSectionProps) {
+  const { colors } = useTheme();
+  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { t } = useTranslation();
+  const { distanceUnit, formatDistance, toMetricDistance } = useUnits();
+
+  const [reminders, setReminders] = useState<MaintenanceReminder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+
+  const formatDistanceLabel = (km: number) =>
+    `${Math.round(formatDistance(km) || 0).toLocaleString()} ${distanceUnit}`;
+
+  const loadReminders = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getReminders(vehicle.id);
+      setReminders(data.reminders);
+    } catch (error) {
+      console.error("Failed to load reminders:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [vehicle.id]);
+
+  useEffect(() => {
+    loadReminders();
+  }, [loadReminders]);
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      Alert.alert(t("profile.alerts.error"), t("profile.reminders.titleError"));
+      return;
+    }
+    if (!form.intervalKm && !form.intervalMonths && !form.dueDate) {
+      Alert.alert(
+        t("profile.alerts.error"),
+        t("profile.reminders.scheduleError"),
+      );
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const reminder = await api.addReminder(vehicle.id, {
+        title: form.title.trim(),
+        intervalKm: form.intervalKm
+          ? Math.round(toMetricDistance(parseInt(form.intervalKm)) || 0)
+          : null,
+        intervalMonths: form.intervalMonths
+          ? parseInt(form.intervalMonths)
+          : null,
+        dueDate: form.dueDate || null,
+        notes: null,
+      });
+      setReminders((prev) => [...prev, reminder]);
+      setShowForm(false);
+      setForm(emptyForm());
+    } catch (error) {
+      console.error("Failed to save reminder:", error);
+      Alert.alert(t("profile.alerts.error"), t("profile.reminders.saveError"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComplete = async (reminder: MaintenanceReminder) => {
+    try {
+      const updated = await api.completeReminder(vehicle.id, reminder.id);
+      setReminders((prev) =>
+        prev.map((r) => (r.id === updated.id ? updated : r)),
+      );
+    } catch (error) {
+      console.error("Failed to complete reminder:", error);
+      Alert.alert(t("profile.alerts.error"), t("profile.reminders.saveError"));
+    }
+  };
+
+  const handleDelete = async (reminder: MaintenanceReminder) => {
+    try {
+      await api.deleteReminder(vehicle.id, reminder.id);
+      setReminders((prev) => prev.filter((r) => r.id !== reminder.id));
+    } catch (error) {
+      console.error("Failed to delete reminder:", error);
+      Alert.alert(
+        t("profile.alerts.error"),
+        t("profile.reminders.deleteError"),
+      );
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>{t("profile.reminders.title")}</Text>
+        <TouchableOpacity onPress={() => setShowForm((prev) => !prev)}>
+          <FontAwesome
+            name={showForm ? "minus" : "plus"}
+            size={16}
+            color={colors.tint}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {showForm && (
+        <View style={styles.formCard}>
+          <TextInput
+            style={styles.textInput}
+            placeholder={t("profile.reminders.titlePlaceholder")}
+            placeholderTextColor={colors.textMuted}
+            value={form.title}
+            onChangeText={(v) => setForm((prev) => ({ ...prev, title: v }))}
+          />
+          <View style={styles.inputRow}>
+            <View style={[styles.inputContainer, { flex: 1 }]}>
+              <TextInput
+                style={styles.inputField}
+                placeholder={t("profile.reminders.every")}
+                placeholderTextColor={colors.textMuted}
+                keyboardType="numeric"
+                value={form.intervalKm}
+                onChangeText={(v) =>
+                  setForm((prev) => ({ ...prev, intervalKm: v }))
+                }
+              />
+              <Text style={styles.inputUnit}>{distanceUnit}</Text>
+            </View>
+            <View style={[styles.inputContainer, { flex: 1 }]}>
+              <TextInput
+                style={styles.inputField}
+                placeholder={t("profile.reminders.every")}
+                placeholderTextColor={colors.textMuted}
+                keyboardType="numeric"
+                value={form.intervalMonths}
+                onChangeText={(v) =>
+                  setForm((prev) => ({ ...prev, intervalMonths: v }))
+                }
+              />
+              <Text style={styles.inputUnit}>
+                {t("profile.reminders.months")}
+              </Text>
+            </View>
+          </View>
+          <View style={styles.inputContainer}>
+            <FontAwesome
+              name="calendar"
+              size={14}
+              color={colors.textSecondary}
+            />
+            <TextInput
+              style={styles.inputField}
+              placeholder={t("profile.reminders.dueDatePlaceholder")}
+              placeholderTextColor={colors.textMuted}
+              value={form.dueDate}
+              onChangeText={(v) => setForm((prev) => ({ ...prev, dueDate: v }))}
+            />
+          </View>
+          <TouchableOpacity
+            style={[styles.saveButton, saving && { opacity: 0.6 }]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>
+                {t("profile.modal.save")}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {loading ? (
+        <ActivityIndicator size="small" color={colors.tint} />
+      ) : reminders.length > 0 ? (
+        reminders.map((reminder) => (
+          <View key={reminder.id} style={styles.reminderCard}>
+            <View
+              style={[
+                styles.statusDot,
+                { backgroundColor: REMINDER_STATUS_COLORS[reminder.status] },
+              ]}
+            />
+            <View style={styles.reminderInfo}>
+              <Text style={styles.reminderTitle}>{reminder.title}</Text>
+              <Text style={styles.reminderMeta} numberOfLines={1}>
+                {describeReminderDue(reminder, t, formatDistanceLabel)}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={styles.reminderAction}
+              onPress={() => handleComplete(reminder)}
+            >
+              <FontAwesome name="check" size={16} color="#34C759" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.reminderAction}
+              onPress={() => handleDelete(reminder)}
+            >
+              <FontAwesome name="trash-o" size={16} color="#FF453A" />
+            </TouchableOpacity>
+          </View>
+        ))
+      ) : (
+        <Text style={styles.emptyText}>{t("profile.reminders.empty")}</Text>
+      )}
+    </View>
+  );
+}
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    section: {
+      marginBottom: 20,
+    },
+    sectionHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: 10,
+    },
+    sectionTitle: {
+      fontSize: 17,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    formCard: {
+      backgroundColor: colors.card,
+      borderRadius: 14,
+      padding: 16,
+      marginBottom: 10,
+      gap: 10,
+    },
+    textInput: {
+      backgroundColor: colors.inputBackground,
+      borderRadius: 12,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: colors.text,
+    },
+    inputRow: {
+      flexDirection: "row",
+      gap: 10,
+    },
+    inputContainer: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.inputBackground,
+      borderRadius: 12,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      gap: 10,
+    },
+    inputField: {
+      flex: 1,
+      fontSize: 15,
+      color: colors.text,
+    },
+    inputUnit: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    saveButton: {
+      backgroundColor: colors.tint,
+      borderRadius: 12,
+      paddingVertical: 14,
+      alignItems: "center",
+    },
+    saveButtonText: {
+      color: "#FFFFFF",
+      fontWeight: "600",
+      fontSize: 16,
+    },
+    reminderCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.card,
+      borderRadius: 14,
+      padding: 14,
+      marginBottom: 10,
+    },
+    statusDot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+    },
+    reminderInfo: {
+      flex: 1,
+      marginLeft: 12,
+    },
+    reminderTitle: {
+      fontSize: 15,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    reminderMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    reminderAction: {
+      padding: 8,
+      marginLeft: 4,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textMuted,
+      textAlign: "center",
+    },
+  });
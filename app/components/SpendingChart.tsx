@@ -16,12 +16,19 @@ import Svg, {
   G,
 } from "react-native-svg";
 import { useTheme } from "@/context/ThemeContext";
+import { StatsPeriod } from "@/services/api";
 
 interface SpendingChartProps {
   labels: string[];
   data: number[];
-  period: "week" | "month" | "year" | "all";
+  period: StatsPeriod;
   currency?: string;
+  // For unit prices: decimals shown, a y-axis fitted to the data instead of
+  // starting at zero, a dashed average line and a shaded min/max band
+  decimals?: number;
+  fromZero?: boolean;
+  average?: number[];
+  band?: { min: number[]; max: number[] };
 }
 
 // Build smooth bezier curve path
@@ -49,7 +56,8 @@ const buildPath = (
   return d;
 };
 
-const formatValue = (value: number): string => {
+const formatValue = (value: number, decimals = 0): string => {
+  if (decimals > 0) return value.toFixed(decimals);
   if (value >= 10000) return `${(value / 1000).toFixed(0)}k`;
   if (value >= 1000) return `${(value / 1000).toFixed(1)}k`;
   return Math.round(value).toString();
@@ -60,6 +68,10 @@ export default function SpendingChart({
   data,
   period,
   currency = "Kč",
+  decimals = 0,
+  fromZero = true,
+  average,
+  band,
 }: SpendingChartProps) {
   const { colors, isDark } = useTheme();
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
@@ -82,16 +94,34 @@ export default function SpendingChart({
   const SVG_HEIGHT = CHART_BOTTOM + 28; // chart + x-labels
   const DRAW_WIDTH = SVG_WIDTH - PADDING_LEFT - PADDING_RIGHT;
 
-  const maxVal = useMemo(() => Math.max(...data, 1), [data]);
-  const minVal = useMemo(() => Math.min(...data, 0), [data]);
+  const allValues = useMemo(
+    () => [
+      ...data,
+      ...(average ?? []),
+      ...(band?.min ?? []),
+      ...(band?.max ?? []),
+    ],
+    [data, average, band],
+  );
+  const maxVal = useMemo(
+    () => (fromZero ? Math.max(...allValues, 1) : Math.max(...allValues)),
+    [allValues, fromZero],
+  );
+  const minVal = useMemo(
+    () => (fromZero ? Math.min(...allValues, 0) : Math.min(...allValues)),
+    [allValues, fromZero],
+  );
   const range = maxVal - minVal || 1;
 
-  const points = useMemo(() => {
-    return data.map((val, i) => ({
-      x: PADDING_LEFT + (i / Math.max(data.length - 1, 1)) * DRAW_WIDTH,
-      y: PADDING_TOP + (1 - (val - minVal) / range) * CHART_DRAW_HEIGHT,
-    }));
-  }, [data, DRAW_WIDTH, minVal, range]);
+  const toPoints = useCallback(
+    (values: number[]) =>
+      values.map((val, i) => ({
+        x: PADDING_LEFT + (i / Math.max(values.length - 1, 1)) * DRAW_WIDTH,
+        y: PADDING_TOP + (1 - (val - minVal) / range) * CHART_DRAW_HEIGHT,
+      })),
+    [DRAW_WIDTH, minVal, range],
+  );
+  const points = useMemo(() => toPoints(data), [toPoints, data]);
 
   // Grid lines (3 horizontal — top, middle, bottom)
   const gridLines = useMemo(() => {
@@ -162,6 +192,20 @@ export default function SpendingChart({
 
   const linePath = buildPath(points, false, CHART_BOTTOM);
   const areaPath = buildPath(points, true, CHART_BOTTOM);
+  const averagePath = average
+    ? buildPath(toPoints(average), false, CHART_BOTTOM)
+    : "";
+  // Upper edge left to right, then the lower edge back
+  const bandPath = band
+    ? (() => {
+        const upper = toPoints(band.max);
+        const lower = toPoints(band.min).reverse();
+        return [...upper, ...lower]
+          .map((p, i) => `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`)
+          .join(" ")
+          .concat(" Z");
+      })()
+    : "";
 
   const accentColor = "#FF9500";
   const gridColor = isDark ? "rgba(255,255,255,0.07)" : "rgba(0,0,0,0.07)";
@@ -210,7 +254,7 @@ export default function SpendingChart({
               },
             ]}
           >
-            {formatValue(line.value)} {currency}
+            {formatValue(line.value, decimals)} {currency}
           </Text>
         ))}
       </View>
@@ -237,8 +281,22 @@ export default function SpendingChart({
           />
         ))}
 
-        {/* Area fill */}
-        <Path d={areaPath} fill="url(#areaGrad)" />
+        {/* Area fill, or the min/max band when there is one */}
+        {band ? (
+          <Path d={bandPath} fill={accentColor} fillOpacity={0.12} />
+        ) : (
+          <Path d={areaPath} fill="url(#areaGrad)" />
+        )}
+
+        {averagePath !== "" && (
+          <Path
+            d={averagePath}
+            fill="none"
+            stroke={xLabelColor}
+            strokeWidth="1.5"
+            strokeDasharray="5,4"
+          />
+        )}
 
         {/* Line */}
         <Path
@@ -326,7 +384,10 @@ export default function SpendingChart({
           ]}
         >
           <Text style={[styles.tooltipValue, { color: accentColor }]}>
-            {data[safeActive].toLocaleString()} {currency}
+            {decimals > 0
+              ? data[safeActive].toFixed(decimals)
+              : data[safeActive].toLocaleString()}{" "}
+            {currency}
           </Text>
           <Text
             style={[
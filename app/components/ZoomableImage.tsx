@@ -0,0 +1,118 @@
+import React, { useMemo, useRef } from "react";
+import {
+  Animated,
+  GestureResponderEvent,
+  ImageSourcePropType,
+  ImageStyle,
+  PanResponder,
+  StyleProp,
+} from "react-native";
+
+interface ZoomableImageProps {
+  source: ImageSourcePropType;
+  style?: StyleProp<ImageStyle>;
+}
+
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_DELAY = 300;
+
+const pinchDistance = (event: GestureResponderEvent) => {
+  const [a, b] = event.nativeEvent.touches;
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+};
+
+// An image that can be pinched to zoom, dragged while zoomed and
+// double-tapped to zoom in or back out. Built on the responder system, so it
+// works the same on iOS, Android and web.
+export default function ZoomableImage({ source, style }: ZoomableImageProps) {
+  const scale = useRef(new Animated.Value(1)).current;
+  const offset = useRef(new Animated.ValueXY()).current;
+  // Where the last gesture left the image, plus the pinch in progress
+  const gesture = useRef({
+    scale: 1,
+    x: 0,
+    y: 0,
+    pinchStart: 0,
+    scaleAtPinchStart: 1,
+    lastTap: 0,
+  }).current;
+
+  const panResponder = useMemo(() => {
+    const zoomTo = (value: number) => {
+      gesture.scale = value;
+      gesture.x = 0;
+      gesture.y = 0;
+      Animated.parallel([
+        Animated.spring(scale, { toValue: value, useNativeDriver: false }),
+        Animated.spring(offset, {
+          toValue: { x: 0, y: 0 },
+          useNativeDriver: false,
+        }),
+      ]).start();
+    };
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        const now = Date.now();
+        if (now - gesture.lastTap < DOUBLE_TAP_DELAY) {
+          zoomTo(gesture.scale > 1 ? 1 : DOUBLE_TAP_SCALE);
+          gesture.lastTap = 0;
+        } else {
+          gesture.lastTap = now;
+        }
+        gesture.pinchStart = 0;
+      },
+      onPanResponderMove: (event, { dx, dy }) => {
+        if (event.nativeEvent.touches.length >= 2) {
+          const distance = pinchDistance(event);
+          if (!gesture.pinchStart) {
+            gesture.pinchStart = distance;
+            gesture.scaleAtPinchStart = gesture.scale;
+            return;
+          }
+          gesture.scale = Math.min(
+            MAX_SCALE,
+            Math.max(
+              1,
+              (gesture.scaleAtPinchStart * distance) / gesture.pinchStart,
+            ),
+          );
+          scale.setValue(gesture.scale);
+        } else if (gesture.scale > 1 && !gesture.pinchStart) {
+          // A finger lifted mid-pinch does not start a drag
+          offset.setValue({ x: gesture.x + dx, y: gesture.y + dy });
+        }
+      },
+      onPanResponderRelease: (_, { dx, dy }) => {
+        if (gesture.scale <= 1) {
+          zoomTo(1);
+        } else if (!gesture.pinchStart) {
+          gesture.x += dx;
+          gesture.y += dy;
+        }
+        gesture.pinchStart = 0;
+      },
+    });
+  }, [gesture, scale, offset]);
+
+  return (
+    <Animated.Image
+      {...panResponder.panHandlers}
+      source={source}
+      resizeMode="contain"
+      style={[
+        style,
+        {
+          transform: [
+            { translateX: offset.x },
+            { translateY: offset.y },
+            { scale },
+          ],
+        },
+      ]}
+    />
+  );
+}
@@ -6,13 +6,15 @@ import React, {
   useCallback,
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
 import * as Device from "expo-device";
 import { Platform } from "react-native";
 import * as WebBrowser from "expo-web-browser";
 import * as Google from "expo-auth-session/providers/google";
 import { makeRedirectUri } from "expo-auth-session";
 import Constants, { ExecutionEnvironment } from "expo-constants";
-import api, { User } from "../services/api";
+import api, { ApiError, User } from "../services/api";
+import { clearQueryCache, setQueryCacheUser } from "../services/queryCache";
 
 // Complete auth session for web
 WebBrowser.maybeCompleteAuthSession();
@@ -48,6 +50,7 @@ const STORAGE_KEYS = {
   ACCESS_TOKEN: "@tankuy_access_token",
   REFRESH_TOKEN: "@tankuy_refresh_token",
   DEVICE_ID: "@tankuy_device_id",
+  GUEST_SECRET: "@tankuy_guest_secret",
   USER: "@tankuy_user",
 };
 
@@ -117,17 +120,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       const deviceName = getDeviceName();
 
       // For web, we'll use a different auth endpoint that accepts Google access token
+      // (a guest session is upgraded instead, keeping its data)
       const {
         user: authUser,
         accessToken: serverToken,
         refreshToken,
-      } = await api.signInWithGoogleWeb(
-        accessToken,
-        googleUser,
-        "web",
-        deviceId,
-        deviceName,
-      );
+      } = user?.isGuest
+        ? await api.upgradeGuest({
+            googleAccessToken: accessToken,
+            deviceId,
+            deviceName,
+          })
+        : await api.signInWithGoogleWeb(
+            accessToken,
+            googleUser,
+            "web",
+            deviceId,
+            deviceName,
+          );
 
       // Store tokens and user data
       api.setAccessToken(serverToken);
@@ -146,12 +156,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
-  // Generate or get device ID
+  // Generate or get device ID. It only identifies the device; the server
+  // wants the guest secret or a refresh token before handing out anything.
   const getDeviceId = useCallback(async (): Promise<string> => {
     let deviceId = await AsyncStorage.getItem(STORAGE_KEYS.DEVICE_ID);
 
     if (!deviceId) {
-      deviceId = `${Device.modelName || "device"}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      deviceId = Crypto.randomUUID();
       await AsyncStorage.setItem(STORAGE_KEYS.DEVICE_ID, deviceId);
     }
 
@@ -169,9 +180,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   // Try to restore session on app load
   const restoreSession = useCallback(async () => {
     try {
-      const [accessToken, refreshToken, storedUser] = await Promise.all([
+      const [accessToken, storedUser] = await Promise.all([
         AsyncStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN),
-        AsyncStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN),
         AsyncStorage.getItem(STORAGE_KEYS.USER),
       ]);
 
@@ -179,7 +189,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         api.setAccessToken(accessToken);
         setUser(JSON.parse(storedUser));
 
-        // Verify token is still valid by making a request
+        // Verify token is still valid by making a request. An expired
+        // token is refreshed by the api client, which signs out through
+        // onSessionExpired if that fails; other errors (offline) keep the
+        // stored user.
         try {
           const freshUser = await api.getMe();
           setUser(freshUser);
@@ -188,30 +201,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
             JSON.stringify(freshUser),
           );
         } catch (err) {
-          // Token expired, try to refresh
-          if (refreshToken) {
-            const deviceId = await getDeviceId();
-            try {
-              const { accessToken: newToken } = await api.refreshToken(
-                refreshToken,
-                deviceId,
-              );
-              api.setAccessToken(newToken);
-              await AsyncStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, newToken);
-
-              const freshUser = await api.getMe();
-              setUser(freshUser);
-              await AsyncStorage.setItem(
-                STORAGE_KEYS.USER,
-                JSON.stringify(freshUser),
-              );
-            } catch {
-              // Refresh failed, clear session
-              await clearSession();
-            }
-          } else {
-            await clearSession();
-          }
+          console.log("Could not verify session:", err);
         }
       }
     } catch (err) {
@@ -220,7 +210,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     } finally {
       setIsLoading(false);
     }
-  }, [getDeviceId]);
+  }, []);
 
   const clearSession = async () => {
     api.setAccessToken(null);
@@ -230,8 +220,37 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       STORAGE_KEYS.REFRESH_TOKEN,
       STORAGE_KEYS.USER,
     ]);
+    await clearQueryCache();
   };
 
+  // Cached responses are kept per account
+  useEffect(() => {
+    setQueryCacheUser(user?.id ?? null);
+  }, [user?.id]);
+
+  // Let the api client renew expired sessions with the stored refresh token
+  useEffect(() => {
+    api.setSessionHandlers({
+      getRefreshCredentials: async () => {
+        const refreshToken = await AsyncStorage.getItem(
+          STORAGE_KEYS.REFRESH_TOKEN,
+        );
+        return refreshToken
+          ? { refreshToken, deviceId: await getDeviceId() }
+          : null;
+      },
+      onTokensRefreshed: ({ accessToken, refreshToken }) =>
+        AsyncStorage.multiSet([
+          [STORAGE_KEYS.ACCESS_TOKEN, accessToken],
+          [STORAGE_KEYS.REFRESH_TOKEN, refreshToken],
+        ]),
+      onSessionExpired: () => {
+        clearSession();
+      },
+    });
+    return () => api.setSessionHandlers(null);
+  }, [getDeviceId]);
+
   useEffect(() => {
     restoreSession();
   }, [restoreSession]);
@@ -247,7 +266,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         const deviceName = getDeviceName();
         const API_URL =
           process.env.EXPO_PUBLIC_API_URL || "http://localhost:3000";
-        const authUrl = `${API_URL}/api/auth/google/start?deviceId=${encodeURIComponent(deviceId)}&deviceName=${encodeURIComponent(deviceName)}`;
+        let authUrl = `${API_URL}/api/auth/google/start?deviceId=${encodeURIComponent(deviceId)}&deviceName=${encodeURIComponent(deviceName)}`;
+
+        // Signing in from a guest session upgrades that guest account. The
+        // browser only gets a single-use nonce for it, never a session token.
+        if (user?.isGuest) {
+          try {
+            const { nonce } = await api.createGuestUpgradeNonce();
+            authUrl += `&upgradeNonce=${encodeURIComponent(nonce)}`;
+          } catch (err) {
+            setIsLoading(false);
+            throw err;
+          }
+        }
 
         const result = await WebBrowser.openAuthSessionAsync(
           authUrl,
@@ -300,12 +331,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       const deviceName = getDeviceName();
       const platform = Platform.OS;
 
-      // Authenticate with our backend
+      // Authenticate with our backend, upgrading a guest session in place
       const {
         user: authUser,
         accessToken,
         refreshToken,
-      } = await api.signInWithGoogle(idToken, platform, deviceId, deviceName);
+      } = user?.isGuest
+        ? await api.upgradeGuest({ idToken, platform, deviceId, deviceName })
+        : await api.signInWithGoogle(idToken, platform, deviceId, deviceName);
 
       // Store tokens and user data
       api.setAccessToken(accessToken);
@@ -333,29 +366,58 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         setIsLoading(false);
       }
     }
-  }, [getDeviceId, getDeviceName, promptAsync]);
+  }, [user, getDeviceId, getDeviceName, promptAsync]);
 
   const signInAsGuest = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
 
-      const deviceId = await getDeviceId();
       const deviceName = getDeviceName();
+      const storedSecret = await AsyncStorage.getItem(
+        STORAGE_KEYS.GUEST_SECRET,
+      );
+
+      let session;
+      try {
+        session = await api.signInAsGuest(
+          await getDeviceId(),
+          deviceName,
+          storedSecret,
+        );
+      } catch (err) {
+        // The guest account behind this device ID can't be entered without
+        // its secret (an account from before secrets existed, or a lost
+        // secret), so start a new one under a new device ID
+        if (!(err instanceof ApiError && err.status === 409)) {
+          throw err;
+        }
+        await AsyncStorage.multiRemove([
+          STORAGE_KEYS.DEVICE_ID,
+          STORAGE_KEYS.GUEST_SECRET,
+        ]);
+        session = await api.signInAsGuest(await getDeviceId(), deviceName);
+      }
 
       const {
         user: authUser,
         accessToken,
         refreshToken,
-      } = await api.signInAsGuest(deviceId, deviceName);
+        guestSecret,
+      } = session;
 
       api.setAccessToken(accessToken);
       setUser(authUser);
 
+      // The secret outlives signing out, so the guest account can be found
+      // again later
       await AsyncStorage.multiSet([
         [STORAGE_KEYS.ACCESS_TOKEN, accessToken],
         [STORAGE_KEYS.REFRESH_TOKEN, refreshToken],
         [STORAGE_KEYS.USER, JSON.stringify(authUser)],
+        ...(guestSecret
+          ? [[STORAGE_KEYS.GUEST_SECRET, guestSecret] as [string, string]]
+          : []),
       ]);
     } catch (err: any) {
       console.error("Guest sign-in error:", err);
@@ -395,28 +457,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   }, [getDeviceId]);
 
-  const refreshAuth = useCallback(async (): Promise<boolean> => {
-    try {
-      const refreshToken = await AsyncStorage.getItem(
-        STORAGE_KEYS.REFRESH_TOKEN,
-      );
-
-      if (!refreshToken) {
-        return false;
-      }
-
-      const deviceId = await getDeviceId();
-      const { accessToken } = await api.refreshToken(refreshToken, deviceId);
-
-      api.setAccessToken(accessToken);
-      await AsyncStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, accessToken);
-
-      return true;
-    } catch (err) {
-      console.error("Token refresh failed:", err);
-      return false;
-    }
-  }, [getDeviceId]);
+  const refreshAuth = useCallback(() => api.refreshSession(), []);
 
   const updateUser = useCallback(async (data: Partial<User>) => {
     try {
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { AppState, Platform } from "react-native";
+import { useAuth } from "@/context/AuthContext";
+import {
+  PendingEntry,
+  getPendingEntries,
+  subscribeToPendingEntries,
+  syncPendingEntries,
+} from "@/services/offlineQueue";
+
+// How often to retry while entries are waiting for a connection
+const SYNC_INTERVAL = 60 * 1000;
+
+// Entries the signed-in user saved offline that the server doesn't have yet
+export function usePendingEntries() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<PendingEntry[]>([]);
+
+  useEffect(() => {
+    if (!user) {
+      setEntries([]);
+      return;
+    }
+
+    getPendingEntries(user.id).then(setEntries);
+    return subscribeToPendingEntries((all) =>
+      setEntries(all.filter((item) => item.userId === user.id)),
+    );
+  }, [user?.id]);
+
+  return entries;
+}
+
+// Syncs the offline queue on launch, whenever the app comes back to the
+// foreground or the browser goes online, and periodically while entries
+// are waiting. Mount once for the signed-in part of the app.
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const pending = usePendingEntries();
+  const hasPending = pending.some((item) => item.status === "pending");
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const sync = () => {
+      syncPendingEntries(userId).catch((error) =>
+        console.error("Offline sync failed:", error),
+      );
+    };
+
+    sync();
+
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") sync();
+    });
+
+    if (Platform.OS === "web" && typeof window !== "undefined") {
+      window.addEventListener("online", sync);
+    }
+
+    return () => {
+      subscription.remove();
+      if (Platform.OS === "web" && typeof window !== "undefined") {
+        window.removeEventListener("online", sync);
+      }
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !hasPending) return;
+
+    const interval = setInterval(() => {
+      syncPendingEntries(userId).catch((error) =>
+        console.error("Offline sync failed:", error),
+      );
+    }, SYNC_INTERVAL);
+    return () => clearInterval(interval);
+  }, [userId, hasPending]);
+}
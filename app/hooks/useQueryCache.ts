@@ -0,0 +1,20 @@
+import { useEffect, useRef } from "react";
+import { subscribeToInvalidation } from "@/services/queryCache";
+
+// Calls `reload` whenever any of the named queries is invalidated, e.g. after
+// an entry was added on another screen or synced from the offline queue
+export function useQueryInvalidation(names: string[], reload: () => void) {
+  const reloadRef = useRef(reload);
+  reloadRef.current = reload;
+  const namesKey = names.join(",");
+
+  useEffect(
+    () =>
+      subscribeToInvalidation((invalidated) => {
+        if (invalidated.some((name) => namesKey.split(",").includes(name))) {
+          reloadRef.current();
+        }
+      }),
+    [namesKey],
+  );
+}
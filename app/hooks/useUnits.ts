@@ -1,13 +1,64 @@
 import { useAuth } from "@/context/AuthContext";
 import { useEffect, useMemo, useState } from "react";
-import api from "@/services/api";
+import api, { EnergyUnit, FuelEntry, Vehicle } from "@/services/api";
 
 const LITERS_PER_GALLON = 3.78541;
 const KM_PER_MILE = 1.60934;
 
-export type CurrencyType = "CZK" | "USD";
+// Any ISO 4217 code the server has rates for
+export type CurrencyType = string;
 export type UnitSystemType = "metric" | "imperial";
 
+const BASE_CURRENCY = "CZK";
+
+// Codes without a symbol here are shown as the code itself
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  CZK: "Kč",
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  PLN: "zł",
+  HUF: "Ft",
+  JPY: "¥",
+  CNY: "¥",
+  KRW: "₩",
+  INR: "₹",
+  TRY: "₺",
+  ILS: "₪",
+  PHP: "₱",
+  THB: "฿",
+  SEK: "kr",
+  NOK: "kr",
+  DKK: "kr",
+  ISK: "kr",
+};
+
+export const currencySymbolFor = (currency: string | null | undefined) =>
+  CURRENCY_SYMBOLS[currency || BASE_CURRENCY] ?? currency ?? "";
+
+// Used until the server's rates arrive (or if they never do)
+const FALLBACK_RATES: Record<string, number> = {
+  CZK: 1,
+  USD: 0.042,
+  EUR: 0.04,
+};
+
+type EntryAmounts = Pick<
+  FuelEntry,
+  | "totalCost"
+  | "pricePerLiter"
+  | "energyUnit"
+  | "currency"
+  | "originalTotalCost"
+  | "originalPricePerLiter"
+>;
+
+export interface UnitsOptions {
+  // false when the amounts passed in are already in the right currency,
+  // e.g. stats the server converted or a receipt typed in as paid
+  convertAmounts?: boolean;
+}
+
 export interface Units {
   // Symbols & labels
   currencySymbol: string;
@@ -30,29 +81,60 @@ export interface Units {
     costPerKm: number | null | undefined,
   ) => number | null;
 
+  // Per-entry units: charging sessions are always in kWh, fuels follow unitSystem
+  energyUnit: string; // "kWh"
+  unitFor: (energyUnit: EnergyUnit | null | undefined) => string;
+  unitForVehicle: (fuelType: Vehicle["fuelType"] | null | undefined) => string;
+  formatUnits: (
+    amount: number | null | undefined,
+    energyUnit: EnergyUnit | null | undefined,
+  ) => number | null;
+  formatPricePerUnit: (
+    price: number | null | undefined,
+    energyUnit: EnergyUnit | null | undefined,
+  ) => number | null;
+
   // Currency conversion (from CZK DB values to display currency)
   convertCurrency: (czkAmount: number | null | undefined) => number | null;
 
+  // Entry amounts in the display currency: the amount as paid when the entry
+  // was paid in it, otherwise the stored CZK amount converted
+  entryTotalCost: (entry: EntryAmounts) => number | null;
+  entryPricePerUnit: (entry: EntryAmounts) => number | null;
+
   // Inverse conversion helpers (from display values to metric DB values)
   toMetricVolume: (displayVolume: number | null | undefined) => number | null;
   toMetricDistance: (
     displayDistance: number | null | undefined,
   ) => number | null;
+  toBaseCurrency: (displayAmount: number | null | undefined) => number | null;
   toMetricPrice: (displayPrice: number | null | undefined) => number | null;
+  toStoredUnits: (
+    displayAmount: number | null | undefined,
+    energyUnit: EnergyUnit,
+  ) => number | null;
+  toStoredPricePerUnit: (
+    displayPrice: number | null | undefined,
+    energyUnit: EnergyUnit,
+  ) => number | null;
 
   // Raw state
   currency: CurrencyType;
+  supportedCurrencies: string[];
   unitSystem: UnitSystemType;
   isImperial: boolean;
-  exchangeRate: number; // CZK_TO_USD rate (1 if CZK)
+  exchangeRate: number; // CZK -> display currency rate (1 if CZK)
   rateLoaded: boolean;
 }
 
 // Module-level cache so we don't refetch on every component mount
-let cachedRates: { CZK_TO_USD: number; USD_TO_CZK: number } | null = null;
+let cachedRates: {
+  rates: Record<string, number>;
+  currencies: string[];
+} | null = null;
 let fetchPromise: Promise<any> | null = null;
 
-export function useUnits(): Units {
+export function useUnits({ convertAmounts = true }: UnitsOptions = {}): Units {
   const { user } = useAuth();
   const [rates, setRates] = useState(cachedRates);
 
@@ -67,14 +149,17 @@ export function useUnits(): Units {
         .getExchangeRates()
         .then((data) => {
           cachedRates = {
-            CZK_TO_USD: data.CZK_TO_USD,
-            USD_TO_CZK: data.USD_TO_CZK,
+            rates: data.rates,
+            currencies: data.currencies,
           };
           return cachedRates;
         })
         .catch((err) => {
           console.warn("Failed to fetch exchange rates, using fallback:", err);
-          cachedRates = { CZK_TO_USD: 0.042, USD_TO_CZK: 23.8 };
+          cachedRates = {
+            rates: FALLBACK_RATES,
+            currencies: Object.keys(FALLBACK_RATES),
+          };
           return cachedRates;
         })
         .finally(() => {
@@ -86,15 +171,15 @@ export function useUnits(): Units {
   }, []);
 
   return useMemo(() => {
-    const currency = (user?.currency as CurrencyType) || "CZK";
+    const currency = user?.currency || BASE_CURRENCY;
     const unitSystem = (user?.unitSystem as UnitSystemType) || "metric";
     const isImperial = unitSystem === "imperial";
-    const isUSD = currency === "USD";
 
-    const czkToUsd = rates?.CZK_TO_USD ?? 0.042;
-    const currencyRate = isUSD ? czkToUsd : 1;
+    const currencyRate = convertAmounts
+      ? (rates?.rates[currency] ?? FALLBACK_RATES[currency] ?? 1)
+      : 1;
 
-    const currencySymbol = isUSD ? "$" : "Kč";
+    const currencySymbol = currencySymbolFor(currency);
     const volumeUnit = isImperial ? "gal" : "L";
     const distanceUnit = isImperial ? "mi" : "km";
     const pricePerVolumeUnit = `${currencySymbol}/${volumeUnit}`;
@@ -157,6 +242,13 @@ export function useUnits(): Units {
       return isImperial ? displayDistance * KM_PER_MILE : displayDistance;
     };
 
+    const toBaseCurrency = (
+      displayAmount: number | null | undefined,
+    ): number | null => {
+      if (displayAmount == null) return null;
+      return displayAmount / currencyRate;
+    };
+
     const toMetricPrice = (
       displayPrice: number | null | undefined,
     ): number | null => {
@@ -167,6 +259,63 @@ export function useUnits(): Units {
       return isImperial ? price / LITERS_PER_GALLON : price;
     };
 
+    // kWh is never converted, only the currency part of its price is
+    const energyUnit = "kWh";
+    const unitFor = (unit: EnergyUnit | null | undefined) =>
+      unit === "kWh" ? energyUnit : volumeUnit;
+    const unitForVehicle = (
+      fuelType: Vehicle["fuelType"] | null | undefined,
+    ) => (fuelType === "electric" ? energyUnit : volumeUnit);
+
+    const formatUnits = (
+      amount: number | null | undefined,
+      unit: EnergyUnit | null | undefined,
+    ): number | null =>
+      unit === "kWh" ? (amount ?? null) : formatVolume(amount);
+
+    const formatPricePerUnit = (
+      price: number | null | undefined,
+      unit: EnergyUnit | null | undefined,
+    ): number | null =>
+      unit === "kWh" ? convertCurrency(price) : formatPricePerVolume(price);
+
+    const paidInDisplayCurrency = (entry: EntryAmounts) =>
+      (entry.currency || BASE_CURRENCY) === currency;
+
+    const entryTotalCost = (entry: EntryAmounts): number | null =>
+      paidInDisplayCurrency(entry) && entry.originalTotalCost != null
+        ? Number(entry.originalTotalCost)
+        : convertCurrency(entry.totalCost);
+
+    const entryPricePerUnit = (entry: EntryAmounts): number | null => {
+      if (
+        !paidInDisplayCurrency(entry) ||
+        entry.originalPricePerLiter == null
+      ) {
+        return formatPricePerUnit(entry.pricePerLiter, entry.energyUnit);
+      }
+      const price = Number(entry.originalPricePerLiter);
+      return entry.energyUnit !== "kWh" && isImperial
+        ? price * LITERS_PER_GALLON
+        : price;
+    };
+
+    const toStoredUnits = (
+      displayAmount: number | null | undefined,
+      unit: EnergyUnit,
+    ): number | null =>
+      unit === "kWh" ? (displayAmount ?? null) : toMetricVolume(displayAmount);
+
+    const toStoredPricePerUnit = (
+      displayPrice: number | null | undefined,
+      unit: EnergyUnit,
+    ): number | null => {
+      if (displayPrice == null) return null;
+      return unit === "kWh"
+        ? displayPrice / currencyRate
+        : toMetricPrice(displayPrice);
+    };
+
     return {
       currencySymbol,
       volumeUnit,
@@ -179,15 +328,26 @@ export function useUnits(): Units {
       formatDistance,
       formatPricePerVolume,
       formatCostPerDistance,
+      energyUnit,
+      unitFor,
+      unitForVehicle,
+      formatUnits,
+      formatPricePerUnit,
       convertCurrency,
+      entryTotalCost,
+      entryPricePerUnit,
       toMetricVolume,
       toMetricDistance,
+      toBaseCurrency,
       toMetricPrice,
+      toStoredUnits,
+      toStoredPricePerUnit,
       currency,
+      supportedCurrencies: rates?.currencies ?? Object.keys(FALLBACK_RATES),
       unitSystem,
       isImperial,
       exchangeRate: currencyRate,
       rateLoaded: !!rates,
     };
-  }, [user?.currency, user?.unitSystem, rates]);
+  }, [user?.currency, user?.unitSystem, rates, convertAmounts]);
 }
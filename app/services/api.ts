@@ -1,3 +1,5 @@
+import { invalidateQueries } from "./queryCache";
+
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || "http://localhost:3000";
 console.log("API Service Initialized with URL:", API_BASE_URL);
 
@@ -8,6 +10,7 @@ export interface User {
   avatarUrl: string;
   currency?: string;
   unitSystem?: string;
+  isGuest?: boolean;
 }
 
 export interface Vehicle {
@@ -20,8 +23,64 @@ export interface Vehicle {
   year: number | null;
   engine: string | null;
   enginePower: string | null;
+  // Lifetime totals, only returned by getVehicles
+  fuelCost?: number;
+  maintenanceCost?: number;
+  latestMileage?: number | null;
+}
+
+export type MaintenanceCategory =
+  "oil_change" | "tyres" | "inspection" | "insurance" | "repair" | "other";
+
+export interface MaintenanceEntry {
+  id: string;
+  vehicleId: string;
+  category: MaintenanceCategory;
+  cost: number;
+  mileage: number | null;
+  date: string;
+  notes: string | null;
+  receiptImageUrl: string | null;
+}
+
+// A fuel budget for every month or year; vehicleId null covers all vehicles.
+// amount is in CZK like other stored money values.
+export interface Budget {
+  id: string;
+  vehicleId: string | null;
+  vehicleName: string | null;
+  period: "month" | "year";
+  amount: number;
+}
+
+// "due" once within 30 days or 1,000 km of the deadline
+export type ReminderStatus = "ok" | "due" | "overdue";
+
+export interface MaintenanceReminder {
+  id: string;
+  vehicleId: string;
+  title: string;
+  intervalKm: number | null;
+  intervalMonths: number | null;
+  dueDate: string | null;
+  dueMileage: number | null;
+  lastDoneDate: string | null;
+  lastDoneMileage: number | null;
+  notes: string | null;
+  daysLeft: number | null;
+  kmLeft: number | null;
+  status: ReminderStatus;
 }
 
+export type ReminderInput = Pick<
+  MaintenanceReminder,
+  "title" | "intervalKm" | "intervalMonths" | "dueDate" | "notes"
+> &
+  Partial<Pick<MaintenanceReminder, "lastDoneDate" | "lastDoneMileage">>;
+
+// "L" for liquid fuels, "kWh" for EV charging sessions
+export type EnergyUnit = "L" | "kWh";
+
 export interface FuelEntry {
   id: string;
   vehicleId: string | null;
@@ -35,11 +94,48 @@ export interface FuelEntry {
   pricePerLiter: number | null;
   totalLiters: number | null;
   totalCost: number;
+  // Amounts above are in CZK; these keep what the receipt said
+  currency: string;
+  originalPricePerLiter: number | null;
+  originalTotalCost: number | null;
+  exchangeRate: number; // CZK per unit of currency on the entry date
   mileage: number | null;
+  fullTank: boolean;
+  missedFillup: boolean;
+  // For charging sessions pricePerLiter/totalLiters hold price per kWh and kWh
+  energyUnit: EnergyUnit;
+  chargerType: "AC" | "DC" | null;
+  chargingPowerKw: number | null;
+  socStart: number | null;
+  socEnd: number | null;
+  // Photos stored by the server itself are relative API paths; load them
+  // through api.receiptImageSource
   receiptImageUrl: string | null;
+  receiptThumbnailUrl: string | null;
   notes: string | null;
 }
 
+// What the app sends to create an entry; the server fills in the rest
+export type NewFuelEntry = Omit<
+  FuelEntry,
+  | "id"
+  | "vehicleName"
+  | "receiptThumbnailUrl"
+  | "originalPricePerLiter"
+  | "originalTotalCost"
+  | "exchangeRate"
+>;
+
+// Changes since a sync cursor. With full set, this is everything and
+// replaces the local copy. Vehicles come without their totals.
+export interface SyncChanges {
+  cursor: string;
+  full: boolean;
+  vehicles: Vehicle[];
+  entries: FuelEntry[];
+  deleted: { vehicles: string[]; entries: string[] };
+}
+
 export interface GasStation {
   id: number;
   lat: number;
@@ -52,8 +148,75 @@ export interface GasStation {
   openingHours: string | null;
 }
 
+export type ImportFormat = "fuelio" | "spritmonitor" | "acar" | "generic";
+
+export type ImportField =
+  | "date"
+  | "time"
+  | "mileage"
+  | "totalLiters"
+  | "pricePerLiter"
+  | "totalCost"
+  | "fullTank"
+  | "missedFillup"
+  | "stationName"
+  | "stationAddress"
+  | "stationLat"
+  | "stationLng"
+  | "notes";
+
+export interface ImportRow {
+  line: number;
+  entry: Pick<
+    FuelEntry,
+    | "date"
+    | "time"
+    | "mileage"
+    | "totalLiters"
+    | "pricePerLiter"
+    | "totalCost"
+    | "fullTank"
+    | "missedFillup"
+    | "stationName"
+    | "stationAddress"
+    | "stationLat"
+    | "stationLng"
+    | "notes"
+  > | null;
+  error: string | null;
+  // Line of an earlier row in the same file with this fill-up
+  duplicateOf: number | null;
+  duplicate: boolean;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  duplicates: number;
+  errors: number;
+  imported: number;
+  rows: ImportRow[];
+}
+
+// Calendar periods of the dashboard, or an arbitrary startDate/endDate range
+export type StatsPeriod = "week" | "month" | "year" | "all" | "custom";
+
+// Change of a summary value against the comparison period. percent is null
+// when the previous value was 0.
+export interface StatsDelta {
+  change: number;
+  percent: number | null;
+}
+
 export interface Stats {
   period: string;
+  vehicleId: string | null;
+  // Money values are already converted into this currency
+  currency: string;
+  range: { start: string; end: string };
+  // Bucket size of the chart
+  granularity: "day" | "week" | "month";
   summary: {
     total_spent: number;
     avg_per_tank: number;
@@ -64,7 +227,38 @@ export interface Stats {
     avg_km_between_fills: number | null;
     cost_per_km: number | null;
     avg_consumption: number | null;
+    total_charges: number;
+    total_kwh: number;
+    avg_price_per_kwh: number;
+    avg_consumption_kwh: number | null;
   };
+  // The previous comparable period; null for "all"
+  comparison: {
+    compareTo: "previous" | "lastYear";
+    range: { start: string; end: string };
+    summary: Stats["summary"];
+    deltas: Record<
+      | "total_spent"
+      | "total_liters"
+      | "total_kwh"
+      | "avg_price_per_liter"
+      | "avg_price_per_kwh"
+      | "avg_consumption"
+      | "avg_consumption_kwh"
+      | "cost_per_km",
+      StatsDelta | null
+    >;
+  } | null;
+  // Budget of the month or year being viewed, in `currency`. projected is the
+  // spend at the end of the period at the current pace.
+  budget: {
+    id: string;
+    amount: number;
+    spent: number;
+    percentUsed: number;
+    projected: number;
+    overBudget: boolean;
+  } | null;
   chart: {
     labels: string[];
     data: number[];
@@ -83,8 +277,53 @@ export interface Stats {
   weekly: Array<{ week: number; total: number; count: number }>;
 }
 
+// Unit price summary of some fills, in the user's currency
+export interface PriceSummary {
+  avgPrice: number;
+  minPrice: number;
+  maxPrice: number;
+  fills: number;
+}
+
+export interface PriceTrendSeries extends PriceSummary {
+  // "unknown" for entries without a vehicle
+  fuelType: Vehicle["fuelType"] | "unknown";
+  unit: EnergyUnit;
+  // One per interval with fills; start is its first day
+  points: Array<PriceSummary & { start: string; movingAverage: number }>;
+  // Cheapest first
+  stations: Array<PriceSummary & { name: string }>;
+}
+
+export interface PriceTrends {
+  currency: string;
+  interval: "day" | "week" | "month";
+  window: number;
+  range: { start: string; end: string };
+  // Most used first
+  series: PriceTrendSeries[];
+}
+
+export type ReceiptField =
+  "stationName" | "date" | "time" | "pricePerUnit" | "totalUnits" | "totalCost";
+
+export interface ReceiptWarning {
+  code: string;
+  fields: ReceiptField[];
+  message: string;
+}
+
+// A value the server changed after reading it, e.g. a misplaced decimal point
+export interface ReceiptCorrection {
+  field: ReceiptField;
+  from: string | number | null;
+  to: string | number | null;
+  reason: "format" | "invalid" | "future_date" | "decimal_shift" | "derived";
+}
+
 export interface ReceiptScanResult {
   imageUrl: string | null;
+  thumbnailUrl: string | null;
   rawText: string;
   parsed: {
     stationName: string | null;
@@ -96,21 +335,158 @@ export interface ReceiptScanResult {
     totalUnits: number | null;
     totalCost: number | null;
   };
+  // The OCR provider that read the receipt, null when none could
+  provider: string | null;
+  // 0 (not found) to 1 per field
+  confidence: Record<ReceiptField, number>;
+  warnings: ReceiptWarning[];
+  corrections: ReceiptCorrection[];
+}
+
+// A fuel entry with a receipt photo; amounts as paid, in the receipt currency
+export interface ReceiptListItem {
+  entryId: string;
+  imageUrl: string;
+  thumbnailUrl: string;
+  date: string;
+  time: string | null;
+  stationName: string | null;
+  vehicleName: string | null;
+  totalLiters: number | null;
+  energyUnit: EnergyUnit;
+  totalCost: number;
+  currency: string;
+}
+
+type ReceiptValues = Omit<
+  ReceiptScanResult["parsed"],
+  "pricePerLiter" | "totalLiters"
+>;
+
+// A fresh scan of an entry's stored photo next to what was saved. saved has
+// amounts as paid and quantities in the user's units.
+export interface ReceiptRescanResult extends ReceiptScanResult {
+  saved: ReceiptValues & { currency: string };
+  differences: {
+    field: ReceiptField;
+    saved: string | number | null;
+    scanned: string | number;
+  }[];
 }
 
+// Thrown for non-2xx responses, carrying the HTTP status
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// How the client renews an expired session. AuthContext owns the stored
+// tokens and registers these on mount.
+export interface SessionHandlers {
+  getRefreshCredentials: () => Promise<{
+    refreshToken: string;
+    deviceId: string;
+  } | null>;
+  onTokensRefreshed: (tokens: {
+    accessToken: string;
+    refreshToken: string;
+  }) => Promise<void>;
+  onSessionExpired: () => void;
+}
+
+const REFRESH_ENDPOINT = "/api/auth/refresh";
+
+// Cached queries that change along with fuel entries (vehicles carry totals)
+const ENTRY_QUERIES = [
+  "entries",
+  "stats",
+  "priceTrends",
+  "vehicles",
+  "receipts",
+];
+
 class ApiService {
   private accessToken: string | null = null;
+  private sessionHandlers: SessionHandlers | null = null;
+  // Refresh in progress, shared by every request that gets a 401 meanwhile
+  private refreshing: Promise<boolean> | null = null;
 
   setAccessToken(token: string | null) {
     this.accessToken = token;
   }
 
-  private async request<T>(
+  setSessionHandlers(handlers: SessionHandlers | null) {
+    this.sessionHandlers = handlers;
+  }
+
+  // Image source for a receipt photo. Photos kept by the server are served
+  // to their owner only, so those requests carry the access token.
+  receiptImageSource(url: string) {
+    if (/^https?:\/\//.test(url)) return { uri: url };
+    return {
+      uri: `${API_BASE_URL}${url}`,
+      headers: this.accessToken
+        ? { Authorization: `Bearer ${this.accessToken}` }
+        : undefined,
+    };
+  }
+
+  /**
+   * Trade the stored refresh token for a new access token. Concurrent calls
+   * share one request, since each refresh token can only be used once.
+   * Signs out through onSessionExpired when the server rejects the token.
+   */
+  refreshSession(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const handlers = this.sessionHandlers;
+    if (!handlers) return false;
+
+    try {
+      const credentials = await handlers.getRefreshCredentials();
+      if (!credentials) {
+        handlers.onSessionExpired();
+        return false;
+      }
+
+      const tokens = await this.refreshToken(
+        credentials.refreshToken,
+        credentials.deviceId,
+      );
+      this.accessToken = tokens.accessToken;
+      await handlers.onTokensRefreshed(tokens);
+      return true;
+    } catch (error) {
+      console.log("Session refresh failed:", error);
+      // Network trouble leaves the session for a later attempt
+      if (error instanceof ApiError && error.status === 401) {
+        handlers.onSessionExpired();
+      }
+      return false;
+    }
+  }
+
+  private async send(
     endpoint: string,
-    options: RequestInit = {},
-  ): Promise<T> {
+    options: RequestInit,
+  ): Promise<Response> {
     const headers: HeadersInit = {
-      "Content-Type": "application/json",
+      // Multipart bodies set their own Content-Type with the boundary
+      ...(!(options.body instanceof FormData) && {
+        "Content-Type": "application/json",
+      }),
       "Bypass-Tunnel-Reminder": "true",
       "ngrok-skip-browser-warning": "true",
       ...options.headers,
@@ -121,26 +497,66 @@ class ApiService {
         `Bearer ${this.accessToken}`;
     }
 
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    return fetch(`${API_BASE_URL}${endpoint}`, {
       ...options,
       headers,
     });
+  }
+
+  private async fetchResponse(
+    endpoint: string,
+    options: RequestInit = {},
+  ): Promise<Response> {
+    const sentToken = this.accessToken;
+    let response = await this.send(endpoint, options);
+
+    // Expired access token: refresh once and retry. If another request
+    // already refreshed since this one was sent, just retry.
+    if (response.status === 401 && sentToken && endpoint !== REFRESH_ENDPOINT) {
+      const refreshed =
+        this.accessToken !== sentToken || (await this.refreshSession());
+      if (refreshed) {
+        response = await this.send(endpoint, options);
+      }
+    }
 
     if (!response.ok) {
       const text = await response.text();
       console.log(`API Error [${response.status}]:`, text.substring(0, 500)); // Log first 500 chars
 
+      // The server's own message, or the start of the body when it isn't
+      // JSON (e.g. a proxy's error page)
+      let message = `HTTP ${response.status}: ${text.substring(0, 100)}`;
       try {
-        const json = JSON.parse(text);
-        throw new Error(json.error || `HTTP ${response.status}`);
+        message = JSON.parse(text).error || `HTTP ${response.status}`;
       } catch (e) {
-        throw new Error(`HTTP ${response.status}: ${text.substring(0, 100)}`);
+        // Not JSON; keep the raw text
       }
+      throw new ApiError(message, response.status);
     }
 
+    return response;
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {},
+  ): Promise<T> {
+    const response = await this.fetchResponse(endpoint, options);
     return response.json();
   }
 
+  // A request that changes data; the cached queries it affects go stale
+  private async mutate<T>(
+    endpoint: string,
+    options: RequestInit,
+    invalidates: string[],
+  ): Promise<T> {
+    const result = await this.request<T>(endpoint, options);
+    invalidateQueries(...invalidates);
+    return result;
+  }
+
   // Auth
   async signInWithGoogle(
     idToken: string,
@@ -158,14 +574,48 @@ class ApiService {
     });
   }
 
-  async signInAsGuest(deviceId: string, deviceName?: string) {
+  // guestSecret comes back only with a new guest account; sending it again
+  // gets the device back into that account
+  async signInAsGuest(
+    deviceId: string,
+    deviceName?: string,
+    guestSecret?: string | null,
+  ) {
     return this.request<{
       user: User;
       accessToken: string;
       refreshToken: string;
+      guestSecret?: string;
     }>("/api/auth/guest", {
       method: "POST",
-      body: JSON.stringify({ deviceId, deviceName }),
+      body: JSON.stringify({ deviceId, deviceName, guestSecret }),
+    });
+  }
+
+  // Single-use nonce that lets the browser sign-in flow upgrade the
+  // signed-in guest, expiring after a few minutes
+  async createGuestUpgradeNonce() {
+    return this.request<{ nonce: string }>("/api/auth/guest/upgrade-nonce", {
+      method: "POST",
+    });
+  }
+
+  // Link the signed-in guest account to Google: a native ID token or a web
+  // OAuth access token. Returns the Google account's session.
+  async upgradeGuest(params: {
+    idToken?: string;
+    platform?: string;
+    googleAccessToken?: string;
+    deviceId: string;
+    deviceName?: string;
+  }) {
+    return this.request<{
+      user: User;
+      accessToken: string;
+      refreshToken: string;
+    }>("/api/auth/guest/upgrade", {
+      method: "POST",
+      body: JSON.stringify(params),
     });
   }
 
@@ -194,10 +644,14 @@ class ApiService {
   }
 
   async refreshToken(refreshToken: string, deviceId: string) {
-    return this.request<{ accessToken: string }>("/api/auth/refresh", {
-      method: "POST",
-      body: JSON.stringify({ refreshToken, deviceId }),
-    });
+    // The refresh token is single-use: store the new one in its place
+    return this.request<{ accessToken: string; refreshToken: string }>(
+      REFRESH_ENDPOINT,
+      {
+        method: "POST",
+        body: JSON.stringify({ refreshToken, deviceId }),
+      },
+    );
   }
 
   async logout(deviceId: string) {
@@ -217,18 +671,48 @@ class ApiService {
     currency?: string;
     unitSystem?: string;
   }) {
-    return this.request<User>("/api/users/me", {
-      method: "PUT",
-      body: JSON.stringify(data),
+    // Stats come back in the user's currency
+    return this.mutate<User>(
+      "/api/users/me",
+      { method: "PUT", body: JSON.stringify(data) },
+      ["stats", "priceTrends"],
+    );
+  }
+
+  // Full account export as pretty-printed JSON text, ready to save
+  async exportMyData() {
+    const data = await this.request<unknown>("/api/users/me/export");
+    return JSON.stringify(data, null, 2);
+  }
+
+  async deleteMe() {
+    return this.request<{ success: boolean }>("/api/users/me", {
+      method: "DELETE",
     });
   }
 
-  async getExchangeRates() {
+  // Rates on a date (latest by default); `date` in the response is the
+  // business day the rates are from
+  async getExchangeRates(params?: {
+    date?: string;
+    base?: string;
+    symbols?: string[];
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params?.date) searchParams.append("date", params.date);
+    if (params?.base) searchParams.append("base", params.base);
+    if (params?.symbols)
+      searchParams.append("symbols", params.symbols.join(","));
+    const query = searchParams.toString();
+
     return this.request<{
+      base: string;
       CZK_TO_USD: number;
       USD_TO_CZK: number;
+      rates: Record<string, number>; // 1 base in each currency
+      currencies: string[];
       date: string;
-    }>("/api/exchange-rates");
+    }>(`/api/exchange-rates${query ? `?${query}` : ""}`);
   }
 
   // Vehicles
@@ -237,23 +721,143 @@ class ApiService {
   }
 
   async addVehicle(data: Omit<Vehicle, "id">) {
-    return this.request<Vehicle>("/api/vehicles", {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+    return this.mutate<Vehicle>(
+      "/api/vehicles",
+      { method: "POST", body: JSON.stringify(data) },
+      ["vehicles"],
+    );
   }
 
   async updateVehicle(id: string, data: Partial<Vehicle>) {
-    return this.request<Vehicle>(`/api/vehicles/${id}`, {
-      method: "PUT",
-      body: JSON.stringify(data),
-    });
+    return this.mutate<Vehicle>(
+      `/api/vehicles/${id}`,
+      { method: "PUT", body: JSON.stringify(data) },
+      ENTRY_QUERIES,
+    );
   }
 
   async deleteVehicle(id: string) {
-    return this.request<{ success: boolean }>(`/api/vehicles/${id}`, {
-      method: "DELETE",
-    });
+    return this.mutate<{ success: boolean }>(
+      `/api/vehicles/${id}`,
+      { method: "DELETE" },
+      ENTRY_QUERIES,
+    );
+  }
+
+  // Maintenance
+  async getMaintenance(vehicleId: string) {
+    return this.request<MaintenanceEntry[]>(
+      `/api/vehicles/${vehicleId}/maintenance`,
+    );
+  }
+
+  async addMaintenance(
+    vehicleId: string,
+    data: Omit<MaintenanceEntry, "id" | "vehicleId">,
+  ) {
+    return this.mutate<MaintenanceEntry>(
+      `/api/vehicles/${vehicleId}/maintenance`,
+      { method: "POST", body: JSON.stringify(data) },
+      ["vehicles"],
+    );
+  }
+
+  async updateMaintenance(
+    vehicleId: string,
+    id: string,
+    data: Omit<MaintenanceEntry, "id" | "vehicleId">,
+  ) {
+    return this.mutate<MaintenanceEntry>(
+      `/api/vehicles/${vehicleId}/maintenance/${id}`,
+      { method: "PUT", body: JSON.stringify(data) },
+      ["vehicles"],
+    );
+  }
+
+  async deleteMaintenance(vehicleId: string, id: string) {
+    return this.mutate<{ success: boolean }>(
+      `/api/vehicles/${vehicleId}/maintenance/${id}`,
+      { method: "DELETE" },
+      ["vehicles"],
+    );
+  }
+
+  // Budgets
+  async getBudgets() {
+    return this.request<Budget[]>("/api/budgets");
+  }
+
+  async addBudget(data: Omit<Budget, "id" | "vehicleName">) {
+    return this.mutate<Budget>(
+      "/api/budgets",
+      { method: "POST", body: JSON.stringify(data) },
+      ["stats"],
+    );
+  }
+
+  async updateBudget(id: string, data: Omit<Budget, "id" | "vehicleName">) {
+    return this.mutate<Budget>(
+      `/api/budgets/${id}`,
+      { method: "PUT", body: JSON.stringify(data) },
+      ["stats"],
+    );
+  }
+
+  async deleteBudget(id: string) {
+    return this.mutate<{ success: boolean }>(
+      `/api/budgets/${id}`,
+      { method: "DELETE" },
+      ["stats"],
+    );
+  }
+
+  // Maintenance reminders
+  async getReminders(vehicleId: string) {
+    return this.request<{
+      currentMileage: number | null;
+      reminders: MaintenanceReminder[];
+    }>(`/api/vehicles/${vehicleId}/reminders`);
+  }
+
+  async addReminder(vehicleId: string, data: ReminderInput) {
+    return this.request<MaintenanceReminder>(
+      `/api/vehicles/${vehicleId}/reminders`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+    );
+  }
+
+  async updateReminder(vehicleId: string, id: string, data: ReminderInput) {
+    return this.request<MaintenanceReminder>(
+      `/api/vehicles/${vehicleId}/reminders/${id}`,
+      {
+        method: "PUT",
+        body: JSON.stringify(data),
+      },
+    );
+  }
+
+  async completeReminder(
+    vehicleId: string,
+    id: string,
+    data: { date?: string; mileage?: number; dueDate?: string } = {},
+  ) {
+    return this.request<MaintenanceReminder>(
+      `/api/vehicles/${vehicleId}/reminders/${id}/complete`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+    );
+  }
+
+  async deleteReminder(vehicleId: string, id: string) {
+    return this.request<{ success: boolean }>(
+      `/api/vehicles/${vehicleId}/reminders/${id}`,
+      { method: "DELETE" },
+    );
   }
 
   // Fuel Entries
@@ -279,40 +883,120 @@ class ApiService {
     return this.request<FuelEntry[]>(`/api/entries${query ? `?${query}` : ""}`);
   }
 
+  // Dry run by default; pass dryRun: false to write the previewed rows
+  async importEntries(data: {
+    vehicleId: string;
+    format: ImportFormat;
+    csv: string;
+    mapping?: Partial<Record<ImportField, string>>;
+    delimiter?: string;
+    dateOrder?: "YMD" | "DMY" | "MDY";
+    decimalComma?: boolean;
+    currency?: string;
+    dryRun?: boolean;
+    includeDuplicates?: boolean;
+  }) {
+    return this.mutate<ImportResult>(
+      "/api/entries/import",
+      { method: "POST", body: JSON.stringify(data) },
+      data.dryRun === false ? ENTRY_QUERIES : [],
+    );
+  }
+
+  // Returns the raw CSV text; convert=true exports in the user's currency and units
+  async exportEntries(params?: {
+    vehicleId?: string;
+    startDate?: string;
+    endDate?: string;
+    convert?: boolean;
+  }) {
+    const searchParams = new URLSearchParams({ format: "csv" });
+    if (params?.vehicleId) searchParams.set("vehicleId", params.vehicleId);
+    if (params?.startDate) searchParams.set("startDate", params.startDate);
+    if (params?.endDate) searchParams.set("endDate", params.endDate);
+    if (params?.convert) searchParams.set("convert", "true");
+
+    const response = await this.fetchResponse(
+      `/api/entries/export?${searchParams.toString()}`,
+    );
+    return response.text();
+  }
+
   async getStats(
-    period: "week" | "month" | "year" | "all" = "month",
+    period: StatsPeriod = "month",
     date?: string,
+    vehicleId?: string,
+    compareTo?: "previous" | "lastYear",
+    // Required for the "custom" period
+    customRange?: { start: string; end: string },
   ) {
-    return this.request<Stats>(
-      `/api/entries/stats?period=${period}${date ? `&date=${date}` : ""}`,
+    const searchParams = new URLSearchParams({ period });
+    if (date) searchParams.set("date", date);
+    if (customRange) {
+      searchParams.set("startDate", customRange.start);
+      searchParams.set("endDate", customRange.end);
+    }
+    if (vehicleId) searchParams.set("vehicleId", vehicleId);
+    if (compareTo) searchParams.set("compareTo", compareTo);
+
+    return this.request<Stats>(`/api/entries/stats?${searchParams.toString()}`);
+  }
+
+  async getPriceTrends(params?: {
+    interval?: PriceTrends["interval"];
+    startDate?: string;
+    endDate?: string;
+    vehicleId?: string;
+    fuelType?: string;
+    window?: number;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params?.interval) searchParams.set("interval", params.interval);
+    if (params?.startDate) searchParams.set("startDate", params.startDate);
+    if (params?.endDate) searchParams.set("endDate", params.endDate);
+    if (params?.vehicleId) searchParams.set("vehicleId", params.vehicleId);
+    if (params?.fuelType) searchParams.set("fuelType", params.fuelType);
+    if (params?.window) searchParams.set("window", params.window.toString());
+
+    const query = searchParams.toString();
+    return this.request<PriceTrends>(
+      `/api/entries/price-trends${query ? `?${query}` : ""}`,
     );
   }
 
-  async addEntry(data: Omit<FuelEntry, "id" | "vehicleName">, force = false) {
-    return this.request<FuelEntry>(
+  // Amounts are sent as paid, in data.currency; the server converts to CZK
+  async addEntry(data: NewFuelEntry, force = false) {
+    return this.mutate<FuelEntry>(
       `/api/entries${force ? "?force=true" : ""}`,
-      {
-        method: "POST",
-        body: JSON.stringify(data),
-      },
+      { method: "POST", body: JSON.stringify(data) },
+      ENTRY_QUERIES,
     );
   }
 
   async updateEntry(id: string, data: Partial<FuelEntry>) {
-    return this.request<FuelEntry>(`/api/entries/${id}`, {
-      method: "PUT",
-      body: JSON.stringify(data),
-    });
+    return this.mutate<FuelEntry>(
+      `/api/entries/${id}`,
+      { method: "PUT", body: JSON.stringify(data) },
+      ENTRY_QUERIES,
+    );
   }
 
   async deleteEntry(id: string) {
-    return this.request<{ success: boolean }>(`/api/entries/${id}`, {
-      method: "DELETE",
-    });
+    return this.mutate<{ success: boolean }>(
+      `/api/entries/${id}`,
+      { method: "DELETE" },
+      ENTRY_QUERIES,
+    );
+  }
+
+  // Omit `since` for a full snapshot
+  async sync(since?: string) {
+    const query = since ? `?since=${encodeURIComponent(since)}` : "";
+    return this.request<SyncChanges>(`/api/sync${query}`);
   }
 
   // Receipts
-  async scanReceipt(
+  private async buildReceiptFormData(
     imageBase64: string,
     mimeType: string,
     imageUri?: string,
@@ -354,22 +1038,48 @@ class ApiService {
       } as any);
     }
 
-    const response = await fetch(`${API_BASE_URL}/api/receipts/scan`, {
+    return formData;
+  }
+
+  async scanReceipt(
+    imageBase64: string,
+    mimeType: string,
+    imageUri?: string,
+    webFile?: any,
+  ) {
+    return this.request<ReceiptScanResult>("/api/receipts/scan", {
       method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.accessToken}`,
-        "ngrok-skip-browser-warning": "true",
-      },
-      body: formData,
+      body: await this.buildReceiptFormData(
+        imageBase64,
+        mimeType,
+        imageUri,
+        webFile,
+      ),
     });
+  }
 
-    if (!response.ok) {
-      const text = await response.text();
-      console.log(`Scan Error [${response.status}]:`, text.substring(0, 500));
-      throw new Error(`Failed to scan: HTTP ${response.status}`);
-    }
+  // Stores the image without scanning it; imageUrl is null if the server
+  // has no image storage
+  async uploadReceipt(imageBase64: string, mimeType: string) {
+    return this.request<{
+      imageUrl: string | null;
+      thumbnailUrl: string | null;
+    }>("/api/receipts/upload", {
+      method: "POST",
+      body: await this.buildReceiptFormData(imageBase64, mimeType),
+    });
+  }
 
-    return response.json() as Promise<ReceiptScanResult>;
+  async getReceipts() {
+    return this.request<ReceiptListItem[]>("/api/receipts");
+  }
+
+  // Reads the entry's stored photo again; nothing is changed
+  async rescanReceipt(entryId: string) {
+    return this.request<ReceiptRescanResult>(
+      `/api/receipts/${entryId}/rescan`,
+      { method: "POST" },
+    );
   }
 
   // Gas Stations
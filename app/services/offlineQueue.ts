@@ -0,0 +1,212 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Directory, File, Paths } from "expo-file-system";
+import api, { ApiError, NewFuelEntry } from "./api";
+
+// Entries saved without a connection wait here until the server accepts
+// them. The queue survives restarts; receipt photos are kept as files, since
+// a photo easily outgrows an AsyncStorage item (about 2 MB on Android).
+
+const QUEUE_KEY = "@tankuy_offline_entries";
+const RECEIPT_DIR = "offline-receipts";
+
+// pending: waiting to sync
+// conflict: the server found a similar entry (409); the user decides
+// failed: the server rejected the entry (or the upload broke in some other
+// way); the user retries or discards it
+export type PendingEntryStatus = "pending" | "conflict" | "failed";
+
+export interface PendingEntry {
+  id: string;
+  // Entries only sync to the account that saved them
+  userId: string;
+  entry: NewFuelEntry;
+  // Set when a receipt photo is stored with the entry
+  receiptMimeType: string | null;
+  status: PendingEntryStatus;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface PendingReceipt {
+  base64: string;
+  mimeType: string;
+}
+
+type Listener = (entries: PendingEntry[]) => void;
+
+let cache: PendingEntry[] | null = null;
+const listeners = new Set<Listener>();
+let syncing: Promise<number> | null = null;
+
+// How fetch fails without a connection: "Network request failed" in React
+// Native; browsers word it differently
+const NETWORK_FAILURE =
+  /network request failed|failed to fetch|networkerror|load failed/i;
+
+// A request that never reached the server, or was aborted (e.g. timed out),
+// as opposed to one the server refused or a bug in the app
+export const isNetworkError = (error: unknown) =>
+  (error instanceof TypeError && NETWORK_FAILURE.test(error.message)) ||
+  (error as { name?: string } | null)?.name === "AbortError";
+
+const load = async (): Promise<PendingEntry[]> => {
+  if (!cache) {
+    try {
+      const stored = await AsyncStorage.getItem(QUEUE_KEY);
+      cache = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Failed to read offline queue:", error);
+      cache = [];
+    }
+  }
+  return cache!;
+};
+
+const save = async (entries: PendingEntry[]) => {
+  cache = entries;
+  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(entries));
+  listeners.forEach((listener) => listener(entries));
+};
+
+const update = async (id: string, changes: Partial<PendingEntry>) => {
+  const entries = await load();
+  await save(
+    entries.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+  );
+};
+
+const receiptFile = (id: string) =>
+  new File(new Directory(Paths.document, RECEIPT_DIR), id);
+
+const deleteReceiptFile = (id: string) => {
+  try {
+    const file = receiptFile(id);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.error("Failed to delete offline receipt photo:", error);
+  }
+};
+
+const remove = async (id: string) => {
+  const entries = await load();
+  const item = entries.find((entry) => entry.id === id);
+  if (item?.receiptMimeType) deleteReceiptFile(id);
+  await save(entries.filter((entry) => entry.id !== id));
+};
+
+export const getPendingEntries = async (userId: string) =>
+  (await load()).filter((item) => item.userId === userId);
+
+// Called with the whole queue whenever it changes
+export const subscribeToPendingEntries = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Queue an entry, with the receipt photo if there is one. A photo that
+ * can't be stored (no space left, or no file system on web) is left out
+ * rather than losing the entry; receiptKept says whether it made it.
+ */
+export const queueEntry = async (
+  userId: string,
+  entry: NewFuelEntry,
+  receipt?: PendingReceipt | null,
+) => {
+  const id = `local-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+  let receiptMimeType: string | null = null;
+  if (receipt) {
+    try {
+      new Directory(Paths.document, RECEIPT_DIR).create({ idempotent: true });
+      receiptFile(id).write(receipt.base64, { encoding: "base64" });
+      receiptMimeType = receipt.mimeType;
+    } catch (error) {
+      console.error("Failed to store offline receipt photo:", error);
+      deleteReceiptFile(id);
+    }
+  }
+
+  const entries = await load();
+  await save([
+    ...entries,
+    {
+      id,
+      userId,
+      entry,
+      receiptMimeType,
+      status: "pending",
+      error: null,
+      createdAt: new Date().toISOString(),
+    },
+  ]);
+  return { id, receiptKept: !receipt || receiptMimeType !== null };
+};
+
+// Uploads the queued photo, if any, and creates the entry
+const submit = async (item: PendingEntry, force = false) => {
+  let receiptImageUrl = item.entry.receiptImageUrl;
+
+  if (item.receiptMimeType && !receiptImageUrl) {
+    const file = receiptFile(item.id);
+    if (file.exists) {
+      ({ imageUrl: receiptImageUrl } = await api.uploadReceipt(
+        await file.base64(),
+        item.receiptMimeType,
+      ));
+      // Don't upload the photo again if the entry itself fails below
+      await update(item.id, { entry: { ...item.entry, receiptImageUrl } });
+    }
+  }
+
+  await api.addEntry({ ...item.entry, receiptImageUrl }, force);
+  await remove(item.id);
+};
+
+/**
+ * Send every pending entry of the user to the server, oldest first.
+ * Stops at the first network error and leaves the rest for the next
+ * attempt. Returns how many entries were saved.
+ */
+export const syncPendingEntries = (userId: string): Promise<number> => {
+  if (!syncing) {
+    syncing = (async () => {
+      let synced = 0;
+      for (const item of await getPendingEntries(userId)) {
+        if (item.status !== "pending") continue;
+        try {
+          await submit(item);
+          synced++;
+        } catch (error) {
+          if (isNetworkError(error)) break;
+          // Session problems are handled by the api client; try again later
+          if ((error as ApiError).status === 401) break;
+
+          const conflict = (error as ApiError).status === 409;
+          await update(item.id, {
+            status: conflict ? "conflict" : "failed",
+            error: (error as Error).message,
+          });
+        }
+      }
+      return synced;
+    })().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+};
+
+// Conflict resolution: save the entry even though it looks like a duplicate
+export const forceSavePendingEntry = async (id: string) => {
+  const item = (await load()).find((entry) => entry.id === id);
+  if (item) await submit(item, true);
+};
+
+// Put a failed entry back in line for the next sync
+export const retryPendingEntry = (id: string) =>
+  update(id, { status: "pending", error: null });
+
+export const discardPendingEntry = (id: string) => remove(id);
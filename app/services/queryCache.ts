@@ -0,0 +1,157 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Last known responses of read requests, kept per user and persisted so
+// screens open with data right away and refresh it in the background
+// (stale-while-revalidate). Mutations in the api client invalidate the
+// queries they affect.
+
+const STORAGE_KEY = "@tankuy_query_cache";
+
+// A response younger than this is used without asking the server again
+const STALE_TIME = 30 * 1000;
+
+// Only the most recently updated queries are persisted
+const MAX_PERSISTED_QUERIES = 50;
+const PERSIST_DELAY = 1000;
+
+interface CachedQuery {
+  data: unknown;
+  updatedAt: number;
+}
+
+// Called with the invalidated query names
+type InvalidationListener = (names: string[]) => void;
+
+let queries = new Map<string, CachedQuery>();
+const inFlight = new Map<string, Promise<unknown>>();
+const listeners = new Set<InvalidationListener>();
+let hydrating: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+let owner: string | null = null;
+// Bumped on clear so responses still in flight aren't stored afterwards
+let generation = 0;
+
+// Builds a key from a query name and its parameters. Invalidation matches
+// on the name, e.g. invalidateQueries("entries").
+export const queryKey = (name: string, params?: object) =>
+  params ? `${name}:${JSON.stringify(params)}` : name;
+
+const hydrate = () => {
+  if (!hydrating) {
+    hydrating = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          const persisted: Record<string, CachedQuery> = JSON.parse(stored);
+          // Anything fetched while reading storage is newer; keep it
+          queries = new Map([...Object.entries(persisted), ...queries]);
+        }
+      } catch (error) {
+        console.error("Failed to read query cache:", error);
+      }
+    })();
+  }
+  return hydrating;
+};
+
+const persist = () => {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    const recent = [...queries.entries()]
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_PERSISTED_QUERIES);
+    AsyncStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(Object.fromEntries(recent)),
+    ).catch((error) => console.error("Failed to save query cache:", error));
+  }, PERSIST_DELAY);
+};
+
+// Cached data belongs to the signed-in user; keys are scoped to them
+export const setQueryCacheUser = (userId: string | null) => {
+  owner = userId;
+};
+
+const scoped = (key: string) => (owner ? `${owner}/${key}` : null);
+
+/**
+ * Load a query stale-while-revalidate: `onData` gets the cached response
+ * first (if there is one) and the server's once it arrives. The request is
+ * skipped while the cached response is fresh, unless `force` is set.
+ * Concurrent loads of the same key share one request.
+ */
+export const cachedQuery = async <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  onData: (data: T) => void,
+  { force = false }: { force?: boolean } = {},
+): Promise<T> => {
+  await hydrate();
+  const cacheKey = scoped(key);
+  if (!cacheKey) {
+    const data = await fetcher();
+    onData(data);
+    return data;
+  }
+
+  const cached = queries.get(cacheKey);
+  if (cached) {
+    onData(cached.data as T);
+    if (!force && Date.now() - cached.updatedAt < STALE_TIME) {
+      return cached.data as T;
+    }
+  }
+
+  let request = inFlight.get(cacheKey) as Promise<T> | undefined;
+  if (!request) {
+    const startedIn = generation;
+    request = fetcher()
+      .then((data) => {
+        if (startedIn === generation) {
+          queries.set(cacheKey, { data, updatedAt: Date.now() });
+          persist();
+        }
+        return data;
+      })
+      .finally(() => inFlight.delete(cacheKey));
+    inFlight.set(cacheKey, request);
+  }
+
+  const data = await request;
+  onData(data);
+  return data;
+};
+
+/**
+ * Mark queries stale so their next load goes to the server, and tell
+ * screens to reload. Matches every query whose name is one of `names`.
+ */
+export const invalidateQueries = (...names: string[]) => {
+  if (names.length === 0) return;
+  for (const [key, cached] of queries) {
+    const name = key.slice(key.indexOf("/") + 1).split(":")[0];
+    if (names.includes(name)) {
+      queries.set(key, { ...cached, updatedAt: 0 });
+    }
+  }
+  persist();
+  listeners.forEach((listener) => listener(names));
+};
+
+export const subscribeToInvalidation = (listener: InvalidationListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Forget everything, e.g. on sign-out
+export const clearQueryCache = async () => {
+  generation++;
+  queries.clear();
+  inFlight.clear();
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = null;
+  await AsyncStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,22 @@
+import { Platform, Share } from "react-native";
+
+// Hands a generated text file to the user: a download on web, the system
+// share sheet elsewhere (we don't ship a file system module).
+export async function shareTextFile(
+  filename: string,
+  content: string,
+  mimeType: string,
+) {
+  if (Platform.OS === "web") {
+    const url = URL.createObjectURL(
+      new Blob([content], { type: `${mimeType};charset=utf-8` }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  } else {
+    await Share.share({ title: filename, message: content });
+  }
+}
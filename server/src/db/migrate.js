@@ -0,0 +1,179 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import pool from "./connection.js";
+
+// Numbered migrations in ./migrations, applied in order and recorded in
+// schema_migrations. A migration is either a pair of NNN_name.up.sql and
+// NNN_name.down.sql files or a NNN_name.js module exporting up(connection)
+// and down(connection).
+//
+//   npm run migrate           apply everything pending (also run on startup)
+//   npm run migrate:down      roll back the latest migration
+//   npm run migrate:status    list applied and pending migrations
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("./migrations", import.meta.url));
+
+// Keeps two server instances from migrating at the same time
+const LOCK_NAME = "tankuy_migrations";
+const LOCK_TIMEOUT_SECONDS = 60;
+
+const loadMigrations = () => {
+  const migrations = new Map();
+
+  for (const file of fs.readdirSync(MIGRATIONS_DIR)) {
+    const match = /^(\d+)_(.+?)(\.up\.sql|\.down\.sql|\.js)$/.exec(file);
+    if (!match) continue;
+
+    const [, version, name, kind] = match;
+    const migration = migrations.get(version) || { version, name, files: {} };
+    if (migration.name !== name) {
+      throw new Error(`Two migrations share version ${version}`);
+    }
+    migration.files[kind] = path.join(MIGRATIONS_DIR, file);
+    migrations.set(version, migration);
+  }
+
+  return [...migrations.values()].sort(
+    (a, b) => Number(a.version) - Number(b.version),
+  );
+};
+
+// Comments go first so a ";" inside one cannot split a statement
+const splitStatements = (sql) =>
+  sql
+    .replace(/^\s*--.*$/gm, "")
+    .split(";")
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+
+const runMigration = async (connection, migration, direction) => {
+  if (migration.files[".js"]) {
+    const module = await import(pathToFileURL(migration.files[".js"]).href);
+    await module[direction](connection);
+    return;
+  }
+
+  const file = migration.files[`.${direction}.sql`];
+  if (!file) {
+    throw new Error(
+      `Migration ${migration.version}_${migration.name} has no ${direction} script`,
+    );
+  }
+  for (const statement of splitStatements(fs.readFileSync(file, "utf8"))) {
+    await connection.query(statement);
+  }
+};
+
+const getAppliedVersions = async (connection) => {
+  await connection.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(20) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )`,
+  );
+  const [rows] = await connection.query(
+    "SELECT version FROM schema_migrations",
+  );
+  return new Set(rows.map((row) => row.version));
+};
+
+/**
+ * Apply every pending migration ("up") or roll back the latest `steps`
+ * applied ones ("down").
+ * MySQL commits DDL implicitly, so a migration that fails halfway is not
+ * rolled back; it stays pending and runs again once fixed, which is why
+ * migrations should be safe to re-run.
+ */
+export const migrate = async ({ direction = "up", steps = 1 } = {}) => {
+  const connection = await pool.getConnection();
+
+  try {
+    const [[lock]] = await connection.query(
+      "SELECT GET_LOCK(?, ?) AS acquired",
+      [LOCK_NAME, LOCK_TIMEOUT_SECONDS],
+    );
+    if (!lock.acquired) {
+      throw new Error("Timed out waiting for the migration lock");
+    }
+
+    try {
+      const applied = await getAppliedVersions(connection);
+      const migrations = loadMigrations();
+
+      if (direction === "up") {
+        for (const migration of migrations) {
+          if (applied.has(migration.version)) continue;
+          console.log(
+            `⬆️  Applying migration ${migration.version}_${migration.name}`,
+          );
+          await runMigration(connection, migration, "up");
+          await connection.execute(
+            "INSERT INTO schema_migrations (version, name) VALUES (?, ?)",
+            [migration.version, migration.name],
+          );
+        }
+      } else {
+        const toRevert = migrations
+          .filter((migration) => applied.has(migration.version))
+          .reverse()
+          .slice(0, steps);
+        for (const migration of toRevert) {
+          console.log(
+            `⬇️  Reverting migration ${migration.version}_${migration.name}`,
+          );
+          await runMigration(connection, migration, "down");
+          await connection.execute(
+            "DELETE FROM schema_migrations WHERE version = ?",
+            [migration.version],
+          );
+        }
+      }
+    } finally {
+      await connection.query("SELECT RELEASE_LOCK(?)", [LOCK_NAME]);
+    }
+  } finally {
+    connection.release();
+  }
+};
+
+export const getMigrationStatus = async () => {
+  const connection = await pool.getConnection();
+  try {
+    const applied = await getAppliedVersions(connection);
+    return loadMigrations().map(({ version, name }) => ({
+      version,
+      name,
+      applied: applied.has(version),
+    }));
+  } finally {
+    connection.release();
+  }
+};
+
+// CLI: node src/db/migrate.js [up | down [steps] | status]
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const [command = "up", steps = "1"] = process.argv.slice(2);
+
+  try {
+    if (command === "status") {
+      for (const migration of await getMigrationStatus()) {
+        console.log(
+          `${migration.applied ? "✅" : "⏳"} ${migration.version}_${migration.name}`,
+        );
+      }
+    } else if (command === "up" || command === "down") {
+      await migrate({ direction: command, steps: parseInt(steps) || 1 });
+      console.log("✅ Migrations complete");
+    } else {
+      console.error(`Unknown command "${command}", use up, down or status`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("❌ Migration failed:", error.message);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
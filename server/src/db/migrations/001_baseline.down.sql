@@ -0,0 +1,8 @@
+-- Drops every table, children first
+DROP TABLE IF EXISTS exchange_rates;
+DROP TABLE IF EXISTS maintenance_reminders;
+DROP TABLE IF EXISTS maintenance_entries;
+DROP TABLE IF EXISTS device_tokens;
+DROP TABLE IF EXISTS fuel_entries;
+DROP TABLE IF EXISTS vehicles;
+DROP TABLE IF EXISTS users;
@@ -0,0 +1,144 @@
+-- Baseline: the schema as it stood when migrations were introduced.
+-- Tables are created only if missing, so databases set up from the old
+-- schema.sql adopt it as-is; 002 fills in the columns they may lack.
+
+-- Users table (Google OAuth data)
+CREATE TABLE IF NOT EXISTS users (
+    id VARCHAR(36) PRIMARY KEY,
+    google_id VARCHAR(255) UNIQUE NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    name VARCHAR(255),
+    avatar_url TEXT,
+    -- Display currency, any ISO 4217 code with ECB rates
+    currency CHAR(3) DEFAULT 'CZK',
+    unit_system ENUM('metric','imperial') DEFAULT 'metric',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    INDEX idx_google_id (google_id),
+    INDEX idx_email (email)
+);
+
+-- Vehicles table
+CREATE TABLE IF NOT EXISTS vehicles (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(36) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    license_plate VARCHAR(20),
+    fuel_type ENUM('petrol', 'diesel', 'lpg', 'electric', 'hybrid') DEFAULT 'petrol',
+    brand VARCHAR(100),
+    model VARCHAR(100),
+    year INT,
+    engine VARCHAR(100),
+    engine_power VARCHAR(50),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_user_id (user_id)
+);
+
+-- Fuel entries table
+CREATE TABLE IF NOT EXISTS fuel_entries (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(36) NOT NULL,
+    vehicle_id VARCHAR(36),
+    station_name VARCHAR(255),
+    station_address VARCHAR(500),
+    station_lat DECIMAL(10, 8),
+    station_lng DECIMAL(11, 8),
+    date DATE NOT NULL,
+    time TIME,
+    -- For EV charging sessions these hold price per kWh and kWh charged
+    price_per_liter DECIMAL(10, 2),
+    total_liters DECIMAL(10, 2),
+    energy_unit ENUM('L', 'kWh') NOT NULL DEFAULT 'L',
+    total_cost DECIMAL(10, 2) NOT NULL,
+    -- Amounts above are in CZK. Receipts paid in another currency keep the
+    -- amounts as paid and the CZK rate on the entry date.
+    currency CHAR(3) NOT NULL DEFAULT 'CZK',
+    original_price_per_liter DECIMAL(10, 3),
+    original_total_cost DECIMAL(10, 2),
+    exchange_rate DECIMAL(16, 8) NOT NULL DEFAULT 1,
+    mileage INT,
+    full_tank BOOLEAN NOT NULL DEFAULT TRUE,
+    missed_fillup BOOLEAN NOT NULL DEFAULT FALSE,
+    charger_type ENUM('AC', 'DC'),
+    charging_power_kw DECIMAL(6, 1),
+    soc_start TINYINT UNSIGNED,
+    soc_end TINYINT UNSIGNED,
+    receipt_image_url TEXT,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE SET NULL,
+    INDEX idx_user_id (user_id),
+    INDEX idx_vehicle_id (vehicle_id),
+    INDEX idx_date (date)
+);
+
+-- Device tokens for remember me functionality
+CREATE TABLE IF NOT EXISTS device_tokens (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(36) NOT NULL,
+    device_id VARCHAR(255) NOT NULL,
+    refresh_token TEXT NOT NULL,
+    device_name VARCHAR(255),
+    last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_user_id (user_id),
+    UNIQUE INDEX idx_device_id (device_id)
+);
+
+-- Maintenance log (service, tyres, inspections, insurance, repairs)
+CREATE TABLE IF NOT EXISTS maintenance_entries (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(36) NOT NULL,
+    vehicle_id VARCHAR(36) NOT NULL,
+    category ENUM('oil_change', 'tyres', 'inspection', 'insurance', 'repair', 'other') DEFAULT 'other',
+    cost DECIMAL(10, 2) NOT NULL,
+    mileage INT,
+    date DATE NOT NULL,
+    notes TEXT,
+    receipt_image_url TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+    INDEX idx_user_id (user_id),
+    INDEX idx_vehicle_id (vehicle_id),
+    INDEX idx_date (date)
+);
+
+-- Recurring maintenance reminders ("oil every 15,000 km or 12 months",
+-- "vignette expires 2027-02-28"). Due state is computed on read from the
+-- latest odometer in fuel_entries.
+CREATE TABLE IF NOT EXISTS maintenance_reminders (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(36) NOT NULL,
+    vehicle_id VARCHAR(36) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    interval_km INT,
+    interval_months INT,
+    due_date DATE,
+    last_done_date DATE,
+    last_done_mileage INT,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+    INDEX idx_user_id (user_id),
+    INDEX idx_vehicle_id (vehicle_id)
+);
+
+-- Daily ECB reference rates: 1 EUR in each currency. Only business days are
+-- stored; lookups carry the last published rate forward. Filled on demand
+-- from the configured provider (routes/exchange.js).
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    rate_date DATE NOT NULL,
+    currency CHAR(3) NOT NULL,
+    rate DECIMAL(18, 8) NOT NULL,
+    PRIMARY KEY (rate_date, currency),
+    INDEX idx_currency_date (currency, rate_date)
+);
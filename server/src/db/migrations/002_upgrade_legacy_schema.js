@@ -0,0 +1,72 @@
+// Databases set up from an older schema.sql have the baseline tables but not
+// every column added to them since, and still store users.currency as a
+// CZK/USD enum. Bring them in line with the baseline; on a fresh install this
+// finds nothing to do.
+
+const MISSING_COLUMNS = [
+  ["users", "currency", "CHAR(3) DEFAULT 'CZK' AFTER avatar_url"],
+  [
+    "users",
+    "unit_system",
+    "ENUM('metric','imperial') DEFAULT 'metric' AFTER currency",
+  ],
+  [
+    "fuel_entries",
+    "energy_unit",
+    "ENUM('L', 'kWh') NOT NULL DEFAULT 'L' AFTER total_liters",
+  ],
+  [
+    "fuel_entries",
+    "currency",
+    "CHAR(3) NOT NULL DEFAULT 'CZK' AFTER total_cost",
+  ],
+  ["fuel_entries", "original_price_per_liter", "DECIMAL(10, 3) AFTER currency"],
+  [
+    "fuel_entries",
+    "original_total_cost",
+    "DECIMAL(10, 2) AFTER original_price_per_liter",
+  ],
+  [
+    "fuel_entries",
+    "exchange_rate",
+    "DECIMAL(16, 8) NOT NULL DEFAULT 1 AFTER original_total_cost",
+  ],
+  ["fuel_entries", "full_tank", "BOOLEAN NOT NULL DEFAULT TRUE AFTER mileage"],
+  [
+    "fuel_entries",
+    "missed_fillup",
+    "BOOLEAN NOT NULL DEFAULT FALSE AFTER full_tank",
+  ],
+  ["fuel_entries", "charger_type", "ENUM('AC', 'DC') AFTER missed_fillup"],
+  ["fuel_entries", "charging_power_kw", "DECIMAL(6, 1) AFTER charger_type"],
+  ["fuel_entries", "soc_start", "TINYINT UNSIGNED AFTER charging_power_kw"],
+  ["fuel_entries", "soc_end", "TINYINT UNSIGNED AFTER soc_start"],
+];
+
+const getColumnType = async (connection, table, column) => {
+  const [rows] = await connection.execute(
+    `SELECT DATA_TYPE AS type FROM information_schema.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+    [table, column],
+  );
+  return rows[0]?.type ?? null;
+};
+
+export const up = async (connection) => {
+  for (const [table, column, definition] of MISSING_COLUMNS) {
+    if (!(await getColumnType(connection, table, column))) {
+      await connection.query(
+        `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
+      );
+    }
+  }
+
+  if ((await getColumnType(connection, "users", "currency")) === "enum") {
+    await connection.query(
+      "ALTER TABLE users MODIFY COLUMN currency CHAR(3) DEFAULT 'CZK'",
+    );
+  }
+};
+
+// Nothing to undo: the columns are part of the baseline schema
+export const down = async () => {};
@@ -0,0 +1,8 @@
+-- google_id becomes required again, so give guests a placeholder one
+UPDATE users SET google_id = CONCAT('guest_', id) WHERE google_id IS NULL;
+
+ALTER TABLE users
+    DROP INDEX idx_guest_device_id,
+    DROP COLUMN guest_device_id,
+    DROP COLUMN is_guest,
+    MODIFY COLUMN google_id VARCHAR(255) NOT NULL;
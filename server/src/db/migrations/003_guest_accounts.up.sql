@@ -0,0 +1,15 @@
+-- Guests get their own account per device instead of sharing one. A guest has
+-- no Google identity until it is upgraded (POST /api/auth/guest/upgrade).
+ALTER TABLE users
+    MODIFY COLUMN google_id VARCHAR(255) NULL,
+    ADD COLUMN is_guest BOOLEAN NOT NULL DEFAULT FALSE AFTER unit_system,
+    ADD COLUMN guest_device_id VARCHAR(255) NULL AFTER is_guest,
+    ADD UNIQUE INDEX idx_guest_device_id (guest_device_id);
+
+-- The old shared guest account mixes data from every guest, so it cannot be
+-- handed to any one device. Keep the data but sign every device out of it.
+UPDATE users SET is_guest = TRUE WHERE google_id = 'guest_user_123';
+
+DELETE device_tokens FROM device_tokens
+    JOIN users ON users.id = device_tokens.user_id
+    WHERE users.google_id = 'guest_user_123';
@@ -0,0 +1,10 @@
+-- Hashed tokens cannot be turned back into JWTs, so every device signs in again
+DELETE FROM device_tokens;
+
+ALTER TABLE device_tokens
+    DROP INDEX idx_previous_token_hash,
+    DROP INDEX idx_refresh_token_hash,
+    DROP COLUMN expires_at,
+    DROP COLUMN previous_token_hash,
+    DROP COLUMN refresh_token_hash,
+    ADD COLUMN refresh_token TEXT NOT NULL AFTER device_id;
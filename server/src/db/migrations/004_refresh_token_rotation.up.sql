@@ -0,0 +1,13 @@
+-- Refresh tokens become opaque random strings, stored only as SHA-256 hashes
+-- and replaced on every refresh. The hash before the current one is kept so a
+-- rotated-out token that comes back can be spotted and the device revoked.
+-- Sessions still holding the old JWT refresh tokens have to sign in again.
+DELETE FROM device_tokens;
+
+ALTER TABLE device_tokens
+    DROP COLUMN refresh_token,
+    ADD COLUMN refresh_token_hash CHAR(64) NOT NULL AFTER device_id,
+    ADD COLUMN previous_token_hash CHAR(64) NULL AFTER refresh_token_hash,
+    ADD COLUMN expires_at DATETIME NOT NULL AFTER device_name,
+    ADD UNIQUE INDEX idx_refresh_token_hash (refresh_token_hash),
+    ADD INDEX idx_previous_token_hash (previous_token_hash);
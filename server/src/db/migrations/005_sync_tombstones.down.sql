@@ -0,0 +1,5 @@
+ALTER TABLE fuel_entries DROP INDEX idx_user_updated_at;
+
+ALTER TABLE vehicles DROP INDEX idx_user_updated_at;
+
+DROP TABLE sync_tombstones;
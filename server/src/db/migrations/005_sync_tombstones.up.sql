@@ -0,0 +1,15 @@
+-- Deleted vehicles and fuel entries leave a tombstone behind so GET /api/sync
+-- can tell clients what to drop. Changed rows are found by updated_at.
+CREATE TABLE sync_tombstones (
+    id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    user_id VARCHAR(36) NOT NULL,
+    record_type ENUM('vehicle', 'fuel_entry') NOT NULL,
+    record_id VARCHAR(36) NOT NULL,
+    deleted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_user_deleted_at (user_id, deleted_at)
+);
+
+ALTER TABLE vehicles ADD INDEX idx_user_updated_at (user_id, updated_at);
+
+ALTER TABLE fuel_entries ADD INDEX idx_user_updated_at (user_id, updated_at);
@@ -0,0 +1,15 @@
+-- Fuel spending budgets per month or year. Without a vehicle a budget covers
+-- all of the user's vehicles. Amounts are in CZK like fuel_entries.total_cost;
+-- progress is computed on read by GET /api/entries/stats.
+CREATE TABLE budgets (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(36) NOT NULL,
+    vehicle_id VARCHAR(36) NULL,
+    period ENUM('month', 'year') NOT NULL,
+    amount DECIMAL(10, 2) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE,
+    INDEX idx_user_period (user_id, period)
+);
@@ -0,0 +1,6 @@
+-- A device id only finds a guest account; getting back into it takes the
+-- secret the server handed out when the account was created, stored hashed.
+-- Guests from before this have no secret and are kept for their devices'
+-- current sessions, but a signed-out one cannot be entered again.
+ALTER TABLE users
+    ADD COLUMN guest_secret_hash CHAR(64) NULL AFTER guest_device_id;
@@ -0,0 +1,24 @@
+-- Receipt photos are stored under the id of the account that uploaded them.
+-- A guest merged into an existing account is deleted, so the account keeps
+-- the guest's id to go on serving and cleaning up those photos.
+CREATE TABLE merged_guests (
+    guest_id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(36) NOT NULL,
+    merged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_user_id (user_id)
+);
+
+-- Guests merged before this: entries holding photos stored under an id that
+-- no longer has an account
+INSERT IGNORE INTO merged_guests (guest_id, user_id)
+SELECT owner_id, user_id
+FROM (
+    SELECT user_id, SUBSTRING_INDEX(SUBSTRING(receipt_image_url, 22), '/', 1) AS owner_id
+    FROM fuel_entries WHERE receipt_image_url LIKE '/api/receipts/images/%'
+    UNION
+    SELECT user_id, SUBSTRING_INDEX(SUBSTRING(receipt_image_url, 22), '/', 1)
+    FROM maintenance_entries WHERE receipt_image_url LIKE '/api/receipts/images/%'
+) photos
+WHERE owner_id <> user_id
+    AND NOT EXISTS (SELECT 1 FROM users WHERE users.id = photos.owner_id);
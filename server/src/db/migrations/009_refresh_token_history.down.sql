@@ -0,0 +1,13 @@
+ALTER TABLE device_tokens
+    ADD COLUMN previous_token_hash CHAR(64) NULL AFTER refresh_token_hash,
+    ADD INDEX idx_previous_token_hash (previous_token_hash);
+
+-- Only the latest superseded token fits back in
+UPDATE device_tokens SET previous_token_hash = (
+    SELECT token_hash FROM refresh_token_history
+    WHERE refresh_token_history.device_token_id = device_tokens.id
+    ORDER BY superseded_at DESC
+    LIMIT 1
+);
+
+DROP TABLE refresh_token_history;
@@ -0,0 +1,18 @@
+-- Every refresh token a device has been through, not just the one before the
+-- current, so any of them coming back revokes the device. Hashes are pruned
+-- once the token would have expired anyway.
+CREATE TABLE refresh_token_history (
+    token_hash CHAR(64) PRIMARY KEY,
+    device_token_id VARCHAR(36) NOT NULL,
+    superseded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (device_token_id) REFERENCES device_tokens(id) ON DELETE CASCADE,
+    INDEX idx_device_superseded_at (device_token_id, superseded_at)
+);
+
+INSERT INTO refresh_token_history (token_hash, device_token_id)
+SELECT previous_token_hash, id FROM device_tokens
+WHERE previous_token_hash IS NOT NULL;
+
+ALTER TABLE device_tokens
+    DROP INDEX idx_previous_token_hash,
+    DROP COLUMN previous_token_hash;
@@ -0,0 +1,10 @@
+-- Short-lived, single-use nonces that stand in for a guest session in the
+-- OAuth state of GET /api/auth/google/start, so no token of the guest leaves
+-- the app. Stored as SHA-256 hashes like refresh tokens.
+CREATE TABLE guest_upgrade_nonces (
+    nonce_hash CHAR(64) PRIMARY KEY,
+    user_id VARCHAR(36) NOT NULL,
+    expires_at DATETIME NOT NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_expires_at (expires_at)
+);
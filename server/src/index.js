@@ -3,15 +3,20 @@ import cors from "cors";
 import dotenv from "dotenv";
 import qrcode from "qrcode";
 import { testConnection } from "./db/connection.js";
+import { migrate } from "./db/migrate.js";
 
 // Import routes
 import authRoutes from "./routes/auth.js";
 import usersRoutes from "./routes/users.js";
 import vehiclesRoutes from "./routes/vehicles.js";
+import maintenanceRoutes from "./routes/maintenance.js";
+import remindersRoutes from "./routes/reminders.js";
 import entriesRoutes from "./routes/entries.js";
 import receiptsRoutes from "./routes/receipts.js";
 import stationsRoutes from "./routes/stations.js";
-import exchangeRoutes from "./routes/exchange.js";
+import exchangeRoutes, { refreshLatestRates } from "./routes/exchange.js";
+import syncRoutes from "./routes/sync.js";
+import budgetsRoutes from "./routes/budgets.js";
 
 // Load environment variables
 dotenv.config();
@@ -33,10 +38,14 @@ app.get("/health", (req, res) => {
 app.use("/api/auth", authRoutes);
 app.use("/api/users", usersRoutes);
 app.use("/api/vehicles", vehiclesRoutes);
+app.use("/api/vehicles/:vehicleId/maintenance", maintenanceRoutes);
+app.use("/api/vehicles/:vehicleId/reminders", remindersRoutes);
 app.use("/api/entries", entriesRoutes);
 app.use("/api/receipts", receiptsRoutes);
 app.use("/api/stations", stationsRoutes);
 app.use("/api/exchange-rates", exchangeRoutes);
+app.use("/api/sync", syncRoutes);
+app.use("/api/budgets", budgetsRoutes);
 
 // QR Code route for Expo
 app.get("/qr", async (req, res) => {
@@ -219,6 +228,18 @@ const startServer = async () => {
     console.warn(
       "⚠️  Starting without database connection. Some features may not work.",
     );
+  } else if (process.env.MIGRATE_ON_STARTUP !== "false") {
+    try {
+      await migrate();
+    } catch (error) {
+      console.error("❌ Database migration failed:", error);
+      process.exit(1);
+    }
+  }
+
+  // Needs the exchange_rates table, so only once migrations have run
+  if (dbConnected) {
+    refreshLatestRates();
   }
 
   app.listen(PORT, () => {
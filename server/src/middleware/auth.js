@@ -1,9 +1,24 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-change-me';
+// Access tokens are short-lived JWTs signed with their own key. Refresh
+// tokens are opaque and checked against device_tokens, so revoking a device
+// ends its session once the current access token runs out.
+// JWT_SECRET is the old name of ACCESS_TOKEN_SECRET and still works for now.
+const ACCESS_TOKEN_SECRET =
+  process.env.ACCESS_TOKEN_SECRET || process.env.JWT_SECRET;
+const ACCESS_TOKEN_TTL = '15m';
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+if (!ACCESS_TOKEN_SECRET) {
+  throw new Error('ACCESS_TOKEN_SECRET is not set');
+}
+if (!process.env.ACCESS_TOKEN_SECRET) {
+  console.warn('JWT_SECRET is deprecated, rename it to ACCESS_TOKEN_SECRET');
+}
 
 export const authMiddleware = async (req, res, next) => {
   try {
@@ -15,7 +30,7 @@ export const authMiddleware = async (req, res, next) => {
 
     const token = authHeader.split(' ')[1];
     
-    const decoded = jwt.verify(token, JWT_SECRET);
+    const decoded = jwt.verify(token, ACCESS_TOKEN_SECRET);
     req.user = decoded;
     next();
   } catch (error) {
@@ -29,27 +44,16 @@ export const authMiddleware = async (req, res, next) => {
 export const generateToken = (userId, email) => {
   return jwt.sign(
     { userId, email },
-    JWT_SECRET,
-    { expiresIn: '7d' }
+    ACCESS_TOKEN_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL }
   );
 };
 
-export const generateRefreshToken = (userId) => {
-  return jwt.sign(
-    { userId, type: 'refresh' },
-    JWT_SECRET,
-    { expiresIn: '30d' }
-  );
+// Refresh tokens are random strings; only their hash is stored
+export const generateRefreshToken = () => {
+  return crypto.randomBytes(32).toString('base64url');
 };
 
-export const verifyRefreshToken = (token) => {
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET);
-    if (decoded.type !== 'refresh') {
-      throw new Error('Invalid token type');
-    }
-    return decoded;
-  } catch (error) {
-    return null;
-  }
+export const hashRefreshToken = (token) => {
+  return crypto.createHash('sha256').update(String(token)).digest('hex');
 };
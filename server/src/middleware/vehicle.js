@@ -0,0 +1,22 @@
+import pool from "../db/connection.js";
+
+// Guards routers mounted under /api/vehicles/:vehicleId so every route is
+// scoped to a vehicle the authenticated user owns. Requires authMiddleware
+// to run first and the router to be created with mergeParams.
+export const vehicleOwnerMiddleware = async (req, res, next) => {
+  try {
+    const [vehicles] = await pool.execute(
+      "SELECT id FROM vehicles WHERE id = ? AND user_id = ?",
+      [req.params.vehicleId, req.user.userId],
+    );
+
+    if (vehicles.length === 0) {
+      return res.status(404).json({ error: "Vehicle not found" });
+    }
+
+    next();
+  } catch (error) {
+    console.error("Vehicle lookup error:", error);
+    res.status(500).json({ error: "Failed to get vehicle" });
+  }
+};
@@ -4,9 +4,11 @@ import { v4 as uuidv4 } from "uuid";
 import dotenv from "dotenv";
 import pool from "../db/connection.js";
 import {
+  authMiddleware,
   generateToken,
   generateRefreshToken,
-  verifyRefreshToken,
+  hashRefreshToken,
+  REFRESH_TOKEN_TTL_DAYS,
 } from "../middleware/auth.js";
 
 dotenv.config();
@@ -53,11 +55,170 @@ const getBaseUrl = (req) => {
   return `${protocol}://${req.get("host")}`;
 };
 
+// Google profile behind an OAuth access token, or null when Google rejects it
+const fetchGoogleProfile = async (accessToken) => {
+  try {
+    const response = await fetch(
+      "https://www.googleapis.com/oauth2/v2/userinfo",
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      },
+    );
+    if (!response.ok) return null;
+    const { id, email, name, picture } = await response.json();
+    return id && email ? { googleId: id, email, name, picture } : null;
+  } catch (error) {
+    console.error("Google userinfo request failed:", error);
+    return null;
+  }
+};
+
+// Start a session on the device and return its refresh token. A device holds
+// one session at a time, so signing in again (or upgrading a guest) moves it
+// to the new account and invalidates the previous refresh token. Sign-ins
+// without a device get no refresh token and end with the access token.
+const storeDeviceToken = async (userId, deviceId, deviceName) => {
+  const tokenId = uuidv4();
+  const refreshToken = generateRefreshToken();
+  const tokenHash = hashRefreshToken(refreshToken);
+  // Tokens of the previous session are just invalid, not signs of reuse
+  await pool.execute(
+    `DELETE history FROM refresh_token_history history
+     JOIN device_tokens dt ON dt.id = history.device_token_id
+     WHERE dt.device_id = ?`,
+    [deviceId],
+  );
+  await pool.execute(
+    `INSERT INTO device_tokens (id, user_id, device_id, refresh_token_hash, device_name, expires_at)
+     VALUES (?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? DAY))
+     ON DUPLICATE KEY UPDATE user_id = VALUES(user_id),
+       refresh_token_hash = VALUES(refresh_token_hash),
+       expires_at = VALUES(expires_at), last_used_at = NOW()`,
+    [tokenId, userId, deviceId, tokenHash, deviceName, REFRESH_TOKEN_TTL_DAYS],
+  );
+  return refreshToken;
+};
+
+// Everything a user owns besides the users row itself
+const USER_DATA_TABLES = [
+  "vehicles",
+  "fuel_entries",
+  "maintenance_entries",
+  "maintenance_reminders",
+  "budgets",
+];
+
+/**
+ * Turn a guest account into the Google account behind `profile`.
+ * If that Google user already exists, the guest's vehicles, entries,
+ * reminders and budgets move over to it and the guest account is deleted;
+ * otherwise the guest account itself becomes the Google account.
+ * Returns the resulting users row, or null when `guestId` is not a guest.
+ */
+const upgradeGuest = async (guestId, { googleId, email, name, picture }) => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const [guests] = await connection.execute(
+      "SELECT id FROM users WHERE id = ? AND is_guest = TRUE FOR UPDATE",
+      [guestId],
+    );
+    if (guests.length === 0) {
+      await connection.rollback();
+      return null;
+    }
+
+    const [existingUsers] = await connection.execute(
+      "SELECT id FROM users WHERE google_id = ? FOR UPDATE",
+      [googleId],
+    );
+
+    let userId;
+    if (existingUsers.length > 0) {
+      userId = existingUsers[0].id;
+      // One budget per period covers all vehicles; the account's own wins
+      await connection.execute(
+        `DELETE guest FROM budgets guest
+         JOIN budgets own ON own.user_id = ? AND own.vehicle_id IS NULL
+           AND own.period = guest.period
+         WHERE guest.user_id = ? AND guest.vehicle_id IS NULL`,
+        [existingUsers[0].id, guestId],
+      );
+      for (const table of USER_DATA_TABLES) {
+        await connection.execute(
+          `UPDATE ${table} SET user_id = ? WHERE user_id = ?`,
+          [userId, guestId],
+        );
+      }
+      await connection.execute(
+        "UPDATE users SET name = ?, avatar_url = ?, updated_at = NOW() WHERE id = ?",
+        [name, picture, userId],
+      );
+      // The guest's receipt photos stay stored under its id
+      await connection.execute(
+        "INSERT INTO merged_guests (guest_id, user_id) VALUES (?, ?)",
+        [guestId, userId],
+      );
+      // Also drops the guest's device tokens
+      await connection.execute("DELETE FROM users WHERE id = ?", [guestId]);
+    } else {
+      userId = guestId;
+      await connection.execute(
+        `UPDATE users SET google_id = ?, email = ?, name = ?, avatar_url = ?,
+         is_guest = FALSE, guest_device_id = NULL, guest_secret_hash = NULL,
+         updated_at = NOW()
+         WHERE id = ?`,
+        [googleId, email, name, picture, userId],
+      );
+    }
+
+    const [users] = await connection.execute(
+      "SELECT * FROM users WHERE id = ?",
+      [userId],
+    );
+    await connection.commit();
+    return users[0];
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+const UPGRADE_NONCE_TTL_MINUTES = 10;
+
+// The guest a nonce from POST /api/auth/guest/upgrade-nonce was issued to, or
+// null when it is unknown or expired. Each nonce works once.
+const consumeUpgradeNonce = async (nonce) => {
+  const nonceHash = hashRefreshToken(nonce);
+  const [nonces] = await pool.execute(
+    "SELECT user_id, expires_at > NOW() AS active FROM guest_upgrade_nonces WHERE nonce_hash = ?",
+    [nonceHash],
+  );
+  if (nonces.length === 0) return null;
+
+  // Of two callbacks with the same nonce, only the one deleting it wins
+  const [result] = await pool.execute(
+    "DELETE FROM guest_upgrade_nonces WHERE nonce_hash = ?",
+    [nonceHash],
+  );
+  return result.affectedRows > 0 && nonces[0].active ? nonces[0].user_id : null;
+};
+
 // GET /api/auth/google/start - Initiate OAuth flow (for Expo Go)
+// Pass a nonce from POST /api/auth/guest/upgrade-nonce as upgradeNonce to
+// upgrade that guest account
 router.get("/google/start", (req, res) => {
-  const { deviceId, deviceName, redirect } = req.query;
+  const { deviceId, deviceName, redirect, upgradeNonce } = req.query;
   const state = Buffer.from(
-    JSON.stringify({ deviceId, deviceName, redirect: redirect || "exp" }),
+    JSON.stringify({
+      deviceId,
+      deviceName,
+      redirect: redirect || "exp",
+      upgradeNonce,
+    }),
   ).toString("base64");
 
   const callbackUrl = `${getBaseUrl(req)}/api/auth/google/callback`;
@@ -78,7 +239,21 @@ router.get("/google/callback", async (req, res) => {
   try {
     const { code, state } = req.query;
     const stateData = JSON.parse(Buffer.from(state, "base64").toString());
-    const { deviceId, deviceName } = stateData;
+    const { deviceId, deviceName, upgradeNonce } = stateData;
+
+    // Signing in from a guest session upgrades that guest account. An expired
+    // or used nonce is refused: signing in without it would leave the guest's
+    // data behind.
+    const guestId = upgradeNonce
+      ? await consumeUpgradeNonce(upgradeNonce)
+      : null;
+    if (upgradeNonce && !guestId) {
+      const error = new Error(
+        "Your guest session has expired. Return to Tankuy and try again.",
+      );
+      error.status = 401;
+      throw error;
+    }
 
     const callbackUrl = `${getBaseUrl(req)}/api/auth/google/callback`;
     const { tokens } = await webClient.getToken({
@@ -97,53 +272,49 @@ router.get("/google/callback", async (req, res) => {
     const googleUser = await userInfoRes.json();
     const { id: googleId, email, name, picture } = googleUser;
 
-    // Check if user exists
-    const [existingUsers] = await pool.execute(
-      "SELECT * FROM users WHERE google_id = ?",
-      [googleId],
-    );
+    let user = guestId
+      ? await upgradeGuest(guestId, { googleId, email, name, picture })
+      : null;
 
-    let user;
-    if (existingUsers.length > 0) {
-      user = existingUsers[0];
-      await pool.execute(
-        "UPDATE users SET name = ?, avatar_url = ?, updated_at = NOW() WHERE id = ?",
-        [name, picture, user.id],
+    if (!user) {
+      // Check if user exists
+      const [existingUsers] = await pool.execute(
+        "SELECT * FROM users WHERE google_id = ?",
+        [googleId],
       );
-    } else {
-      const userId = uuidv4();
-      await pool.execute(
-        "INSERT INTO users (id, google_id, email, name, avatar_url) VALUES (?, ?, ?, ?, ?)",
-        [userId, googleId, email, name, picture],
-      );
-      user = {
-        id: userId,
-        google_id: googleId,
-        email,
-        name,
-        avatar_url: picture,
-      };
+
+      if (existingUsers.length > 0) {
+        user = existingUsers[0];
+        await pool.execute(
+          "UPDATE users SET name = ?, avatar_url = ?, updated_at = NOW() WHERE id = ?",
+          [name, picture, user.id],
+        );
+      } else {
+        const userId = uuidv4();
+        await pool.execute(
+          "INSERT INTO users (id, google_id, email, name, avatar_url) VALUES (?, ?, ?, ?, ?)",
+          [userId, googleId, email, name, picture],
+        );
+        user = {
+          id: userId,
+          google_id: googleId,
+          email,
+          name,
+          avatar_url: picture,
+        };
+      }
     }
 
     const accessToken = generateToken(user.id, email);
-    const refreshToken = generateRefreshToken(user.id);
 
-    if (deviceId) {
-      const tokenId = uuidv4();
-      await pool.execute(
-        `INSERT INTO device_tokens (id, user_id, device_id, refresh_token, device_name)
-         VALUES (?, ?, ?, ?, ?)
-         ON DUPLICATE KEY UPDATE refresh_token = ?, last_used_at = NOW()`,
-        [
-          tokenId,
+    // Store device token for remember me functionality
+    const refreshToken = deviceId
+      ? await storeDeviceToken(
           user.id,
           deviceId,
-          refreshToken,
           deviceName || "Unknown Device",
-          refreshToken,
-        ],
-      );
-    }
+        )
+      : null;
 
     // Return an HTML page that shows success and provides data to the app
     const userData = encodeURIComponent(
@@ -182,7 +353,7 @@ router.get("/google/callback", async (req, res) => {
     `);
   } catch (error) {
     console.error("OAuth callback error:", error);
-    res.status(500).send(`
+    res.status(error.status || 500).send(`
       <!DOCTYPE html>
       <html><head><title>Sign In Failed</title>
       <meta name="viewport" content="width=device-width, initial-scale=1">
@@ -249,25 +420,15 @@ router.post("/google", async (req, res) => {
 
     // Generate tokens
     const accessToken = generateToken(user.id, email);
-    const refreshToken = generateRefreshToken(user.id);
 
     // Store device token for remember me functionality
-    if (deviceId) {
-      const tokenId = uuidv4();
-      await pool.execute(
-        `INSERT INTO device_tokens (id, user_id, device_id, refresh_token, device_name)
-         VALUES (?, ?, ?, ?, ?)
-         ON DUPLICATE KEY UPDATE refresh_token = ?, last_used_at = NOW()`,
-        [
-          tokenId,
+    const refreshToken = deviceId
+      ? await storeDeviceToken(
           user.id,
           deviceId,
-          refreshToken,
           deviceName || "Unknown Device",
-          refreshToken,
-        ],
-      );
-    }
+        )
+      : null;
 
     res.json({
       user: {
@@ -286,29 +447,55 @@ router.post("/google", async (req, res) => {
 });
 
 // POST /api/auth/guest - Guest Login (Bypass Google)
+// Every device gets its own guest account. A new one comes with a guestSecret
+// that the device sends along to find its account again after logging out;
+// the device id alone only looks it up. POST /api/auth/guest/upgrade later
+// ties the account to a Google account.
 router.post("/guest", async (req, res) => {
   try {
-    const { deviceId, deviceName } = req.body;
-    const guestId = "guest_user_123";
+    const { deviceId, deviceName, guestSecret } = req.body;
+
+    if (!deviceId) {
+      return res.status(400).json({ error: "Device ID is required" });
+    }
+
     const guestEmail = "guest@tankuy.app";
     const guestName = "Guest User";
     const guestPicture =
       "https://ui-avatars.com/api/?name=Guest+User&background=random";
 
-    // Check if guest user exists
+    // Check if this device already has a guest account
     const [existingUsers] = await pool.execute(
-      "SELECT * FROM users WHERE google_id = ?",
-      [guestId],
+      "SELECT * FROM users WHERE guest_device_id = ? AND is_guest = TRUE",
+      [deviceId],
     );
 
     let user;
+    let newGuestSecret = null;
     if (existingUsers.length > 0) {
       user = existingUsers[0];
+      if (
+        !guestSecret ||
+        !user.guest_secret_hash ||
+        hashRefreshToken(guestSecret) !== user.guest_secret_hash
+      ) {
+        return res
+          .status(409)
+          .json({ error: "Device ID belongs to another guest account" });
+      }
     } else {
       const userId = uuidv4();
+      newGuestSecret = generateRefreshToken();
       await pool.execute(
-        "INSERT INTO users (id, google_id, email, name, avatar_url) VALUES (?, ?, ?, ?, ?)",
-        [userId, guestId, guestEmail, guestName, guestPicture],
+        "INSERT INTO users (id, email, name, avatar_url, is_guest, guest_device_id, guest_secret_hash) VALUES (?, ?, ?, ?, TRUE, ?, ?)",
+        [
+          userId,
+          guestEmail,
+          guestName,
+          guestPicture,
+          deviceId,
+          hashRefreshToken(newGuestSecret),
+        ],
       );
       user = {
         id: userId,
@@ -318,25 +505,106 @@ router.post("/guest", async (req, res) => {
       };
     }
 
-    const accessToken = generateToken(user.id, guestEmail);
-    const refreshToken = generateRefreshToken(user.id);
+    const accessToken = generateToken(user.id, user.email);
+    const refreshToken = await storeDeviceToken(
+      user.id,
+      deviceId,
+      deviceName || "Guest Session",
+    );
 
-    if (deviceId) {
-      const tokenId = uuidv4();
-      await pool.execute(
-        `INSERT INTO device_tokens (id, user_id, device_id, refresh_token, device_name)
-          VALUES (?, ?, ?, ?, ?)
-          ON DUPLICATE KEY UPDATE refresh_token = ?, last_used_at = NOW()`,
-        [
-          tokenId,
+    res.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        avatarUrl: user.avatar_url,
+        isGuest: true,
+      },
+      accessToken,
+      refreshToken,
+      ...(newGuestSecret && { guestSecret: newGuestSecret }),
+    });
+  } catch (error) {
+    console.error("Guest auth error:", error);
+    res.status(500).json({ error: "Guest login failed" });
+  }
+});
+
+// POST /api/auth/guest/upgrade-nonce - A nonce that lets the Expo Go OAuth
+// flow (GET /api/auth/google/start) upgrade the signed-in guest
+router.post("/guest/upgrade-nonce", authMiddleware, async (req, res) => {
+  try {
+    const [users] = await pool.execute(
+      "SELECT id FROM users WHERE id = ? AND is_guest = TRUE",
+      [req.user.userId],
+    );
+    if (users.length === 0) {
+      return res.status(400).json({ error: "Not a guest account" });
+    }
+
+    await pool.execute(
+      "DELETE FROM guest_upgrade_nonces WHERE expires_at <= NOW()",
+    );
+    const nonce = generateRefreshToken();
+    await pool.execute(
+      `INSERT INTO guest_upgrade_nonces (nonce_hash, user_id, expires_at)
+       VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE))`,
+      [hashRefreshToken(nonce), req.user.userId, UPGRADE_NONCE_TTL_MINUTES],
+    );
+
+    res.json({ nonce });
+  } catch (error) {
+    console.error("Upgrade nonce error:", error);
+    res.status(500).json({ error: "Failed to start the upgrade" });
+  }
+});
+
+// POST /api/auth/guest/upgrade - Link the signed-in guest to a Google account
+// Takes a Google ID token (native) or OAuth access token (web). Data from the
+// guest account is merged into the Google account if that already exists.
+router.post("/guest/upgrade", authMiddleware, async (req, res) => {
+  try {
+    const { idToken, platform, googleAccessToken, deviceId, deviceName } =
+      req.body;
+
+    if (!idToken && !googleAccessToken) {
+      return res
+        .status(400)
+        .json({ error: "Google ID token or access token is required" });
+    }
+
+    let profile = null;
+    if (idToken) {
+      const googleUser = await verifyGoogleToken(idToken, platform);
+      if (googleUser) {
+        const { sub: googleId, email, name, picture } = googleUser;
+        profile = { googleId, email, name, picture };
+      }
+    } else {
+      profile = await fetchGoogleProfile(googleAccessToken);
+    }
+
+    if (!profile) {
+      return res.status(401).json({ error: "Invalid Google token" });
+    }
+
+    const user = await upgradeGuest(req.user.userId, profile);
+    if (!user) {
+      return res
+        .status(400)
+        .json({ error: "Only guest accounts can be upgraded" });
+    }
+
+    const accessToken = generateToken(user.id, user.email);
+
+    // Store device token for remember me functionality
+    const refreshToken = deviceId
+      ? await storeDeviceToken(
           user.id,
           deviceId,
-          refreshToken,
-          deviceName || "Guest Session",
-          refreshToken,
-        ],
-      );
-    }
+          deviceName || "Unknown Device",
+        )
+      : null;
 
     res.json({
       user: {
@@ -344,13 +612,14 @@ router.post("/guest", async (req, res) => {
         email: user.email,
         name: user.name,
         avatarUrl: user.avatar_url,
+        isGuest: false,
       },
       accessToken,
       refreshToken,
     });
   } catch (error) {
-    console.error("Guest auth error:", error);
-    res.status(500).json({ error: "Guest login failed" });
+    console.error("Guest upgrade error:", error);
+    res.status(500).json({ error: "Failed to upgrade guest account" });
   }
 });
 
@@ -410,25 +679,11 @@ router.post("/google/web", async (req, res) => {
 
     // Generate tokens
     const accessToken = generateToken(user.id, email);
-    const refreshToken = generateRefreshToken(user.id);
 
     // Store device token for remember me functionality
-    if (deviceId) {
-      const tokenId = uuidv4();
-      await pool.execute(
-        `INSERT INTO device_tokens (id, user_id, device_id, refresh_token, device_name)
-         VALUES (?, ?, ?, ?, ?)
-         ON DUPLICATE KEY UPDATE refresh_token = ?, last_used_at = NOW()`,
-        [
-          tokenId,
-          user.id,
-          deviceId,
-          refreshToken,
-          deviceName || "Web Browser",
-          refreshToken,
-        ],
-      );
-    }
+    const refreshToken = deviceId
+      ? await storeDeviceToken(user.id, deviceId, deviceName || "Web Browser")
+      : null;
 
     res.json({
       user: {
@@ -447,6 +702,9 @@ router.post("/google/web", async (req, res) => {
 });
 
 // POST /api/auth/refresh - Refresh access token
+// Every refresh replaces the refresh token. Presenting one that was already
+// replaced, however long ago, means two parties hold it, so the device is
+// signed out entirely.
 router.post("/refresh", async (req, res) => {
   try {
     const { refreshToken, deviceId } = req.body;
@@ -455,37 +713,94 @@ router.post("/refresh", async (req, res) => {
       return res.status(400).json({ error: "Refresh token is required" });
     }
 
-    // Verify refresh token
-    const decoded = verifyRefreshToken(refreshToken);
-    if (!decoded) {
-      return res.status(401).json({ error: "Invalid refresh token" });
-    }
-
-    // Check if device token is valid
+    const tokenHash = hashRefreshToken(refreshToken);
     const [deviceTokens] = await pool.execute(
-      "SELECT dt.*, u.email FROM device_tokens dt JOIN users u ON dt.user_id = u.id WHERE dt.refresh_token = ? AND dt.device_id = ?",
-      [refreshToken, deviceId],
+      `SELECT dt.*, u.email, dt.expires_at > NOW() AS active
+       FROM device_tokens dt JOIN users u ON dt.user_id = u.id
+       WHERE dt.refresh_token_hash = ?`,
+      [tokenHash],
     );
 
     if (deviceTokens.length === 0) {
-      return res.status(401).json({ error: "Device not recognized" });
+      const [superseded] = await pool.execute(
+        "SELECT device_token_id FROM refresh_token_history WHERE token_hash = ?",
+        [tokenHash],
+      );
+      if (superseded.length === 0) {
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      console.warn(
+        `Refresh token reuse on device token ${superseded[0].device_token_id}, revoking it`,
+      );
+      // Takes its token history along
+      await pool.execute("DELETE FROM device_tokens WHERE id = ?", [
+        superseded[0].device_token_id,
+      ]);
+      return res.status(401).json({ error: "Refresh token reused" });
     }
 
     const deviceToken = deviceTokens[0];
 
+    if (deviceToken.device_id !== deviceId) {
+      return res.status(401).json({ error: "Device not recognized" });
+    }
+
+    if (!deviceToken.active) {
+      return res.status(401).json({ error: "Refresh token expired" });
+    }
+
+    // Rotate. Matching on the current hash makes a concurrent refresh with
+    // the same token lose instead of issuing a second token.
+    const newRefreshToken = generateRefreshToken();
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const [result] = await connection.execute(
+        `UPDATE device_tokens
+         SET refresh_token_hash = ?,
+           expires_at = DATE_ADD(NOW(), INTERVAL ? DAY), last_used_at = NOW()
+         WHERE id = ? AND refresh_token_hash = ?`,
+        [
+          hashRefreshToken(newRefreshToken),
+          REFRESH_TOKEN_TTL_DAYS,
+          deviceToken.id,
+          tokenHash,
+        ],
+      );
+
+      if (result.affectedRows === 0) {
+        await connection.rollback();
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      // Hashes older than a token's lifetime could not be used anyway
+      await connection.execute(
+        `DELETE FROM refresh_token_history
+         WHERE device_token_id = ? AND superseded_at < DATE_SUB(NOW(), INTERVAL ? DAY)`,
+        [deviceToken.id, REFRESH_TOKEN_TTL_DAYS],
+      );
+      await connection.execute(
+        "INSERT INTO refresh_token_history (token_hash, device_token_id) VALUES (?, ?)",
+        [tokenHash, deviceToken.id],
+      );
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
     // Generate new access token
     const newAccessToken = generateToken(
       deviceToken.user_id,
       deviceToken.email,
     );
 
-    // Update last used timestamp
-    await pool.execute(
-      "UPDATE device_tokens SET last_used_at = NOW() WHERE id = ?",
-      [deviceToken.id],
-    );
-
-    res.json({ accessToken: newAccessToken });
+    res.json({ accessToken: newAccessToken, refreshToken: newRefreshToken });
   } catch (error) {
     console.error("Token refresh error:", error);
     res.status(500).json({ error: "Token refresh failed" });
@@ -0,0 +1,190 @@
+import express from "express";
+import { v4 as uuidv4 } from "uuid";
+import pool from "../db/connection.js";
+import { authMiddleware } from "../middleware/auth.js";
+
+const router = express.Router();
+
+export const BUDGET_PERIODS = ["month", "year"];
+
+// All routes require authentication
+router.use(authMiddleware);
+
+const mapBudget = (row) => ({
+  id: row.id,
+  vehicleId: row.vehicle_id,
+  vehicleName: row.vehicle_name ?? null,
+  period: row.period,
+  amount: parseFloat(row.amount),
+});
+
+const validateBudget = ({ period, amount }) => {
+  if (!BUDGET_PERIODS.includes(period)) {
+    return `period must be one of ${BUDGET_PERIODS.join(", ")}`;
+  }
+  if (!(Number(amount) > 0)) {
+    return "amount must be a positive number";
+  }
+  return null;
+};
+
+// One budget per period for each vehicle, and one covering all vehicles
+const findConflictingBudget = async (userId, vehicleId, period, exceptId) => {
+  const [rows] = await pool.execute(
+    `SELECT id FROM budgets
+     WHERE user_id = ? AND vehicle_id <=> ? AND period = ? AND id != ?`,
+    [userId, vehicleId, period, exceptId ?? ""],
+  );
+  return rows.length > 0;
+};
+
+const ownsVehicle = async (userId, vehicleId) => {
+  const [vehicles] = await pool.execute(
+    "SELECT id FROM vehicles WHERE id = ? AND user_id = ?",
+    [vehicleId, userId],
+  );
+  return vehicles.length > 0;
+};
+
+const getBudget = async (id) => {
+  const [rows] = await pool.execute(
+    `SELECT b.*, v.name as vehicle_name
+     FROM budgets b
+     LEFT JOIN vehicles v ON b.vehicle_id = v.id
+     WHERE b.id = ?`,
+    [id],
+  );
+  return mapBudget(rows[0]);
+};
+
+// GET /api/budgets - List budgets
+router.get("/", async (req, res) => {
+  try {
+    const [rows] = await pool.execute(
+      `SELECT b.*, v.name as vehicle_name
+       FROM budgets b
+       LEFT JOIN vehicles v ON b.vehicle_id = v.id
+       WHERE b.user_id = ?
+       ORDER BY b.period ASC, b.vehicle_id IS NOT NULL, v.name ASC`,
+      [req.user.userId],
+    );
+
+    res.json(rows.map(mapBudget));
+  } catch (error) {
+    console.error("Get budgets error:", error);
+    res.status(500).json({ error: "Failed to get budgets" });
+  }
+});
+
+// POST /api/budgets - Create a budget
+// Body: { period: "month" | "year", amount (CZK), vehicleId? }
+router.post("/", async (req, res) => {
+  try {
+    const { period, amount } = req.body;
+    const vehicleId = req.body.vehicleId || null;
+
+    const validationError = validateBudget(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (vehicleId && !(await ownsVehicle(req.user.userId, vehicleId))) {
+      return res.status(404).json({ error: "Vehicle not found" });
+    }
+
+    if (await findConflictingBudget(req.user.userId, vehicleId, period)) {
+      return res
+        .status(409)
+        .json({ error: "A budget for this period already exists" });
+    }
+
+    const budgetId = uuidv4();
+
+    await pool.execute(
+      `INSERT INTO budgets (id, user_id, vehicle_id, period, amount)
+       VALUES (?, ?, ?, ?, ?)`,
+      [budgetId, req.user.userId, vehicleId, period, amount],
+    );
+
+    res.status(201).json(await getBudget(budgetId));
+  } catch (error) {
+    console.error("Add budget error:", error);
+    res.status(500).json({ error: "Failed to add budget" });
+  }
+});
+
+// PUT /api/budgets/:id - Update a budget
+router.put("/:id", async (req, res) => {
+  try {
+    const { period, amount } = req.body;
+    const vehicleId = req.body.vehicleId || null;
+
+    const validationError = validateBudget(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const [existing] = await pool.execute(
+      "SELECT id FROM budgets WHERE id = ? AND user_id = ?",
+      [req.params.id, req.user.userId],
+    );
+
+    if (existing.length === 0) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+
+    if (vehicleId && !(await ownsVehicle(req.user.userId, vehicleId))) {
+      return res.status(404).json({ error: "Vehicle not found" });
+    }
+
+    if (
+      await findConflictingBudget(
+        req.user.userId,
+        vehicleId,
+        period,
+        req.params.id,
+      )
+    ) {
+      return res
+        .status(409)
+        .json({ error: "A budget for this period already exists" });
+    }
+
+    await pool.execute(
+      `UPDATE budgets SET vehicle_id = ?, period = ?, amount = ?, updated_at = NOW()
+       WHERE id = ? AND user_id = ?`,
+      [vehicleId, period, amount, req.params.id, req.user.userId],
+    );
+
+    res.json(await getBudget(req.params.id));
+  } catch (error) {
+    console.error("Update budget error:", error);
+    res.status(500).json({ error: "Failed to update budget" });
+  }
+});
+
+// DELETE /api/budgets/:id - Delete a budget
+router.delete("/:id", async (req, res) => {
+  try {
+    const [existing] = await pool.execute(
+      "SELECT id FROM budgets WHERE id = ? AND user_id = ?",
+      [req.params.id, req.user.userId],
+    );
+
+    if (existing.length === 0) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+
+    await pool.execute("DELETE FROM budgets WHERE id = ? AND user_id = ?", [
+      req.params.id,
+      req.user.userId,
+    ]);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete budget error:", error);
+    res.status(500).json({ error: "Failed to delete budget" });
+  }
+});
+
+export default router;
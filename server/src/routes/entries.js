@@ -2,9 +2,266 @@ import express from "express";
 import { v4 as uuidv4 } from "uuid";
 import pool from "../db/connection.js";
 import { authMiddleware } from "../middleware/auth.js";
+import {
+  BASE_CURRENCY,
+  getRateOnDate,
+  getRatesForDates,
+  isSupportedCurrency,
+} from "./exchange.js";
+import { toCsvRow } from "../utils/csv.js";
+import { parseImportFile } from "../utils/fuelImport.js";
+import { recordTombstone } from "../utils/tombstones.js";
+import {
+  deleteUnusedReceiptImages,
+  isOwnReceiptImageUrl,
+  receiptThumbnailUrl,
+} from "../utils/receiptStorage.js";
+import { BUDGET_PERIODS } from "./budgets.js";
 
 const router = express.Router();
 
+// Charging sessions reuse price_per_liter/total_liters as price per kWh and kWh
+// charged; energy_unit tells the two apart.
+const ENERGY_UNITS = ["L", "kWh"];
+const CHARGER_TYPES = ["AC", "DC"];
+
+export const LITERS_PER_GALLON = 3.78541;
+const KM_PER_MILE = 1.60934;
+
+const EXPORT_COLUMNS = [
+  "id",
+  "date",
+  "time",
+  "vehicle_id",
+  "vehicle_name",
+  "station_name",
+  "station_address",
+  "station_lat",
+  "station_lng",
+  "quantity",
+  "unit",
+  "price_per_unit",
+  "total_cost",
+  "currency",
+  "paid_total_cost",
+  "paid_currency",
+  "mileage",
+  "distance_unit",
+  "full_tank",
+  "missed_fillup",
+  "charger_type",
+  "charging_power_kw",
+  "soc_start",
+  "soc_end",
+  "receipt_image_url",
+  "notes",
+];
+
+// Full-to-full consumption (L/100km, or kWh/100km for charging rows). Every fill after a full tank — partial
+// top-ups plus the closing full fill — is summed and divided by the distance
+// between the two full fills. A missed fill-up breaks the chain, so the
+// segment it falls into is skipped. Rows must be ordered by vehicle, then time.
+const computeFullToFullConsumption = (rows) => {
+  let totalLiters = 0;
+  let totalKm = 0;
+  let vehicleId;
+  let anchorMileage = null;
+  let segmentLiters = 0;
+  let segmentBroken = false;
+
+  for (const row of rows) {
+    if (row.vehicle_id !== vehicleId) {
+      vehicleId = row.vehicle_id;
+      anchorMileage = null;
+    }
+
+    if (row.missed_fillup) segmentBroken = true;
+    if (anchorMileage !== null) segmentLiters += parseFloat(row.total_liters);
+
+    if (row.full_tank) {
+      const km = row.mileage != null ? row.mileage - anchorMileage : 0;
+      if (anchorMileage !== null && !segmentBroken && km > 0) {
+        const consumption = (segmentLiters / km) * 100;
+        // Ignore segments that are clearly typos in mileage or liters
+        if (consumption > 1 && consumption < 50) {
+          totalLiters += segmentLiters;
+          totalKm += km;
+        }
+      }
+      anchorMileage = row.mileage ?? null;
+      segmentLiters = 0;
+      segmentBroken = false;
+    }
+  }
+
+  return totalKm > 0 ? (totalLiters / totalKm) * 100 : null;
+};
+
+// Returns an error message for invalid charging session fields, or null
+const validateChargingFields = ({
+  energyUnit,
+  chargerType,
+  socStart,
+  socEnd,
+}) => {
+  if (energyUnit !== undefined && !ENERGY_UNITS.includes(energyUnit)) {
+    return `energyUnit must be one of ${ENERGY_UNITS.join(", ")}`;
+  }
+  if (chargerType != null && !CHARGER_TYPES.includes(chargerType)) {
+    return `chargerType must be one of ${CHARGER_TYPES.join(", ")}`;
+  }
+  for (const soc of [socStart, socEnd]) {
+    if (soc != null && (soc < 0 || soc > 100)) {
+      return "State of charge must be between 0 and 100";
+    }
+  }
+  if (socStart != null && socEnd != null && socEnd < socStart) {
+    return "socEnd must not be lower than socStart";
+  }
+  return null;
+};
+
+// Same day and amount (tolerance 1 CZK) as an existing entry
+const findDuplicateEntry = async (userId, date, totalCost) => {
+  const [duplicates] = await pool.execute(
+    `SELECT id, date, total_cost FROM fuel_entries 
+     WHERE user_id = ? 
+     AND date = ? 
+     AND ABS(total_cost - ?) < 1.0`,
+    [userId, date, totalCost],
+  );
+  return duplicates[0] || null;
+};
+
+// Amounts arrive in the currency they were paid in. They are stored in CZK at
+// the rate on the entry date, with the amounts as paid kept alongside. Bulk
+// callers pass the rate they already looked up.
+const toBaseCurrencyEntry = async (entry, rate) => {
+  const currency = entry.currency || BASE_CURRENCY;
+  const exchangeRate =
+    rate ??
+    (await getRateOnDate(
+      currency,
+      BASE_CURRENCY,
+      String(entry.date).split("T")[0],
+    ));
+  const convert = (value, decimals) =>
+    value == null ? null : Number((value * exchangeRate).toFixed(decimals));
+
+  return {
+    ...entry,
+    currency,
+    originalPricePerLiter: entry.pricePerLiter ?? null,
+    originalTotalCost: entry.totalCost,
+    exchangeRate,
+    pricePerLiter: convert(entry.pricePerLiter, 2),
+    totalCost: convert(entry.totalCost, 2),
+  };
+};
+
+// Inserts a validated entry and returns its id. Accepts a transaction
+// connection so bulk imports can roll back as a whole.
+const insertEntry = async (userId, entry, connection = pool) => {
+  const {
+    vehicleId,
+    stationName,
+    stationAddress,
+    stationLat,
+    stationLng,
+    date,
+    time,
+    pricePerLiter,
+    totalLiters,
+    totalCost,
+    currency = BASE_CURRENCY,
+    originalPricePerLiter,
+    originalTotalCost,
+    exchangeRate = 1,
+    mileage,
+    fullTank = true,
+    missedFillup = false,
+    energyUnit = "L",
+    chargerType,
+    chargingPowerKw,
+    socStart,
+    socEnd,
+    receiptImageUrl,
+    notes,
+  } = entry;
+  const isCharging = energyUnit === "kWh";
+  const entryId = uuidv4();
+
+  await connection.execute(
+    `INSERT INTO fuel_entries 
+     (id, user_id, vehicle_id, station_name, station_address, station_lat, station_lng, 
+      date, time, price_per_liter, total_liters, energy_unit, total_cost, currency,
+      original_price_per_liter, original_total_cost, exchange_rate, mileage, full_tank,
+      missed_fillup, charger_type, charging_power_kw, soc_start, soc_end, receipt_image_url, notes)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      entryId,
+      userId,
+      vehicleId,
+      stationName ?? null,
+      stationAddress ?? null,
+      stationLat ?? null,
+      stationLng ?? null,
+      date,
+      time ?? null,
+      pricePerLiter ?? null,
+      totalLiters ?? null,
+      energyUnit,
+      totalCost,
+      currency,
+      originalPricePerLiter ?? pricePerLiter ?? null,
+      originalTotalCost ?? totalCost,
+      exchangeRate,
+      mileage ?? null,
+      !!fullTank,
+      !!missedFillup,
+      isCharging ? (chargerType ?? null) : null,
+      isCharging ? (chargingPowerKw ?? null) : null,
+      isCharging ? (socStart ?? null) : null,
+      isCharging ? (socEnd ?? null) : null,
+      receiptImageUrl ?? null,
+      notes ?? null,
+    ],
+  );
+
+  return entryId;
+};
+
+// API shape of a fuel_entries row joined with its vehicle name
+export const mapEntry = (entry) => ({
+  id: entry.id,
+  vehicleId: entry.vehicle_id,
+  vehicleName: entry.vehicle_name,
+  stationName: entry.station_name,
+  stationAddress: entry.station_address,
+  stationLat: entry.station_lat,
+  stationLng: entry.station_lng,
+  date: entry.date,
+  time: entry.time,
+  pricePerLiter: entry.price_per_liter,
+  totalLiters: entry.total_liters,
+  totalCost: entry.total_cost,
+  currency: entry.currency,
+  originalPricePerLiter: entry.original_price_per_liter,
+  originalTotalCost: entry.original_total_cost,
+  exchangeRate: entry.exchange_rate,
+  mileage: entry.mileage,
+  fullTank: !!entry.full_tank,
+  missedFillup: !!entry.missed_fillup,
+  energyUnit: entry.energy_unit,
+  chargerType: entry.charger_type,
+  chargingPowerKw: entry.charging_power_kw,
+  socStart: entry.soc_start,
+  socEnd: entry.soc_end,
+  receiptImageUrl: entry.receipt_image_url,
+  receiptThumbnailUrl: receiptThumbnailUrl(entry.receipt_image_url),
+  notes: entry.notes,
+});
+
 // All routes require authentication
 router.use(authMiddleware);
 
@@ -66,41 +323,476 @@ router.get("/", async (req, res) => {
 
     const [entries] = await pool.execute(query, params);
 
-    const mappedEntries = entries.map((entry) => ({
-      id: entry.id,
-      vehicleId: entry.vehicle_id,
-      vehicleName: entry.vehicle_name,
-      stationName: entry.station_name,
-      stationAddress: entry.station_address,
-      stationLat: entry.station_lat,
-      stationLng: entry.station_lng,
-      date: entry.date,
-      time: entry.time,
-      pricePerLiter: entry.price_per_liter,
-      totalLiters: entry.total_liters,
-      totalCost: entry.total_cost,
-      mileage: entry.mileage,
-      receiptImageUrl: entry.receipt_image_url,
-      notes: entry.notes,
-    }));
-
-    res.json(mappedEntries);
+    res.json(entries.map(mapEntry));
   } catch (error) {
     console.error("Get entries error:", error);
     res.status(500).json({ error: "Failed to get entries" });
   }
 });
 
+// GET /api/entries/export?format=csv - Download every matching entry
+// Takes the same filters as GET /api/entries. Values are stored in CZK and
+// metric units; convert=true rewrites them into the user's currency (at each
+// entry's date) and unit_system. The amount as paid is always included.
+// Rows are streamed so large histories don't sit in memory.
+router.get("/export", async (req, res) => {
+  const { format = "csv", vehicleId, startDate, endDate, convert } = req.query;
+
+  if (format !== "csv") {
+    return res.status(400).json({ error: "Unsupported export format" });
+  }
+
+  try {
+    let currency = BASE_CURRENCY;
+    let imperial = false;
+
+    if (convert === "true") {
+      const [users] = await pool.execute(
+        "SELECT currency, unit_system FROM users WHERE id = ?",
+        [req.user.userId],
+      );
+      currency = users[0]?.currency || BASE_CURRENCY;
+      imperial = users[0]?.unit_system === "imperial";
+    }
+
+    let query = `
+      SELECT e.*, v.name as vehicle_name, DATE_FORMAT(e.date, '%Y-%m-%d') as date_str
+      FROM fuel_entries e
+      LEFT JOIN vehicles v ON e.vehicle_id = v.id
+      WHERE e.user_id = ?
+    `;
+    const params = [req.user.userId];
+
+    if (vehicleId) {
+      query += " AND e.vehicle_id = ?";
+      params.push(vehicleId);
+    }
+
+    if (startDate) {
+      query += " AND e.date >= ?";
+      params.push(startDate);
+    }
+
+    if (endDate) {
+      query += " AND e.date <= ?";
+      params.push(endDate);
+    }
+
+    let rates = null;
+    if (currency !== BASE_CURRENCY) {
+      const [dateRows] = await pool.execute(
+        `SELECT DISTINCT date_str FROM (${query}) AS export_rows`,
+        params,
+      );
+      rates = await getRatesForDates(
+        BASE_CURRENCY,
+        currency,
+        dateRows.map((r) => r.date_str),
+      );
+    }
+
+    query += " ORDER BY e.date ASC, e.time ASC";
+
+    const round = (value, decimals) =>
+      value == null ? null : Number(parseFloat(value).toFixed(decimals));
+
+    const toExportRow = (row) => {
+      // kWh is never converted, only liters
+      const isCharge = row.energy_unit === "kWh";
+      const volumeFactor = imperial && !isCharge ? 1 / LITERS_PER_GALLON : 1;
+      const rate = rates ? rates.get(row.date_str) : 1;
+
+      return [
+        row.id,
+        row.date_str,
+        row.time,
+        row.vehicle_id,
+        row.vehicle_name,
+        row.station_name,
+        row.station_address,
+        row.station_lat,
+        row.station_lng,
+        round(row.total_liters * volumeFactor, 3),
+        isCharge ? "kWh" : imperial ? "gal" : "L",
+        round((row.price_per_liter * rate) / volumeFactor, 3),
+        round(row.total_cost * rate, 2),
+        currency,
+        round(row.original_total_cost ?? row.total_cost, 2),
+        row.currency,
+        row.mileage == null
+          ? null
+          : Math.round(imperial ? row.mileage / KM_PER_MILE : row.mileage),
+        imperial ? "mi" : "km",
+        row.full_tank ? 1 : 0,
+        row.missed_fillup ? 1 : 0,
+        row.charger_type,
+        row.charging_power_kw,
+        row.soc_start,
+        row.soc_end,
+        row.receipt_image_url,
+        row.notes,
+      ];
+    };
+
+    const filename = `tankuy-entries-${new Date().toISOString().split("T")[0]}.csv`;
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    // BOM so spreadsheet apps pick up UTF-8 station names
+    res.write("\uFEFF" + toCsvRow(EXPORT_COLUMNS));
+
+    // The promise pool has no streaming API, so use the underlying pool
+    const rowStream = pool.pool.query(query, params).stream();
+    let aborted = false;
+
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        aborted = true;
+        rowStream.resume();
+      }
+    });
+
+    rowStream.on("data", (row) => {
+      if (aborted) return;
+      if (!res.write(toCsvRow(toExportRow(row)))) {
+        rowStream.pause();
+        res.once("drain", () => rowStream.resume());
+      }
+    });
+    rowStream.on("end", () => {
+      if (!aborted) res.end();
+    });
+    rowStream.on("error", (error) => {
+      console.error("Export entries error:", error);
+      res.destroy(error);
+    });
+  } catch (error) {
+    console.error("Export entries error:", error);
+    res.status(500).json({ error: "Failed to export entries" });
+  }
+});
+
+const getUserCurrency = async (userId) => {
+  const [users] = await pool.execute(
+    "SELECT currency FROM users WHERE id = ?",
+    [userId],
+  );
+  return users[0]?.currency || BASE_CURRENCY;
+};
+
+// Money is stored in CZK. For any other display currency each entry is
+// converted at the rate on its own date: money queries read from a derived
+// table that shadows fuel_entries with the converted amounts. `where` picks
+// the rows the query reads, so only their dates need a rate. Returns the
+// table to select from and the parameters for a query whose own parameters
+// are `params`.
+const convertedEntriesSource = async (currency, where, params) => {
+  if (currency === BASE_CURRENCY) {
+    return { source: "fuel_entries", params };
+  }
+
+  const [dateRows] = await pool.execute(
+    `SELECT DISTINCT DATE_FORMAT(date, '%Y-%m-%d') AS date_str
+     FROM fuel_entries
+     WHERE ${where}`,
+    params,
+  );
+  const rates = await getRatesForDates(
+    BASE_CURRENCY,
+    currency,
+    dateRows.map((r) => r.date_str),
+  );
+
+  return {
+    source: `(
+      SELECT e.user_id, e.vehicle_id, e.date, e.time, e.mileage, e.energy_unit, e.total_liters,
+             e.station_name, e.total_cost * r.rate AS total_cost, e.price_per_liter * r.rate AS price_per_liter
+      FROM fuel_entries e
+      JOIN JSON_TABLE(CAST(? AS JSON), '$[*]' COLUMNS (
+        rate_date DATE PATH '$.date',
+        rate DOUBLE PATH '$.rate'
+      )) r ON r.rate_date = e.date
+    ) AS fuel_entries`,
+    params: [
+      JSON.stringify([...rates].map(([date, rate]) => ({ date, rate }))),
+      ...params,
+    ],
+  };
+};
+
+// Totals, averages and mileage figures of one date range, money in
+// `currency`. Shared by a stats period and the period it is compared with.
+const getPeriodSummary = async (userId, currency, start, end, vehicleId) => {
+  const vehicleFilter = vehicleId ? " AND vehicle_id = ?" : "";
+  const rangeParams = vehicleId
+    ? [userId, start, end, vehicleId]
+    : [userId, start, end];
+  const { source: moneySource, params: moneyParams } =
+    await convertedEntriesSource(
+      currency,
+      `user_id = ? AND date >= ? AND date <= ?${vehicleFilter}`,
+      rangeParams,
+    );
+
+  // Total spending for period
+  const [totalResult] = await pool.execute(
+    `SELECT 
+      COALESCE(SUM(total_cost), 0) as total_spent,
+      COALESCE(AVG(total_cost), 0) as avg_per_tank,
+      COUNT(*) as total_tanks,
+      COALESCE(
+        SUM(CASE WHEN energy_unit = 'L' THEN total_cost END) /
+        NULLIF(SUM(CASE WHEN energy_unit = 'L' THEN total_liters END), 0),
+      0) as avg_price_per_liter,
+      COALESCE(AVG(CASE WHEN energy_unit = 'L' THEN total_liters END), 0) as avg_liters_per_tank,
+      COALESCE(SUM(CASE WHEN energy_unit = 'L' THEN total_liters END), 0) as total_liters,
+      SUM(CASE WHEN energy_unit = 'kWh' THEN 1 ELSE 0 END) as total_charges,
+      COALESCE(SUM(CASE WHEN energy_unit = 'kWh' THEN total_liters END), 0) as total_kwh,
+      COALESCE(
+        SUM(CASE WHEN energy_unit = 'kWh' THEN total_cost END) /
+        NULLIF(SUM(CASE WHEN energy_unit = 'kWh' THEN total_liters END), 0),
+      0) as avg_price_per_kwh
+     FROM ${moneySource} 
+     WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter}`,
+    moneyParams,
+  );
+
+  // Mileage-based stats
+  // 1. Average km between fill-ups (using LAG window function)
+  const [avgKmResult] = await pool.execute(
+    `SELECT AVG(mileage_diff) as avg_km_between_fills FROM (
+      SELECT mileage - LAG(mileage) OVER (PARTITION BY vehicle_id ORDER BY date ASC, time ASC) as mileage_diff
+      FROM fuel_entries
+      WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter} AND mileage IS NOT NULL AND mileage > 0
+    ) sub WHERE mileage_diff > 0`,
+    rangeParams,
+  );
+
+  // 2. Cost per km — total cost / total distance between consecutive mileage entries
+  const [costPerKmResult] = await pool.execute(
+    `SELECT SUM(total_cost) / NULLIF(SUM(km_driven), 0) AS cost_per_km FROM (
+      SELECT
+        total_cost,
+        mileage - LAG(mileage) OVER (PARTITION BY vehicle_id ORDER BY date ASC, time ASC) AS km_driven
+      FROM ${moneySource}
+      WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter} AND mileage IS NOT NULL AND mileage > 0
+    ) t WHERE km_driven > 0`,
+    moneyParams,
+  );
+
+  // 3. Average consumption (L/100km and kWh/100km) — full-to-full method
+  const [consumptionRows] = await pool.execute(
+    `SELECT vehicle_id, mileage, total_liters, full_tank, missed_fillup, energy_unit
+     FROM fuel_entries
+     WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter} AND total_liters > 0
+     ORDER BY vehicle_id, date ASC, time ASC, mileage ASC`,
+    rangeParams,
+  );
+
+  return {
+    ...totalResult[0],
+    avg_km_between_fills: avgKmResult[0]?.avg_km_between_fills ?? null,
+    cost_per_km: costPerKmResult[0]?.cost_per_km ?? null,
+    avg_consumption: computeFullToFullConsumption(
+      consumptionRows.filter((r) => r.energy_unit === "L"),
+    ),
+    avg_consumption_kwh: computeFullToFullConsumption(
+      consumptionRows.filter((r) => r.energy_unit === "kWh"),
+    ),
+  };
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// What a stats period can be compared with: the one right before it, or the
+// same period a year earlier
+const COMPARE_TO = ["previous", "lastYear"];
+
+// Moves a "YYYY-MM-DD" date by whole days, months or years
+const shiftDate = (dateStr, { days = 0, months = 0, years = 0 }) => {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCFullYear(
+    date.getUTCFullYear() + years,
+    date.getUTCMonth() + months,
+    date.getUTCDate() + days,
+  );
+  return date.toISOString().split("T")[0];
+};
+
+const daysBetween = (from, to) =>
+  Math.round(
+    (new Date(`${to}T00:00:00Z`) - new Date(`${from}T00:00:00Z`)) / 86400000,
+  );
+
+// Chart bucket of a custom range: days for up to two months, weeks for up to
+// half a year, months beyond that
+const customGranularity = (start, end) => {
+  const days = daysBetween(start, end);
+  if (days <= 62) return "day";
+  if (days <= 183) return "week";
+  return "month";
+};
+
+// The range a calendar period is compared with. While the period is still
+// running only its elapsed part is compared, e.g. the 1st-10th of this month
+// with the 1st-10th of the last one. A custom range is compared with the
+// equally long range right before it. "all" has nothing to compare with.
+const comparisonRange = (period, start, end, compareTo, today) => {
+  let range;
+  if (period === "custom" && compareTo === "previous") {
+    const length = daysBetween(start, end) + 1;
+    range = {
+      start: shiftDate(start, { days: -length }),
+      end: shiftDate(start, { days: -1 }),
+    };
+  } else if (period === "week") {
+    const days = compareTo === "lastYear" ? -364 : -7;
+    range = {
+      start: shiftDate(start, { days }),
+      end: shiftDate(end, { days }),
+    };
+  } else if (period === "month") {
+    const shift = compareTo === "lastYear" ? { years: -1 } : { months: -1 };
+    const compStart = shiftDate(start, shift);
+    range = {
+      start: compStart,
+      end: shiftDate(shiftDate(compStart, { months: 1 }), { days: -1 }),
+    };
+  } else if (period === "year" || period === "custom") {
+    range = {
+      start: shiftDate(start, { years: -1 }),
+      end: shiftDate(end, { years: -1 }),
+    };
+  } else {
+    return null;
+  }
+
+  if (today >= start && today < end) {
+    const elapsed = shiftDate(range.start, { days: daysBetween(start, today) });
+    if (elapsed < range.end) range.end = elapsed;
+  }
+  return range;
+};
+
+// Summary fields compared between periods. For totals a previous 0 is a real
+// value; for averages 0 means there was nothing to average.
+const DELTA_TOTALS = ["total_spent", "total_liters", "total_kwh"];
+const DELTA_AVERAGES = [
+  "avg_price_per_liter",
+  "avg_price_per_kwh",
+  "avg_consumption",
+  "avg_consumption_kwh",
+  "cost_per_km",
+];
+
+const summaryDeltas = (current, previous) => {
+  const delta = (field, isAverage) => {
+    const now = current[field] == null ? null : parseFloat(current[field]);
+    const before = previous[field] == null ? null : parseFloat(previous[field]);
+    if (now == null || before == null) return null;
+    if (isAverage && (!now || !before)) return null;
+    return {
+      change: Math.round((now - before) * 1000) / 1000,
+      percent:
+        before === 0 ? null : Math.round(((now - before) / before) * 1000) / 10,
+    };
+  };
+
+  return Object.fromEntries([
+    ...DELTA_TOTALS.map((field) => [field, delta(field, false)]),
+    ...DELTA_AVERAGES.map((field) => [field, delta(field, true)]),
+  ]);
+};
+
+/**
+ * Progress toward the budget of a month or year being viewed: the share spent
+ * so far and the spend projected for the whole period at the current daily
+ * pace. Past periods project what was actually spent. Budgets are stored in
+ * CZK and converted at today's rate. Null when no budget applies.
+ */
+const getBudgetProgress = async (
+  userId,
+  currency,
+  period,
+  vehicleId,
+  range,
+  spent,
+  today,
+) => {
+  if (!BUDGET_PERIODS.includes(period)) return null;
+
+  const [budgets] = await pool.execute(
+    "SELECT * FROM budgets WHERE user_id = ? AND vehicle_id <=> ? AND period = ?",
+    [userId, vehicleId || null, period],
+  );
+  if (budgets.length === 0) return null;
+
+  const rate =
+    currency === BASE_CURRENCY
+      ? 1
+      : await getRateOnDate(BASE_CURRENCY, currency, today);
+  const amount = parseFloat(budgets[0].amount) * rate;
+
+  let projected = spent;
+  if (today >= range.start && today <= range.end) {
+    const elapsedDays = daysBetween(range.start, today) + 1;
+    const totalDays = daysBetween(range.start, range.end) + 1;
+    projected = (spent / elapsedDays) * totalDays;
+  }
+
+  const round = (value) => Math.round(value * 100) / 100;
+  return {
+    id: budgets[0].id,
+    amount: round(amount),
+    spent: round(spent),
+    percentUsed: Math.round((spent / amount) * 1000) / 10,
+    projected: round(projected),
+    overBudget: projected > amount,
+  };
+};
+
 // GET /api/entries/stats - Get spending statistics
 router.get("/stats", async (req, res) => {
   try {
-    const { period = "month", date } = req.query;
+    const {
+      period = "month",
+      date,
+      vehicleId,
+      compareTo = "previous",
+      startDate: customStart,
+      endDate: customEnd,
+    } = req.query;
     const userId = req.user.userId;
 
-    // Determine Date Range (Calendar based)
+    if (!COMPARE_TO.includes(compareTo)) {
+      return res
+        .status(400)
+        .json({ error: `compareTo must be one of: ${COMPARE_TO.join(", ")}` });
+    }
+
+    if (period === "custom") {
+      if (
+        !ISO_DATE.test(customStart ?? "") ||
+        !ISO_DATE.test(customEnd ?? "")
+      ) {
+        return res.status(400).json({
+          error: "startDate and endDate must be dates in YYYY-MM-DD format",
+        });
+      }
+      if (customStart > customEnd) {
+        return res
+          .status(400)
+          .json({ error: "startDate must not be after endDate" });
+      }
+    }
+
+    // Optional vehicle scope — appended right after the date range in every query
+    const vehicleFilter = vehicleId ? " AND vehicle_id = ?" : "";
+
+    // Determine Date Range (Calendar based, or as given for "custom")
     const refDate = date ? new Date(date) : new Date();
     let startDate, endDate;
     let groupByFormat, labelFormat; // For chart
+    let granularity; // Chart bucket size, reported to the client
 
     const formatDate = (d) => {
       const year = d.getFullYear();
@@ -121,18 +813,21 @@ router.get("/stats", async (req, res) => {
 
       groupByFormat = "date"; // Group by day
       labelFormat = "%a"; // Mon, Tue...
+      granularity = "day";
     } else if (period === "year") {
       startDate = new Date(refDate.getFullYear(), 0, 1);
       endDate = new Date(refDate.getFullYear(), 11, 31);
 
       groupByFormat = "DATE_FORMAT(date, '%Y-%m')"; // Group by month
       labelFormat = "%b"; // Jan, Feb...
-    } else if (period === "all") {
-      startDate = new Date("2020-01-01"); // Start of app usage/decade
-      endDate = new Date(); // Today
-
+      granularity = "month";
+    } else if (period === "all" || period === "custom") {
       groupByFormat = "DATE_FORMAT(date, '%Y-%m')"; // Group by month
       labelFormat = "%m/%y"; // 01/24
+      granularity =
+        period === "custom"
+          ? customGranularity(customStart, customEnd)
+          : "month";
     } else {
       // Month (default)
       startDate = new Date(refDate.getFullYear(), refDate.getMonth(), 1);
@@ -140,181 +835,206 @@ router.get("/stats", async (req, res) => {
 
       groupByFormat = "YEARWEEK(date, 1)"; // Group by week
       labelFormat = "%d.%m"; // 01.01
+      granularity = "day";
     }
 
-    const startStr = formatDate(startDate);
-    const endStr = formatDate(endDate);
-
-    // Total spending for period
-    const [totalResult] = await pool.execute(
-      `SELECT 
-        COALESCE(SUM(total_cost), 0) as total_spent,
-        COALESCE(AVG(total_cost), 0) as avg_per_tank,
-        COUNT(*) as total_tanks,
-        CASE 
-          WHEN SUM(total_liters) > 0 THEN SUM(total_cost) / SUM(total_liters)
-          ELSE 0 
-        END as avg_price_per_liter,
-        COALESCE(AVG(total_liters), 0) as avg_liters_per_tank,
-        COALESCE(SUM(total_liters), 0) as total_liters
-       FROM fuel_entries 
-       WHERE user_id = ? AND date >= ? AND date <= ?`,
-      [userId, startStr, endStr],
+    let startStr, endStr;
+    if (period === "custom") {
+      startStr = customStart;
+      endStr = customEnd;
+    } else if (period === "all") {
+      // From the first entry, however old (imports can predate the app)
+      const [[first]] = await pool.execute(
+        `SELECT DATE_FORMAT(MIN(date), '%Y-%m-%d') AS first_date
+         FROM fuel_entries
+         WHERE user_id = ?${vehicleFilter}`,
+        vehicleId ? [userId, vehicleId] : [userId],
+      );
+      endStr = formatDate(new Date());
+      startStr = first?.first_date ?? endStr;
+    } else {
+      startStr = formatDate(startDate);
+      endStr = formatDate(endDate);
+    }
+
+    const rangeParams = vehicleId
+      ? [userId, startStr, endStr, vehicleId]
+      : [userId, startStr, endStr];
+
+    const currency = await getUserCurrency(userId);
+    const { source: moneySource, params: moneyParams } =
+      await convertedEntriesSource(
+        currency,
+        `user_id = ? AND date >= ? AND date <= ?${vehicleFilter}`,
+        rangeParams,
+      );
+
+    const summary = await getPeriodSummary(
+      userId,
+      currency,
+      startStr,
+      endStr,
+      vehicleId,
+    );
+
+    const today = formatDate(new Date());
+
+    const budget = await getBudgetProgress(
+      userId,
+      currency,
+      period,
+      vehicleId,
+      { start: startStr, end: endStr },
+      parseFloat(summary.total_spent),
+      today,
     );
 
+    const previousRange = comparisonRange(
+      period,
+      startStr,
+      endStr,
+      compareTo,
+      today,
+    );
+    let comparison = null;
+    if (previousRange) {
+      const previousSummary = await getPeriodSummary(
+        userId,
+        currency,
+        previousRange.start,
+        previousRange.end,
+        vehicleId,
+      );
+      comparison = {
+        compareTo,
+        range: previousRange,
+        summary: previousSummary,
+        deltas: summaryDeltas(summary, previousSummary),
+      };
+    }
+
     // Chart Data
     // Chart Data
     let chartQuery = `
       SELECT ${period === "year" ? `DATE_FORMAT(date, '%b')` : `DATE_FORMAT(date, '${labelFormat}')`} as label, 
              SUM(total_cost) as value
-      FROM fuel_entries
-      WHERE user_id = ? AND date >= ? AND date <= ?
+      FROM ${moneySource}
+      WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter}
       GROUP BY ${groupByFormat}
       ORDER BY date ASC
     `;
 
-    // Special handling for week/month labels
+    // Special handling for week/month labels (and custom day/week buckets)
     if (period === "week") {
       chartQuery = `
          SELECT DATE_FORMAT(date, '%a') as label, SUM(total_cost) as value 
-         FROM fuel_entries 
-         WHERE user_id = ? AND date >= ? AND date <= ?
+         FROM ${moneySource} 
+         WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter}
          GROUP BY date ORDER BY date ASC`;
-    } else if (period === "month") {
+    } else if (granularity === "day") {
       // Group by Date (Active days only)
       // This ensures every day with a fill-up gets a point,
       // avoiding "missing dots" from weekly grouping AND "jaggy zeros" from full filling.
       chartQuery = `
          SELECT DATE_FORMAT(date, '%d.%m') as label, SUM(total_cost) as value
-         FROM fuel_entries 
-         WHERE user_id = ? AND date >= ? AND date <= ?
+         FROM ${moneySource} 
+         WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter}
          GROUP BY date ORDER BY date ASC`;
+    } else if (granularity === "week") {
+      // Labelled by the first active day of each week
+      chartQuery = `
+         SELECT DATE_FORMAT(MIN(date), '%d.%m') as label, SUM(total_cost) as value
+         FROM ${moneySource}
+         WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter}
+         GROUP BY YEARWEEK(date, 1) ORDER BY MIN(date) ASC`;
     }
 
-    const [chartRows] = await pool.execute(chartQuery, [
-      userId,
-      startStr,
-      endStr,
-    ]);
+    const [chartRows] = await pool.execute(chartQuery, moneyParams);
 
     let chartData = {
       labels: chartRows.map((r) => r.label),
       data: chartRows.map((r) => parseFloat(r.value)),
     };
 
-    // Mileage-based stats
-    // 1. Average km between fill-ups (using LAG window function)
-    const [avgKmResult] = await pool.execute(
-      `SELECT AVG(mileage_diff) as avg_km_between_fills FROM (
-        SELECT mileage - LAG(mileage) OVER (ORDER BY date ASC, time ASC) as mileage_diff
-        FROM fuel_entries
-        WHERE user_id = ? AND date >= ? AND date <= ? AND mileage IS NOT NULL AND mileage > 0
-      ) sub WHERE mileage_diff > 0`,
-      [userId, startStr, endStr],
-    );
-
-    // 2. Cost per km — total cost / total distance between consecutive mileage entries
-    const [costPerKmResult] = await pool.execute(
-      `SELECT SUM(total_cost) / NULLIF(SUM(km_driven), 0) AS cost_per_km FROM (
-        SELECT
-          total_cost,
-          mileage - LAG(mileage) OVER (ORDER BY date ASC, time ASC) AS km_driven
-        FROM fuel_entries
-        WHERE user_id = ? AND date >= ? AND date <= ? AND mileage IS NOT NULL AND mileage > 0
-      ) t WHERE km_driven > 0`,
-      [userId, startStr, endStr],
-    );
-
-    // 3. Average consumption (L/100km) — liters / km per segment
-    const [avgConsumptionResult] = await pool.execute(
-      `SELECT AVG(consumption) AS avg_consumption FROM (
-        SELECT
-          (total_liters / NULLIF(mileage - LAG(mileage) OVER (ORDER BY date ASC, time ASC), 0)) * 100 AS consumption
-        FROM fuel_entries
-        WHERE user_id = ? AND date >= ? AND date <= ? AND mileage IS NOT NULL AND mileage > 0 AND total_liters > 0
-      ) t WHERE consumption > 1 AND consumption < 50`,
-      [userId, startStr, endStr],
-    );
-
     // Insights Queries
     // 1. Favorite Station (most visited in period)
     const [favStationResult] = await pool.execute(
       `SELECT station_name as name, COUNT(*) as count
        FROM fuel_entries
-       WHERE user_id = ? AND date >= ? AND date <= ? AND station_name IS NOT NULL AND station_name != ''
+       WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter} AND station_name IS NOT NULL AND station_name != ''
        GROUP BY station_name
        ORDER BY count DESC
        LIMIT 1`,
-      [userId, startStr, endStr],
+      rangeParams,
     );
 
     // 2. Most Expensive Fill-Up
     const [mostExpensiveResult] = await pool.execute(
       `SELECT date, total_cost as cost
-       FROM fuel_entries
-       WHERE user_id = ? AND date >= ? AND date <= ?
+       FROM ${moneySource}
+       WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter}
        ORDER BY total_cost DESC
        LIMIT 1`,
-      [userId, startStr, endStr],
+      moneyParams,
     );
 
     // 3. Cheapest Fill-Up (Lowest price per liter)
     const [cheapestResult] = await pool.execute(
       `SELECT date, price_per_liter as price
-       FROM fuel_entries
-       WHERE user_id = ? AND date >= ? AND date <= ? AND price_per_liter > 0
+       FROM ${moneySource}
+       WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter} AND energy_unit = 'L' AND price_per_liter > 0
        ORDER BY price_per_liter ASC
        LIMIT 1`,
-      [userId, startStr, endStr],
+      moneyParams,
     );
 
     // 4. Biggest Fill-Up (Most liters)
     const [biggestResult] = await pool.execute(
       `SELECT date, total_liters as liters
        FROM fuel_entries
-       WHERE user_id = ? AND date >= ? AND date <= ?
+       WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter} AND energy_unit = 'L'
        ORDER BY total_liters DESC
        LIMIT 1`,
-      [userId, startStr, endStr],
+      rangeParams,
     );
 
     // 5. Favorite Day of the Week
     const [favoriteDayResult] = await pool.execute(
       `SELECT DAYNAME(date) as day, COUNT(*) as count
        FROM fuel_entries
-       WHERE user_id = ? AND date >= ? AND date <= ?
+       WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter}
        GROUP BY DAYOFWEEK(date), DAYNAME(date)
        ORDER BY count DESC
        LIMIT 1`,
-      [userId, startStr, endStr],
+      rangeParams,
     );
 
     // 6. Days Since Last Fill-Up
     const [lastFillUpResult] = await pool.execute(
       `SELECT DATEDIFF(CURRENT_DATE, MAX(date)) as days_ago
        FROM fuel_entries
-       WHERE user_id = ?`,
-      [userId],
+       WHERE user_id = ?${vehicleFilter}`,
+      vehicleId ? [userId, vehicleId] : [userId],
     );
 
     // 7. Smallest Fill-Up (Least liters, > 0)
     const [smallestResult] = await pool.execute(
       `SELECT date, total_liters as liters
        FROM fuel_entries
-       WHERE user_id = ? AND date >= ? AND date <= ? AND total_liters > 0
+       WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter} AND energy_unit = 'L' AND total_liters > 0
        ORDER BY total_liters ASC
        LIMIT 1`,
-      [userId, startStr, endStr],
+      rangeParams,
     );
 
     // 8. Most Expensive Price Per Liter
     const [mostExpensiveLiterResult] = await pool.execute(
       `SELECT date, price_per_liter as price
-       FROM fuel_entries
-       WHERE user_id = ? AND date >= ? AND date <= ? AND price_per_liter > 0
+       FROM ${moneySource}
+       WHERE user_id = ? AND date >= ? AND date <= ?${vehicleFilter} AND energy_unit = 'L' AND price_per_liter > 0
        ORDER BY price_per_liter DESC
        LIMIT 1`,
-      [userId, startStr, endStr],
+      moneyParams,
     );
 
     const insights = {
@@ -335,13 +1055,13 @@ router.get("/stats", async (req, res) => {
 
     res.json({
       period,
+      vehicleId: vehicleId || null,
+      currency,
       range: { start: startStr, end: endStr },
-      summary: {
-        ...totalResult[0],
-        avg_km_between_fills: avgKmResult[0]?.avg_km_between_fills ?? null,
-        cost_per_km: costPerKmResult[0]?.cost_per_km ?? null,
-        avg_consumption: avgConsumptionResult[0]?.avg_consumption ?? null,
-      },
+      granularity,
+      summary,
+      comparison,
+      budget,
       chart: chartData,
       insights,
     });
@@ -351,24 +1071,178 @@ router.get("/stats", async (req, res) => {
   }
 });
 
+const TREND_INTERVALS = ["day", "week", "month"];
+const DEFAULT_TREND_WINDOW = 3;
+
+const roundPrice = (value) => Math.round(value * 1000) / 1000;
+
+// First day of the day/week/month a YYYY-MM-DD date falls in; weeks start on
+// Monday
+const intervalStart = (dateStr, interval) => {
+  if (interval === "month") return `${dateStr.slice(0, 7)}-01`;
+  if (interval === "week") {
+    const date = new Date(`${dateStr}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    return date.toISOString().split("T")[0];
+  }
+  return dateStr;
+};
+
+// Average, lowest and highest unit price of some fills. The average is
+// weighted by quantity, so a full tank counts for more than a top-up.
+const summarizePrices = (rows) => {
+  let paid = 0;
+  let quantity = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of rows) {
+    const price = Number(row.price_per_liter);
+    const weight = Number(row.total_liters) > 0 ? Number(row.total_liters) : 1;
+    paid += price * weight;
+    quantity += weight;
+    min = Math.min(min, price);
+    max = Math.max(max, price);
+  }
+  return {
+    avgPrice: roundPrice(paid / quantity),
+    minPrice: roundPrice(min),
+    maxPrice: roundPrice(max),
+    fills: rows.length,
+  };
+};
+
+const groupBy = (rows, keyOf) => {
+  const groups = new Map();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(row);
+  }
+  return groups;
+};
+
+// GET /api/entries/price-trends - Unit prices over time
+// ?interval=day|week|month&startDate=&endDate=&vehicleId=&fuelType=&window=3
+// Price per liter (per kWh for charging) in the user's currency, one series
+// per vehicle fuel type and unit. Each point is one interval with its
+// average, min/max band and the moving average of the last `window` points.
+// Station averages cover the whole range. Defaults to the past 12 months.
+router.get("/price-trends", async (req, res) => {
+  try {
+    const { interval = "week", vehicleId, fuelType } = req.query;
+    const userId = req.user.userId;
+    const window =
+      req.query.window === undefined
+        ? DEFAULT_TREND_WINDOW
+        : Number(req.query.window);
+    const endDate = req.query.endDate || new Date().toISOString().split("T")[0];
+    const startDate =
+      req.query.startDate ||
+      `${Number(endDate.slice(0, 4)) - 1}${endDate.slice(4)}`;
+
+    if (!TREND_INTERVALS.includes(interval)) {
+      return res
+        .status(400)
+        .json({ error: "interval must be day, week or month" });
+    }
+    if (!Number.isInteger(window) || window < 1 || window > 52) {
+      return res
+        .status(400)
+        .json({ error: "window must be a whole number from 1 to 52" });
+    }
+    if (!ISO_DATE.test(startDate) || !ISO_DATE.test(endDate)) {
+      return res
+        .status(400)
+        .json({ error: "startDate and endDate must be YYYY-MM-DD" });
+    }
+
+    // Qualified, since the query below also joins vehicles
+    const filters = `fuel_entries.user_id = ? AND fuel_entries.date >= ? AND fuel_entries.date <= ?${
+      vehicleId ? " AND fuel_entries.vehicle_id = ?" : ""
+    } AND fuel_entries.price_per_liter > 0`;
+    const params = vehicleId
+      ? [userId, startDate, endDate, vehicleId]
+      : [userId, startDate, endDate];
+
+    const currency = await getUserCurrency(userId);
+    const { source, params: sourceParams } = await convertedEntriesSource(
+      currency,
+      filters,
+      params,
+    );
+
+    const [rows] = await pool.execute(
+      `SELECT DATE_FORMAT(fuel_entries.date, '%Y-%m-%d') AS date,
+              fuel_entries.price_per_liter, fuel_entries.total_liters,
+              fuel_entries.energy_unit, fuel_entries.station_name,
+              COALESCE(v.fuel_type, 'unknown') AS fuel_type
+       FROM ${source}
+       LEFT JOIN vehicles v ON v.id = fuel_entries.vehicle_id
+       WHERE ${filters}
+       ORDER BY fuel_entries.date ASC, fuel_entries.time ASC`,
+      sourceParams,
+    );
+
+    const matching = fuelType
+      ? rows.filter((row) => row.fuel_type === fuelType)
+      : rows;
+
+    const series = [
+      ...groupBy(matching, (row) => `${row.fuel_type}|${row.energy_unit}`),
+    ].map(([, seriesRows]) => {
+      const points = [
+        ...groupBy(seriesRows, (row) => intervalStart(row.date, interval)),
+      ].map(([start, pointRows]) => ({ start, ...summarizePrices(pointRows) }));
+
+      // Trailing average over intervals that have fills
+      points.forEach((point, i) => {
+        const recent = points.slice(Math.max(0, i - window + 1), i + 1);
+        point.movingAverage = roundPrice(
+          recent.reduce((sum, p) => sum + p.avgPrice, 0) / recent.length,
+        );
+      });
+
+      const stations = [
+        ...groupBy(
+          seriesRows.filter((row) => row.station_name?.trim()),
+          (row) => row.station_name.trim(),
+        ),
+      ]
+        .map(([name, stationRows]) => ({
+          name,
+          ...summarizePrices(stationRows),
+        }))
+        .sort((a, b) => a.avgPrice - b.avgPrice);
+
+      return {
+        fuelType: seriesRows[0].fuel_type,
+        unit: seriesRows[0].energy_unit,
+        ...summarizePrices(seriesRows),
+        points,
+        stations,
+      };
+    });
+
+    // Most used first
+    series.sort((a, b) => b.fills - a.fills);
+
+    res.json({
+      currency,
+      interval,
+      window,
+      range: { start: startDate, end: endDate },
+      series,
+    });
+  } catch (error) {
+    console.error("Get price trends error:", error);
+    res.status(500).json({ error: "Failed to get price trends" });
+  }
+});
+
 // POST /api/entries - Add a new fuel entry
 router.post("/", async (req, res) => {
   try {
-    const {
-      vehicleId,
-      stationName,
-      stationAddress,
-      stationLat,
-      stationLng,
-      date,
-      time,
-      pricePerLiter,
-      totalLiters,
-      totalCost,
-      mileage,
-      receiptImageUrl,
-      notes,
-    } = req.body;
+    const { date, totalCost } = req.body;
 
     if (!totalCost || !date) {
       return res
@@ -376,53 +1250,49 @@ router.post("/", async (req, res) => {
         .json({ error: "Date and total cost are required" });
     }
 
+    const chargingError = validateChargingFields(req.body);
+    if (chargingError) {
+      return res.status(400).json({ error: chargingError });
+    }
+
+    if (req.body.currency && !isSupportedCurrency(req.body.currency)) {
+      return res.status(400).json({ error: "Unsupported currency" });
+    }
+
+    if (
+      req.body.receiptImageUrl &&
+      !(await isOwnReceiptImageUrl(
+        pool,
+        req.user.userId,
+        req.body.receiptImageUrl,
+      ))
+    ) {
+      return res.status(400).json({ error: "Invalid receipt image" });
+    }
+
+    const entry = await toBaseCurrencyEntry(req.body);
+
     // Duplicate Check
     // If exact same date and amount (tolerance 1 CZK) exists, warn user
     // Unless ?force=true is present
     const forceSave = req.query.force === "true";
 
     if (!forceSave) {
-      const [duplicates] = await pool.execute(
-        `SELECT id, date, total_cost FROM fuel_entries 
-         WHERE user_id = ? 
-         AND date = ? 
-         AND ABS(total_cost - ?) < 1.0`,
-        [req.user.userId, date, totalCost],
+      const duplicate = await findDuplicateEntry(
+        req.user.userId,
+        date,
+        entry.totalCost,
       );
 
-      if (duplicates.length > 0) {
+      if (duplicate) {
         return res.status(409).json({
           error: "Potential duplicate entry detected",
-          duplicate: duplicates[0],
+          duplicate,
         });
       }
     }
 
-    const entryId = uuidv4();
-
-    await pool.execute(
-      `INSERT INTO fuel_entries 
-       (id, user_id, vehicle_id, station_name, station_address, station_lat, station_lng, 
-        date, time, price_per_liter, total_liters, total_cost, mileage, receipt_image_url, notes)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        entryId,
-        req.user.userId,
-        vehicleId,
-        stationName,
-        stationAddress,
-        stationLat,
-        stationLng,
-        date,
-        time,
-        pricePerLiter,
-        totalLiters,
-        totalCost,
-        mileage,
-        receiptImageUrl,
-        notes,
-      ],
-    );
+    const entryId = await insertEntry(req.user.userId, entry);
 
     const [entries] = await pool.execute(
       "SELECT * FROM fuel_entries WHERE id = ?",
@@ -436,6 +1306,125 @@ router.post("/", async (req, res) => {
   }
 });
 
+// POST /api/entries/import - Import fill-ups exported from another app
+// Body: { vehicleId, format: fuelio|spritmonitor|acar|generic, csv, mapping?,
+// delimiter?, dateOrder?, decimalComma?, currency = CZK, dryRun = true,
+// includeDuplicates? }. Preview rows show the amounts as in the file.
+// A dry run returns the per-row preview without writing anything; otherwise
+// every valid row (minus duplicates, unless includeDuplicates) is inserted in
+// one transaction.
+router.post("/import", async (req, res) => {
+  try {
+    const {
+      vehicleId,
+      format,
+      csv,
+      mapping,
+      delimiter,
+      dateOrder,
+      decimalComma,
+      currency = BASE_CURRENCY,
+      dryRun = true,
+      includeDuplicates = false,
+    } = req.body;
+
+    if (!vehicleId || !format || !csv) {
+      return res
+        .status(400)
+        .json({ error: "vehicleId, format and csv are required" });
+    }
+
+    if (!isSupportedCurrency(currency)) {
+      return res.status(400).json({ error: "Unsupported currency" });
+    }
+
+    const [vehicles] = await pool.execute(
+      "SELECT id FROM vehicles WHERE id = ? AND user_id = ?",
+      [vehicleId, req.user.userId],
+    );
+
+    if (vehicles.length === 0) {
+      return res.status(404).json({ error: "Vehicle not found" });
+    }
+
+    const parsed = parseImportFile(csv, format, {
+      mapping,
+      delimiter,
+      dateOrder,
+      decimalComma,
+    });
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    // One rate lookup for the whole file
+    const rates = await getRatesForDates(
+      currency,
+      BASE_CURRENCY,
+      parsed.rows.filter((row) => row.entry).map((row) => row.entry.date),
+    );
+
+    const rows = [];
+    const toInsert = [];
+    for (const row of parsed.rows) {
+      const entry = row.entry
+        ? await toBaseCurrencyEntry(
+            { ...row.entry, currency },
+            rates.get(row.entry.date),
+          )
+        : null;
+      // Repeated within the file, or already saved
+      const duplicate = entry
+        ? row.duplicateOf != null ||
+          !!(await findDuplicateEntry(
+            req.user.userId,
+            entry.date,
+            entry.totalCost,
+          ))
+        : false;
+      rows.push({ ...row, duplicateOf: row.duplicateOf ?? null, duplicate });
+      if (entry && (includeDuplicates || !duplicate)) {
+        toInsert.push(entry);
+      }
+    }
+
+    let imported = 0;
+    if (!dryRun && toInsert.length > 0) {
+      const connection = await pool.getConnection();
+      try {
+        await connection.beginTransaction();
+        for (const entry of toInsert) {
+          await insertEntry(
+            req.user.userId,
+            { ...entry, vehicleId },
+            connection,
+          );
+        }
+        await connection.commit();
+        imported = toInsert.length;
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      } finally {
+        connection.release();
+      }
+    }
+
+    res.json({
+      dryRun: !!dryRun,
+      total: rows.length,
+      valid: rows.filter((row) => row.entry).length,
+      duplicates: rows.filter((row) => row.duplicate).length,
+      errors: rows.filter((row) => row.error).length,
+      imported,
+      rows,
+    });
+  } catch (error) {
+    console.error("Import entries error:", error);
+    res.status(500).json({ error: "Failed to import entries" });
+  }
+});
+
 // GET /api/entries/:id - Get a specific entry
 router.get("/:id", async (req, res) => {
   try {
@@ -469,13 +1458,28 @@ router.put("/:id", async (req, res) => {
       stationLng,
       date,
       time,
-      pricePerLiter,
       totalLiters,
-      totalCost,
       mileage,
+      fullTank = true,
+      missedFillup = false,
+      energyUnit = "L",
+      chargerType,
+      chargingPowerKw,
+      socStart,
+      socEnd,
       notes,
     } = req.body;
 
+    const chargingError = validateChargingFields(req.body);
+    if (chargingError) {
+      return res.status(400).json({ error: chargingError });
+    }
+    const isCharging = energyUnit === "kWh";
+
+    if (req.body.currency && !isSupportedCurrency(req.body.currency)) {
+      return res.status(400).json({ error: "Unsupported currency" });
+    }
+
     const [existing] = await pool.execute(
       "SELECT id FROM fuel_entries WHERE id = ? AND user_id = ?",
       [req.params.id, req.user.userId],
@@ -485,11 +1489,22 @@ router.put("/:id", async (req, res) => {
       return res.status(404).json({ error: "Entry not found" });
     }
 
+    const {
+      pricePerLiter,
+      totalCost,
+      currency,
+      originalPricePerLiter,
+      originalTotalCost,
+      exchangeRate,
+    } = await toBaseCurrencyEntry(req.body);
+
     await pool.execute(
       `UPDATE fuel_entries SET 
        vehicle_id = ?, station_name = ?, station_address = ?, station_lat = ?, station_lng = ?,
-       date = ?, time = ?, price_per_liter = ?, total_liters = ?, total_cost = ?, 
-       mileage = ?, notes = ?, updated_at = NOW()
+       date = ?, time = ?, price_per_liter = ?, total_liters = ?, energy_unit = ?, total_cost = ?,
+       currency = ?, original_price_per_liter = ?, original_total_cost = ?, exchange_rate = ?,
+       mileage = ?, full_tank = ?, missed_fillup = ?, charger_type = ?, charging_power_kw = ?,
+       soc_start = ?, soc_end = ?, notes = ?, updated_at = NOW()
        WHERE id = ? AND user_id = ?`,
       [
         vehicleId,
@@ -501,8 +1516,19 @@ router.put("/:id", async (req, res) => {
         time,
         pricePerLiter,
         totalLiters,
+        energyUnit,
         totalCost,
+        currency,
+        originalPricePerLiter,
+        originalTotalCost,
+        exchangeRate,
         mileage,
+        !!fullTank,
+        !!missedFillup,
+        isCharging ? (chargerType ?? null) : null,
+        isCharging ? (chargingPowerKw ?? null) : null,
+        isCharging ? (socStart ?? null) : null,
+        isCharging ? (socEnd ?? null) : null,
         notes,
         req.params.id,
         req.user.userId,
@@ -525,7 +1551,7 @@ router.put("/:id", async (req, res) => {
 router.delete("/:id", async (req, res) => {
   try {
     const [existing] = await pool.execute(
-      "SELECT id FROM fuel_entries WHERE id = ? AND user_id = ?",
+      "SELECT id, receipt_image_url FROM fuel_entries WHERE id = ? AND user_id = ?",
       [req.params.id, req.user.userId],
     );
 
@@ -533,10 +1559,28 @@ router.delete("/:id", async (req, res) => {
       return res.status(404).json({ error: "Entry not found" });
     }
 
-    await pool.execute(
-      "DELETE FROM fuel_entries WHERE id = ? AND user_id = ?",
-      [req.params.id, req.user.userId],
-    );
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      await connection.execute(
+        "DELETE FROM fuel_entries WHERE id = ? AND user_id = ?",
+        [req.params.id, req.user.userId],
+      );
+      await recordTombstone(
+        connection,
+        req.user.userId,
+        "fuel_entry",
+        req.params.id,
+      );
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    await deleteUnusedReceiptImages(pool, [existing[0].receipt_image_url]);
 
     res.json({ success: true });
   } catch (error) {
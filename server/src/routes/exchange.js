@@ -1,67 +1,145 @@
 import express from "express";
+import pool from "../db/connection.js";
 import { authMiddleware } from "../middleware/auth.js";
+import {
+  createExchangeRateProvider,
+  createFixtureProvider,
+} from "../utils/exchangeRateProviders.js";
+import { createRateStore } from "../utils/exchangeRateStore.js";
 
 const router = express.Router();
 
-// Cache exchange rates for 1 hour
-let rateCache = {
-  rates: null,
-  timestamp: 0,
+// Amounts are stored in CZK; other currencies are converted on the way in
+// (entries) or out (display)
+export const BASE_CURRENCY = "CZK";
+
+// Currencies with a daily ECB reference rate, i.e. everything Frankfurter knows
+export const SUPPORTED_CURRENCIES = [
+  "AUD",
+  "BGN",
+  "BRL",
+  "CAD",
+  "CHF",
+  "CNY",
+  "CZK",
+  "DKK",
+  "EUR",
+  "GBP",
+  "HKD",
+  "HUF",
+  "IDR",
+  "ILS",
+  "INR",
+  "ISK",
+  "JPY",
+  "KRW",
+  "MXN",
+  "MYR",
+  "NOK",
+  "NZD",
+  "PHP",
+  "PLN",
+  "RON",
+  "SEK",
+  "SGD",
+  "THB",
+  "TRY",
+  "USD",
+  "ZAR",
+];
+
+export const isSupportedCurrency = (currency) =>
+  SUPPORTED_CURRENCIES.includes(currency);
+
+let provider = null;
+const getProvider = () => {
+  if (!provider) provider = createExchangeRateProvider();
+  return provider;
 };
-const CACHE_DURATION = 60 * 60 * 1000; // 1 hour
 
-const fetchRates = async () => {
-  const now = Date.now();
-  if (rateCache.rates && now - rateCache.timestamp < CACHE_DURATION) {
-    return rateCache.rates;
-  }
+const rateStore = createRateStore({
+  db: pool,
+  getProvider,
+  // Sample rates shipped with the server, for a first start without network
+  getFallbackProvider: () => createFixtureProvider(),
+  currencies: SUPPORTED_CURRENCIES,
+});
 
-  try {
-    // Frankfurter API — free, no key needed, European Central Bank data
-    const response = await fetch(
-      "https://api.frankfurter.app/latest?from=CZK&to=USD",
-    );
-    const data = await response.json();
+const today = () => new Date().toISOString().split("T")[0];
 
-    // data.rates = { USD: 0.042... } (1 CZK = ~0.042 USD)
-    const czkToUsd = data.rates.USD;
+/**
+ * Rates from one currency to another on each of the given dates (YYYY-MM-DD),
+ * as a Map of date -> rate. Throws when a pair has no stored rate at all.
+ */
+export const getRatesForDates = (from, to, dates) =>
+  rateStore.getRatesForDates(from, to, dates);
 
-    const rates = {
-      CZK_TO_USD: czkToUsd,
-      USD_TO_CZK: 1 / czkToUsd,
-      date: data.date,
-    };
+export const getRateOnDate = async (from, to, date) =>
+  (await getRatesForDates(from, to, [date])).get(date);
 
-    rateCache = { rates, timestamp: now };
-    console.log(
-      `Exchange rates cached: 1 CZK = ${czkToUsd} USD (${data.date})`,
-    );
-    return rates;
-  } catch (error) {
-    console.error("Failed to fetch exchange rates:", error.message);
-    // Fallback rates if API fails
-    const fallback = {
-      CZK_TO_USD: 0.042,
-      USD_TO_CZK: 23.8,
-      date: "fallback",
-    };
-    if (!rateCache.rates) {
-      rateCache = { rates: fallback, timestamp: now - CACHE_DURATION + 300000 }; // retry in 5 min
-    }
-    return rateCache.rates || fallback;
-  }
-};
+// Every supported currency against `base` on a date, or null when nothing is
+// stored. `date` in the result is the business day the rates are from.
+export const getRatesOnDate = (date, base = BASE_CURRENCY) =>
+  rateStore.getRatesOnDate(date, base);
 
-// Pre-fetch on startup
-fetchRates();
+// Pre-fetch the latest rates; call once the database is migrated
+export const refreshLatestRates = () => rateStore.refreshLatestRates();
 
 router.use(authMiddleware);
 
-// GET /api/exchange-rates
+// GET /api/exchange-rates?date=YYYY-MM-DD&base=CZK&symbols=EUR,USD
+// 1 `base` in each currency on `date` (today when omitted). Weekends, holidays
+// and days not yet published use the previous business day; `date` in the
+// response is the day the rates are from.
 router.get("/", async (req, res) => {
   try {
-    const rates = await fetchRates();
-    res.json(rates);
+    const date = req.query.date || today();
+    const base = String(req.query.base || BASE_CURRENCY).toUpperCase();
+    const symbols = req.query.symbols
+      ? String(req.query.symbols)
+          .split(",")
+          .map((symbol) => symbol.trim().toUpperCase())
+          .filter(Boolean)
+      : SUPPORTED_CURRENCIES;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+    }
+    if (!isSupportedCurrency(base)) {
+      return res.status(400).json({ error: "Unsupported base currency" });
+    }
+    const unsupported = symbols.filter(
+      (symbol) => !isSupportedCurrency(symbol),
+    );
+    if (unsupported.length > 0) {
+      return res
+        .status(400)
+        .json({ error: `Unsupported currencies: ${unsupported.join(", ")}` });
+    }
+
+    const result = await getRatesOnDate(date, base);
+    if (!result) {
+      return res.status(503).json({ error: "Exchange rates unavailable" });
+    }
+
+    const rates = Object.fromEntries(
+      symbols
+        .filter((symbol) => result.rates[symbol] != null)
+        .map((symbol) => [symbol, result.rates[symbol]]),
+    );
+
+    res.json({
+      base,
+      date: result.date,
+      rates,
+      currencies: SUPPORTED_CURRENCIES,
+      // Older app versions read these
+      ...(base === "CZK" &&
+        result.rates.USD && {
+          CZK_TO_USD: result.rates.USD,
+          USD_TO_CZK: 1 / result.rates.USD,
+        }),
+    });
   } catch (error) {
     console.error("Exchange rate error:", error);
     res.status(500).json({ error: "Failed to get exchange rates" });
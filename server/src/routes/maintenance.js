@@ -0,0 +1,216 @@
+import express from "express";
+import { v4 as uuidv4 } from "uuid";
+import pool from "../db/connection.js";
+import { authMiddleware } from "../middleware/auth.js";
+import { vehicleOwnerMiddleware } from "../middleware/vehicle.js";
+import {
+  deleteUnusedReceiptImages,
+  isOwnReceiptImageUrl,
+} from "../utils/receiptStorage.js";
+
+// Mounted at /api/vehicles/:vehicleId/maintenance
+const router = express.Router({ mergeParams: true });
+
+const CATEGORIES = [
+  "oil_change",
+  "tyres",
+  "inspection",
+  "insurance",
+  "repair",
+  "other",
+];
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Every route is scoped to a vehicle the user owns
+router.use(vehicleOwnerMiddleware);
+
+const mapMaintenanceEntry = (row) => ({
+  id: row.id,
+  vehicleId: row.vehicle_id,
+  category: row.category,
+  cost: row.cost,
+  mileage: row.mileage,
+  date: row.date,
+  notes: row.notes,
+  receiptImageUrl: row.receipt_image_url,
+});
+
+// GET /api/vehicles/:vehicleId/maintenance - List maintenance entries
+router.get("/", async (req, res) => {
+  try {
+    const [entries] = await pool.execute(
+      `SELECT * FROM maintenance_entries
+       WHERE vehicle_id = ? AND user_id = ?
+       ORDER BY date DESC, created_at DESC`,
+      [req.params.vehicleId, req.user.userId],
+    );
+
+    res.json(entries.map(mapMaintenanceEntry));
+  } catch (error) {
+    console.error("Get maintenance error:", error);
+    res.status(500).json({ error: "Failed to get maintenance entries" });
+  }
+});
+
+// POST /api/vehicles/:vehicleId/maintenance - Add a maintenance entry
+router.post("/", async (req, res) => {
+  try {
+    const {
+      category = "other",
+      cost,
+      mileage,
+      date,
+      notes,
+      receiptImageUrl,
+    } = req.body;
+
+    if (cost == null || !date) {
+      return res.status(400).json({ error: "Date and cost are required" });
+    }
+
+    if (!CATEGORIES.includes(category)) {
+      return res
+        .status(400)
+        .json({ error: `category must be one of ${CATEGORIES.join(", ")}` });
+    }
+
+    if (
+      receiptImageUrl &&
+      !(await isOwnReceiptImageUrl(pool, req.user.userId, receiptImageUrl))
+    ) {
+      return res.status(400).json({ error: "Invalid receipt image" });
+    }
+
+    const entryId = uuidv4();
+
+    await pool.execute(
+      `INSERT INTO maintenance_entries
+       (id, user_id, vehicle_id, category, cost, mileage, date, notes, receipt_image_url)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entryId,
+        req.user.userId,
+        req.params.vehicleId,
+        category,
+        cost,
+        mileage ?? null,
+        date,
+        notes ?? null,
+        receiptImageUrl ?? null,
+      ],
+    );
+
+    const [entries] = await pool.execute(
+      "SELECT * FROM maintenance_entries WHERE id = ?",
+      [entryId],
+    );
+
+    res.status(201).json(mapMaintenanceEntry(entries[0]));
+  } catch (error) {
+    console.error("Add maintenance error:", error);
+    res.status(500).json({ error: "Failed to add maintenance entry" });
+  }
+});
+
+// PUT /api/vehicles/:vehicleId/maintenance/:id - Update a maintenance entry
+router.put("/:id", async (req, res) => {
+  try {
+    const {
+      category = "other",
+      cost,
+      mileage,
+      date,
+      notes,
+      receiptImageUrl,
+    } = req.body;
+
+    if (cost == null || !date) {
+      return res.status(400).json({ error: "Date and cost are required" });
+    }
+
+    if (!CATEGORIES.includes(category)) {
+      return res
+        .status(400)
+        .json({ error: `category must be one of ${CATEGORIES.join(", ")}` });
+    }
+
+    const [existing] = await pool.execute(
+      "SELECT id, receipt_image_url FROM maintenance_entries WHERE id = ? AND vehicle_id = ? AND user_id = ?",
+      [req.params.id, req.params.vehicleId, req.user.userId],
+    );
+
+    if (existing.length === 0) {
+      return res.status(404).json({ error: "Maintenance entry not found" });
+    }
+
+    // Keeping the photo already saved is always fine
+    const previousImageUrl = existing[0].receipt_image_url;
+    if (
+      receiptImageUrl &&
+      receiptImageUrl !== previousImageUrl &&
+      !(await isOwnReceiptImageUrl(pool, req.user.userId, receiptImageUrl))
+    ) {
+      return res.status(400).json({ error: "Invalid receipt image" });
+    }
+
+    await pool.execute(
+      `UPDATE maintenance_entries SET
+       category = ?, cost = ?, mileage = ?, date = ?, notes = ?, receipt_image_url = ?, updated_at = NOW()
+       WHERE id = ? AND user_id = ?`,
+      [
+        category,
+        cost,
+        mileage ?? null,
+        date,
+        notes ?? null,
+        receiptImageUrl ?? null,
+        req.params.id,
+        req.user.userId,
+      ],
+    );
+
+    if (previousImageUrl !== (receiptImageUrl ?? null)) {
+      await deleteUnusedReceiptImages(pool, [previousImageUrl]);
+    }
+
+    const [entries] = await pool.execute(
+      "SELECT * FROM maintenance_entries WHERE id = ?",
+      [req.params.id],
+    );
+
+    res.json(mapMaintenanceEntry(entries[0]));
+  } catch (error) {
+    console.error("Update maintenance error:", error);
+    res.status(500).json({ error: "Failed to update maintenance entry" });
+  }
+});
+
+// DELETE /api/vehicles/:vehicleId/maintenance/:id - Delete a maintenance entry
+router.delete("/:id", async (req, res) => {
+  try {
+    const [existing] = await pool.execute(
+      "SELECT id, receipt_image_url FROM maintenance_entries WHERE id = ? AND vehicle_id = ? AND user_id = ?",
+      [req.params.id, req.params.vehicleId, req.user.userId],
+    );
+
+    if (existing.length === 0) {
+      return res.status(404).json({ error: "Maintenance entry not found" });
+    }
+
+    await pool.execute(
+      "DELETE FROM maintenance_entries WHERE id = ? AND user_id = ?",
+      [req.params.id, req.user.userId],
+    );
+
+    await deleteUnusedReceiptImages(pool, [existing[0].receipt_image_url]);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete maintenance error:", error);
+    res.status(500).json({ error: "Failed to delete maintenance entry" });
+  }
+});
+
+export default router;
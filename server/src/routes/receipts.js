@@ -1,22 +1,25 @@
 import express from "express";
 import multer from "multer";
-import { v2 as cloudinary } from "cloudinary";
-import OpenAI from "openai";
 import dotenv from "dotenv";
 import heicConvert from "heic-convert";
+import pool from "../db/connection.js";
 import { authMiddleware } from "../middleware/auth.js";
+import { createReceiptAnalyzer } from "../utils/receiptProviders.js";
+import { validateReceipt } from "../utils/receiptValidation.js";
+import {
+  isValidKey,
+  loadReceiptImage,
+  ownsReceiptKey,
+  readReceiptImage,
+  receiptThumbnailUrl,
+  saveReceiptImage,
+} from "../utils/receiptStorage.js";
+import { LITERS_PER_GALLON } from "./entries.js";
 
 dotenv.config();
 
 const router = express.Router();
 
-// Configure Cloudinary
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_API_SECRET,
-});
-
 // Configure multer for image uploads
 const storage = multer.memoryStorage();
 const upload = multer({
@@ -35,81 +38,76 @@ const upload = multer({
   },
 });
 
-// OpenAI Vision API (GPT-4o)
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+let analyzeReceipt = null;
+const getReceiptAnalyzer = () => {
+  if (!analyzeReceipt) analyzeReceipt = createReceiptAnalyzer();
+  return analyzeReceipt;
+};
 
-const analyzeReceiptWithOpenAI = async (
-  imageBuffer,
-  mimeType = "image/jpeg",
-) => {
-  if (!process.env.OPENAI_API_KEY) {
-    console.warn("Missing OPENAI_API_KEY, cannot use Vision API");
-    return null;
+// HEIC photos from iPhones are converted to JPEG first. Returns
+// { buffer, mimeType }, or null when the conversion fails.
+const readUploadedImage = async (file) => {
+  const isHeic =
+    file.mimetype === "image/heic" ||
+    file.mimetype === "image/heif" ||
+    file.originalname.toLowerCase().endsWith(".heic");
+
+  if (!isHeic) {
+    return { buffer: file.buffer, mimeType: file.mimetype };
   }
 
+  console.log("HEIC image detected. Converting to JPEG...");
   try {
-    console.log(`Sending image (${mimeType}) to OpenAI Vision API...`);
-    const startTime = Date.now();
-
-    const base64Image = imageBuffer.toString("base64");
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a specialized receipt scanner for gas stations. Extract data strictly in JSON format. Do not use markdown.",
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: `Analyze this fuel receipt and extract the following fields in JSON format: 
-stationName (string, use clean brand name like 'Tank ONO', 'Shell', 'Benzina', 'Chevron', 'Exxon'), 
-date (YYYY-MM-DD), 
-time (HH:MM), 
-pricePerUnit (number, price per Liter or Gallon), 
-totalUnits (number, total Liters or Gallons), 
-totalCost (number, total price in local currency). 
-
-Note: Extract units as they appear on the receipt. Today is ${new Date().toISOString().split("T")[0]}. If the year is missing or ambiguous, assume the receipt is recent (from this year ${new Date().getFullYear()}). 
-
-If totalCost is missing, calculate it from units * pricePerUnit. Simplify station names (e.g. 'ONO' -> 'Tank ONO'). Return ONLY the JSON object, no markdown.`,
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:${mimeType};base64,${base64Image}`,
-                detail: "high",
-              },
-            },
-          ],
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 500,
+    const buffer = await heicConvert({
+      buffer: file.buffer,
+      format: "JPEG",
+      quality: 0.8,
     });
+    return { buffer, mimeType: "image/jpeg" };
+  } catch (err) {
+    console.error("Failed to convert HEIC to JPEG:", err);
+    return null;
+  }
+};
 
-    console.log(`OpenAI analysis completed in ${Date.now() - startTime}ms`);
+// Reads and validates the fields of a receipt photo. Fields are null when no
+// provider could read them; provider is null when none could read the
+// receipt at all.
+const scanReceiptImage = async (image, imageUrl) => {
+  const analysis = await getReceiptAnalyzer()(image.buffer, image.mimeType);
+  const { parsed, confidence, warnings, corrections } = validateReceipt(
+    analysis.parsed,
+    analysis.provider,
+    new Date().toISOString().split("T")[0],
+  );
 
-    const content = response.choices[0].message.content;
-    console.log("OpenAI Response:", content);
+  return {
+    imageUrl,
+    thumbnailUrl: receiptThumbnailUrl(imageUrl),
+    rawText: analysis.rawText,
+    parsed,
+    provider: analysis.provider,
+    confidence,
+    warnings,
+    corrections,
+  };
+};
 
-    try {
-      return JSON.parse(content);
-    } catch (e) {
-      console.error("Failed to parse OpenAI JSON response:", e);
-      return null;
-    }
-  } catch (error) {
-    console.error("OpenAI API error:", error);
-    return null;
+const round = (value, decimals) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Scanned amounts within this share of the saved ones count as the same
+const DIFF_TOLERANCE = 0.005;
+
+const isSameValue = (field, saved, scanned) => {
+  if (saved == null) return false;
+  if (typeof scanned === "number") {
+    return Math.abs(scanned - saved) <= Math.abs(saved) * DIFF_TOLERANCE;
+  }
+  if (field === "stationName") {
+    return scanned.trim().toLowerCase() === saved.trim().toLowerCase();
   }
+  return scanned === saved;
 };
 
 // All routes require authentication
@@ -122,70 +120,184 @@ router.post("/scan", upload.single("image"), async (req, res) => {
       return res.status(400).json({ error: "No image provided" });
     }
 
-    let imageUrl = null;
-    let extractedText = "";
-    let parsedData = {};
-
-    let imageBuffer = req.file.buffer;
-    let mimeType = req.file.mimetype;
-
-    // Detect and convert HEIC
-    const isHeic =
-      mimeType === "image/heic" ||
-      mimeType === "image/heif" ||
-      req.file.originalname.toLowerCase().endsWith(".heic");
-
-    if (isHeic) {
-      console.log("HEIC image detected. Converting to JPEG...");
-      try {
-        imageBuffer = await heicConvert({
-          buffer: req.file.buffer,
-          format: "JPEG",
-          quality: 0.8,
-        });
-        mimeType = "image/jpeg";
-      } catch (err) {
-        console.error("Failed to convert HEIC to JPEG:", err);
-        return res.status(400).json({ error: "Failed to process HEIC file" });
-      }
+    const image = await readUploadedImage(req.file);
+    if (!image) {
+      return res.status(400).json({ error: "Failed to process HEIC file" });
     }
 
-    // Upload to Cloudinary
-    if (process.env.CLOUDINARY_CLOUD_NAME) {
-      try {
-        const base64Image = imageBuffer.toString("base64");
-        const dataUri = `data:${mimeType};base64,${base64Image}`;
-
-        const uploadResult = await cloudinary.uploader.upload(dataUri, {
-          folder: "tankuy/receipts",
-          resource_type: "image",
-        });
-
-        imageUrl = uploadResult.secure_url;
-      } catch (error) {
-        console.error("Cloudinary upload failed:", error);
-      }
+    const imageUrl = await saveReceiptImage(
+      req.user.userId,
+      image.buffer,
+      image.mimeType,
+    );
+
+    res.json(await scanReceiptImage(image, imageUrl));
+  } catch (error) {
+    console.error("Receipt scan error:", error);
+    res.status(500).json({ error: "Failed to scan receipt" });
+  }
+});
+
+// POST /api/receipts/upload - Store a receipt image without scanning it,
+// e.g. a photo taken offline whose entry was filled in by hand
+router.post("/upload", upload.single("image"), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: "No image provided" });
     }
 
-    // OpenAI Analysis
-    try {
-      parsedData = await analyzeReceiptWithOpenAI(imageBuffer, mimeType);
-      console.log("OpenAI parsed data:", parsedData);
-    } catch (error) {
-      console.error("OCR processing error:", error);
+    const image = await readUploadedImage(req.file);
+    if (!image) {
+      return res.status(400).json({ error: "Failed to process HEIC file" });
     }
 
-    res.json({
-      imageUrl,
-      rawText: JSON.stringify(parsedData), // For backward compatibility/debug
-      parsed: parsedData || {},
-    });
+    // Like /scan, imageUrl is null when the image could not be stored
+    const imageUrl = await saveReceiptImage(
+      req.user.userId,
+      image.buffer,
+      image.mimeType,
+    );
+
+    res.json({ imageUrl, thumbnailUrl: receiptThumbnailUrl(imageUrl) });
   } catch (error) {
-    console.error("Receipt scan error:", error);
-    res.status(500).json({ error: "Failed to scan receipt" });
+    console.error("Receipt upload error:", error);
+    res.status(500).json({ error: "Failed to upload receipt" });
+  }
+});
+
+// GET /api/receipts - Fuel entries with a receipt photo, newest first.
+// Amounts are as paid, in the currency of the receipt.
+router.get("/", async (req, res) => {
+  try {
+    const [rows] = await pool.execute(
+      `SELECT e.id, DATE_FORMAT(e.date, '%Y-%m-%d') AS date_str, e.time,
+              e.station_name, e.total_liters, e.energy_unit, e.currency,
+              COALESCE(e.original_total_cost, e.total_cost) AS paid_total,
+              e.receipt_image_url, v.name AS vehicle_name
+       FROM fuel_entries e
+       LEFT JOIN vehicles v ON e.vehicle_id = v.id
+       WHERE e.user_id = ? AND e.receipt_image_url IS NOT NULL
+       ORDER BY e.date DESC, e.time DESC`,
+      [req.user.userId],
+    );
+
+    res.json(
+      rows.map((row) => ({
+        entryId: row.id,
+        imageUrl: row.receipt_image_url,
+        thumbnailUrl: receiptThumbnailUrl(row.receipt_image_url),
+        date: row.date_str,
+        time: row.time,
+        stationName: row.station_name,
+        vehicleName: row.vehicle_name,
+        totalLiters: row.total_liters,
+        energyUnit: row.energy_unit,
+        totalCost: row.paid_total,
+        currency: row.currency,
+      })),
+    );
+  } catch (error) {
+    console.error("Get receipts error:", error);
+    res.status(500).json({ error: "Failed to get receipts" });
   }
 });
 
-// Endpoint /parse removed as we now use direct image analysis via OpenAI
+// POST /api/receipts/:entryId/rescan - Read the stored photo of an entry
+// again and compare the result with what was saved. Quantities are
+// compared in gallons for imperial users, like they were entered.
+router.post("/:entryId/rescan", async (req, res) => {
+  try {
+    const [[entry]] = await pool.execute(
+      `SELECT e.station_name, DATE_FORMAT(e.date, '%Y-%m-%d') AS date_str, e.time,
+              e.total_liters, e.energy_unit, e.currency,
+              COALESCE(e.original_price_per_liter, e.price_per_liter) AS paid_price,
+              COALESCE(e.original_total_cost, e.total_cost) AS paid_total,
+              e.receipt_image_url, u.unit_system
+       FROM fuel_entries e
+       JOIN users u ON e.user_id = u.id
+       WHERE e.id = ? AND e.user_id = ?`,
+      [req.params.entryId, req.user.userId],
+    );
+
+    if (!entry) {
+      return res.status(404).json({ error: "Entry not found" });
+    }
+    if (!entry.receipt_image_url) {
+      return res.status(400).json({ error: "Entry has no receipt image" });
+    }
+
+    const image = await loadReceiptImage(entry.receipt_image_url);
+    if (!image) {
+      return res.status(404).json({ error: "Receipt image not found" });
+    }
+
+    const scan = await scanReceiptImage(image, entry.receipt_image_url);
+
+    const volumeFactor =
+      entry.unit_system === "imperial" && entry.energy_unit !== "kWh"
+        ? LITERS_PER_GALLON
+        : 1;
+    const saved = {
+      stationName: entry.station_name,
+      date: entry.date_str,
+      time: entry.time ? entry.time.slice(0, 5) : null,
+      pricePerUnit:
+        entry.paid_price == null
+          ? null
+          : round(Number(entry.paid_price) * volumeFactor, 3),
+      totalUnits:
+        entry.total_liters == null
+          ? null
+          : round(Number(entry.total_liters) / volumeFactor, 3),
+      totalCost: Number(entry.paid_total),
+      currency: entry.currency,
+    };
+
+    // Fields the scan read differently; fields it could not read are left out
+    const differences = Object.entries(scan.parsed)
+      .filter(
+        ([field, scanned]) =>
+          scanned != null && !isSameValue(field, saved[field], scanned),
+      )
+      .map(([field, scanned]) => ({ field, saved: saved[field], scanned }));
+
+    res.json({ ...scan, saved, differences });
+  } catch (error) {
+    console.error("Receipt rescan error:", error);
+    res.status(500).json({ error: "Failed to rescan receipt" });
+  }
+});
+
+// Photos kept on the local disk or S3 are only served to their owner
+const sendReceiptImage = (thumbnail) => async (req, res) => {
+  try {
+    const { userId, file } = req.params;
+    const key = `${userId}/${file}`;
+    if (
+      !isValidKey(key) ||
+      !(await ownsReceiptKey(pool, req.user.userId, key))
+    ) {
+      return res.status(404).json({ error: "Image not found" });
+    }
+
+    const image = await readReceiptImage(key, { thumbnail });
+    if (!image) {
+      return res.status(404).json({ error: "Image not found" });
+    }
+
+    // Stored images never change; each upload gets a new key
+    res.set("Cache-Control", "private, max-age=31536000, immutable");
+    res.type(image.mimeType).send(image.buffer);
+  } catch (error) {
+    console.error("Receipt image error:", error);
+    res.status(500).json({ error: "Failed to load image" });
+  }
+};
+
+// GET /api/receipts/images/:userId/:file - A stored receipt photo
+router.get("/images/:userId/:file", sendReceiptImage(false));
+
+// GET /api/receipts/images/:userId/:file/thumbnail - Its preview
+router.get("/images/:userId/:file/thumbnail", sendReceiptImage(true));
 
 export default router;
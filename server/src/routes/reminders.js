@@ -0,0 +1,332 @@
+import express from "express";
+import { v4 as uuidv4 } from "uuid";
+import pool from "../db/connection.js";
+import { authMiddleware } from "../middleware/auth.js";
+import { vehicleOwnerMiddleware } from "../middleware/vehicle.js";
+
+// Mounted at /api/vehicles/:vehicleId/reminders
+const router = express.Router({ mergeParams: true });
+
+// A reminder counts as "due" this far ahead of its deadline
+const DUE_SOON_KM = 1000;
+const DUE_SOON_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Every route is scoped to a vehicle the user owns
+router.use(vehicleOwnerMiddleware);
+
+const formatDate = (d) => {
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+// DATE columns come back as local-midnight Date objects, request bodies as strings
+const parseDate = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const [year, month, day] = String(value).split("T")[0].split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addMonths = (date, months) =>
+  new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+
+const getCurrentMileage = async (vehicleId, userId) => {
+  const [rows] = await pool.execute(
+    "SELECT MAX(mileage) as mileage FROM fuel_entries WHERE vehicle_id = ? AND user_id = ?",
+    [vehicleId, userId],
+  );
+  return rows[0].mileage ?? null;
+};
+
+/**
+ * Work out when a reminder is next due and how close that is.
+ * A fixed due_date wins over the month interval; the km interval counts from
+ * the odometer reading at which the task was last done. Whichever deadline
+ * comes first decides the status.
+ */
+const computeReminder = (row, currentMileage, today) => {
+  const lastDoneDate = parseDate(row.last_done_date);
+
+  let dueDate = parseDate(row.due_date);
+  if (!dueDate && row.interval_months && lastDoneDate) {
+    dueDate = addMonths(lastDoneDate, row.interval_months);
+  }
+
+  const dueMileage =
+    row.interval_km && row.last_done_mileage != null
+      ? row.last_done_mileage + row.interval_km
+      : null;
+
+  const daysLeft = dueDate
+    ? Math.round((dueDate.getTime() - today.getTime()) / MS_PER_DAY)
+    : null;
+  const kmLeft =
+    dueMileage != null && currentMileage != null
+      ? dueMileage - currentMileage
+      : null;
+
+  let status = "ok";
+  if ((daysLeft != null && daysLeft < 0) || (kmLeft != null && kmLeft <= 0)) {
+    status = "overdue";
+  } else if (
+    (daysLeft != null && daysLeft <= DUE_SOON_DAYS) ||
+    (kmLeft != null && kmLeft <= DUE_SOON_KM)
+  ) {
+    status = "due";
+  }
+
+  return {
+    id: row.id,
+    vehicleId: row.vehicle_id,
+    title: row.title,
+    intervalKm: row.interval_km,
+    intervalMonths: row.interval_months,
+    dueDate: dueDate ? formatDate(dueDate) : null,
+    dueMileage,
+    lastDoneDate: lastDoneDate ? formatDate(lastDoneDate) : null,
+    lastDoneMileage: row.last_done_mileage,
+    notes: row.notes,
+    daysLeft,
+    kmLeft,
+    status,
+  };
+};
+
+const validateReminder = ({ title, intervalKm, intervalMonths, dueDate }) => {
+  if (!title || !title.trim()) {
+    return "Title is required";
+  }
+  if (!intervalKm && !intervalMonths && !dueDate) {
+    return "Set a distance interval, a month interval or a due date";
+  }
+  if (
+    (intervalKm != null && !(Number(intervalKm) > 0)) ||
+    (intervalMonths != null && !(Number(intervalMonths) > 0))
+  ) {
+    return "Intervals must be positive numbers";
+  }
+  return null;
+};
+
+const getReminderResponse = async (req, id) => {
+  const [rows] = await pool.execute(
+    "SELECT * FROM maintenance_reminders WHERE id = ?",
+    [id],
+  );
+  const currentMileage = await getCurrentMileage(
+    req.params.vehicleId,
+    req.user.userId,
+  );
+  return computeReminder(rows[0], currentMileage, parseDate(new Date()));
+};
+
+// GET /api/vehicles/:vehicleId/reminders - List reminders with due state
+router.get("/", async (req, res) => {
+  try {
+    const [rows] = await pool.execute(
+      `SELECT * FROM maintenance_reminders
+       WHERE vehicle_id = ? AND user_id = ?
+       ORDER BY created_at ASC`,
+      [req.params.vehicleId, req.user.userId],
+    );
+
+    const currentMileage = await getCurrentMileage(
+      req.params.vehicleId,
+      req.user.userId,
+    );
+    const today = parseDate(new Date());
+
+    res.json({
+      currentMileage,
+      reminders: rows.map((row) => computeReminder(row, currentMileage, today)),
+    });
+  } catch (error) {
+    console.error("Get reminders error:", error);
+    res.status(500).json({ error: "Failed to get reminders" });
+  }
+});
+
+// POST /api/vehicles/:vehicleId/reminders - Create a reminder
+router.post("/", async (req, res) => {
+  try {
+    const {
+      title,
+      intervalKm,
+      intervalMonths,
+      dueDate,
+      lastDoneDate,
+      lastDoneMileage,
+      notes,
+    } = req.body;
+
+    const validationError = validateReminder(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Intervals start counting from now unless told otherwise
+    const startMileage =
+      lastDoneMileage ??
+      (intervalKm
+        ? await getCurrentMileage(req.params.vehicleId, req.user.userId)
+        : null);
+    const startDate =
+      lastDoneDate ?? (intervalMonths ? formatDate(new Date()) : null);
+
+    const reminderId = uuidv4();
+
+    await pool.execute(
+      `INSERT INTO maintenance_reminders
+       (id, user_id, vehicle_id, title, interval_km, interval_months, due_date, last_done_date, last_done_mileage, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        reminderId,
+        req.user.userId,
+        req.params.vehicleId,
+        title.trim(),
+        intervalKm || null,
+        intervalMonths || null,
+        dueDate || null,
+        startDate,
+        startMileage,
+        notes ?? null,
+      ],
+    );
+
+    res.status(201).json(await getReminderResponse(req, reminderId));
+  } catch (error) {
+    console.error("Add reminder error:", error);
+    res.status(500).json({ error: "Failed to add reminder" });
+  }
+});
+
+// PUT /api/vehicles/:vehicleId/reminders/:id - Update a reminder
+router.put("/:id", async (req, res) => {
+  try {
+    const {
+      title,
+      intervalKm,
+      intervalMonths,
+      dueDate,
+      lastDoneDate,
+      lastDoneMileage,
+      notes,
+    } = req.body;
+
+    const validationError = validateReminder(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const [existing] = await pool.execute(
+      "SELECT id FROM maintenance_reminders WHERE id = ? AND vehicle_id = ? AND user_id = ?",
+      [req.params.id, req.params.vehicleId, req.user.userId],
+    );
+
+    if (existing.length === 0) {
+      return res.status(404).json({ error: "Reminder not found" });
+    }
+
+    await pool.execute(
+      `UPDATE maintenance_reminders SET
+       title = ?, interval_km = ?, interval_months = ?, due_date = ?,
+       last_done_date = ?, last_done_mileage = ?, notes = ?, updated_at = NOW()
+       WHERE id = ? AND user_id = ?`,
+      [
+        title.trim(),
+        intervalKm || null,
+        intervalMonths || null,
+        dueDate || null,
+        lastDoneDate || null,
+        lastDoneMileage ?? null,
+        notes ?? null,
+        req.params.id,
+        req.user.userId,
+      ],
+    );
+
+    res.json(await getReminderResponse(req, req.params.id));
+  } catch (error) {
+    console.error("Update reminder error:", error);
+    res.status(500).json({ error: "Failed to update reminder" });
+  }
+});
+
+// POST /api/vehicles/:vehicleId/reminders/:id/complete - Mark a reminder as done
+// Restarts the intervals from today and the latest odometer reading. Reminders
+// with a fixed due date can pass the next one (e.g. the renewed vignette).
+router.post("/:id/complete", async (req, res) => {
+  try {
+    const { date, mileage, dueDate } = req.body;
+
+    const [existing] = await pool.execute(
+      "SELECT * FROM maintenance_reminders WHERE id = ? AND vehicle_id = ? AND user_id = ?",
+      [req.params.id, req.params.vehicleId, req.user.userId],
+    );
+
+    if (existing.length === 0) {
+      return res.status(404).json({ error: "Reminder not found" });
+    }
+
+    // A fixed date only carries over when there is no month interval to follow
+    const nextDueDate =
+      dueDate || (existing[0].interval_months ? null : existing[0].due_date);
+
+    const doneMileage =
+      mileage ??
+      (await getCurrentMileage(req.params.vehicleId, req.user.userId));
+
+    await pool.execute(
+      `UPDATE maintenance_reminders SET
+       last_done_date = ?, last_done_mileage = ?, due_date = ?, updated_at = NOW()
+       WHERE id = ? AND user_id = ?`,
+      [
+        date || formatDate(new Date()),
+        doneMileage,
+        nextDueDate,
+        req.params.id,
+        req.user.userId,
+      ],
+    );
+
+    res.json(await getReminderResponse(req, req.params.id));
+  } catch (error) {
+    console.error("Complete reminder error:", error);
+    res.status(500).json({ error: "Failed to complete reminder" });
+  }
+});
+
+// DELETE /api/vehicles/:vehicleId/reminders/:id - Delete a reminder
+router.delete("/:id", async (req, res) => {
+  try {
+    const [existing] = await pool.execute(
+      "SELECT id FROM maintenance_reminders WHERE id = ? AND vehicle_id = ? AND user_id = ?",
+      [req.params.id, req.params.vehicleId, req.user.userId],
+    );
+
+    if (existing.length === 0) {
+      return res.status(404).json({ error: "Reminder not found" });
+    }
+
+    await pool.execute(
+      "DELETE FROM maintenance_reminders WHERE id = ? AND user_id = ?",
+      [req.params.id, req.user.userId],
+    );
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete reminder error:", error);
+    res.status(500).json({ error: "Failed to delete reminder" });
+  }
+});
+
+export default router;
@@ -0,0 +1,115 @@
+import express from "express";
+import pool from "../db/connection.js";
+import { authMiddleware } from "../middleware/auth.js";
+import { mapEntry } from "./entries.js";
+import { mapVehicle } from "./vehicles.js";
+
+const router = express.Router();
+
+// Tombstones older than this are purged. A client whose cursor is older gets a
+// full snapshot instead of a delta, since it may have missed deletions.
+const TOMBSTONE_RETENTION_DAYS = 90;
+
+// How often to purge expired tombstones
+const PURGE_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+let lastPurge = 0;
+
+const purgeTombstones = async () => {
+  if (Date.now() - lastPurge < PURGE_INTERVAL) return;
+  lastPurge = Date.now();
+  try {
+    await pool.execute(
+      "DELETE FROM sync_tombstones WHERE deleted_at < NOW() - INTERVAL ? DAY",
+      [TOMBSTONE_RETENTION_DAYS],
+    );
+  } catch (error) {
+    console.error("Failed to purge sync tombstones:", error.message);
+  }
+};
+
+// A write can commit a little after its updated_at was set, so the cursor
+// trails the clock by this much and such rows still land in the next delta
+const CURSOR_OVERLAP_SECONDS = 10;
+
+// Cursors are database timestamps ("YYYY-MM-DD HH:MM:SS"); clients should
+// treat them as opaque
+const CURSOR_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+router.use(authMiddleware);
+
+// GET /api/sync?since=<cursor>
+// Vehicles and fuel entries created or changed since the cursor, and the ids
+// of those deleted since. Without `since`, or when the cursor is too old,
+// everything is returned with full: true and the client should replace its
+// copy. Pass the returned cursor next time. Consecutive deltas overlap by a
+// few seconds, so a row may come back again; apply them by id.
+// Derived values (vehicle totals, an entry's vehicleName) are not tracked:
+// a renamed vehicle comes back, its entries do not.
+router.get("/", async (req, res) => {
+  try {
+    const { since } = req.query;
+
+    if (since !== undefined && !CURSOR_PATTERN.test(since)) {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
+
+    purgeTombstones();
+
+    // Read before the data so anything written meanwhile is in the next delta
+    const [[clock]] = await pool.query(
+      `SELECT
+         DATE_FORMAT(NOW() - INTERVAL ? SECOND, '%Y-%m-%d %H:%i:%s') AS next_cursor,
+         ? < NOW() - INTERVAL ? DAY AS expired`,
+      [CURSOR_OVERLAP_SECONDS, since ?? null, TOMBSTONE_RETENTION_DAYS],
+    );
+    const full = !since || !!clock.expired;
+    const userId = req.user.userId;
+
+    const changedSince = (table) =>
+      full ? "" : ` AND ${table}.updated_at >= ?`;
+    const params = full ? [userId] : [userId, since];
+
+    const [vehicles] = await pool.execute(
+      `SELECT v.* FROM vehicles v WHERE v.user_id = ?${changedSince("v")}`,
+      params,
+    );
+    const [entries] = await pool.execute(
+      `SELECT e.*, v.name as vehicle_name
+       FROM fuel_entries e
+       LEFT JOIN vehicles v ON e.vehicle_id = v.id
+       WHERE e.user_id = ?${changedSince("e")}`,
+      params,
+    );
+
+    let tombstones = [];
+    if (!full) {
+      [tombstones] = await pool.execute(
+        `SELECT record_type, record_id FROM sync_tombstones
+         WHERE user_id = ? AND deleted_at >= ?`,
+        [userId, since],
+      );
+    }
+
+    const deletedIds = (type) =>
+      tombstones
+        .filter((row) => row.record_type === type)
+        .map((row) => row.record_id);
+
+    res.json({
+      cursor: clock.next_cursor,
+      full,
+      vehicles: vehicles.map(mapVehicle),
+      entries: entries.map(mapEntry),
+      deleted: {
+        vehicles: deletedIds("vehicle"),
+        entries: deletedIds("fuel_entry"),
+      },
+    });
+  } catch (error) {
+    console.error("Sync error:", error);
+    res.status(500).json({ error: "Failed to sync" });
+  }
+});
+
+export default router;
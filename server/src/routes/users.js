@@ -1,6 +1,12 @@
 import express from "express";
 import pool from "../db/connection.js";
 import { authMiddleware } from "../middleware/auth.js";
+import {
+  deleteOwnerReceiptImages,
+  deleteUnusedReceiptImages,
+  receiptOwnerIds,
+} from "../utils/receiptStorage.js";
+import { isSupportedCurrency } from "./exchange.js";
 
 const router = express.Router();
 
@@ -15,6 +21,7 @@ const mapUser = (row) => ({
   avatarUrl: row.avatar_url,
   currency: row.currency || "CZK",
   unitSystem: row.unit_system || "metric",
+  isGuest: !!row.is_guest,
   createdAt: row.created_at,
 });
 
@@ -22,7 +29,7 @@ const mapUser = (row) => ({
 router.get("/me", async (req, res) => {
   try {
     const [users] = await pool.execute(
-      "SELECT id, email, name, avatar_url, currency, unit_system, created_at FROM users WHERE id = ?",
+      "SELECT id, email, name, avatar_url, currency, unit_system, is_guest, created_at FROM users WHERE id = ?",
       [req.user.userId],
     );
 
@@ -50,6 +57,9 @@ router.put("/me", async (req, res) => {
       params.push(name);
     }
     if (currency !== undefined) {
+      if (!isSupportedCurrency(currency)) {
+        return res.status(400).json({ error: "Unsupported currency" });
+      }
       updates.push("currency = ?");
       params.push(currency);
     }
@@ -68,7 +78,7 @@ router.put("/me", async (req, res) => {
     }
 
     const [users] = await pool.execute(
-      "SELECT id, email, name, avatar_url, currency, unit_system, created_at FROM users WHERE id = ?",
+      "SELECT id, email, name, avatar_url, currency, unit_system, is_guest, created_at FROM users WHERE id = ?",
       [req.user.userId],
     );
 
@@ -79,6 +89,107 @@ router.put("/me", async (req, res) => {
   }
 });
 
+// GET /api/users/me/export - Download everything stored about the user
+router.get("/me/export", async (req, res) => {
+  try {
+    const userId = req.user.userId;
+
+    const [users] = await pool.execute(
+      "SELECT id, email, name, avatar_url, currency, unit_system, is_guest, created_at FROM users WHERE id = ?",
+      [userId],
+    );
+
+    if (users.length === 0) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const [vehicles] = await pool.execute(
+      "SELECT * FROM vehicles WHERE user_id = ? ORDER BY created_at ASC",
+      [userId],
+    );
+    const [fuelEntries] = await pool.execute(
+      "SELECT * FROM fuel_entries WHERE user_id = ? ORDER BY date ASC, time ASC",
+      [userId],
+    );
+    const [maintenanceEntries] = await pool.execute(
+      "SELECT * FROM maintenance_entries WHERE user_id = ? ORDER BY date ASC",
+      [userId],
+    );
+    const [maintenanceReminders] = await pool.execute(
+      "SELECT * FROM maintenance_reminders WHERE user_id = ? ORDER BY created_at ASC",
+      [userId],
+    );
+    const [budgets] = await pool.execute(
+      "SELECT * FROM budgets WHERE user_id = ? ORDER BY created_at ASC",
+      [userId],
+    );
+    // Refresh tokens are credentials, not personal data
+    const [devices] = await pool.execute(
+      "SELECT id, device_id, device_name, last_used_at, created_at FROM device_tokens WHERE user_id = ?",
+      [userId],
+    );
+
+    const receiptImageUrls = [...fuelEntries, ...maintenanceEntries]
+      .map((entry) => entry.receipt_image_url)
+      .filter(Boolean);
+
+    const filename = `tankuy-export-${new Date().toISOString().split("T")[0]}.json`;
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.json({
+      exportedAt: new Date().toISOString(),
+      user: mapUser(users[0]),
+      vehicles,
+      fuelEntries,
+      maintenanceEntries,
+      maintenanceReminders,
+      budgets,
+      devices,
+      receiptImageUrls,
+    });
+  } catch (error) {
+    console.error("Export user data error:", error);
+    res.status(500).json({ error: "Failed to export user data" });
+  }
+});
+
+// DELETE /api/users/me - Delete the account and everything attached to it
+// Vehicles, entries and devices go with the user row via ON DELETE CASCADE;
+// receipt images are stored outside the database and removed separately:
+// the ones on the user's entries, and on the local disk or S3 everything
+// stored under the user's ids, including scans that were never saved.
+router.delete("/me", async (req, res) => {
+  try {
+    const userId = req.user.userId;
+
+    const [images] = await pool.execute(
+      `SELECT receipt_image_url FROM fuel_entries WHERE user_id = ? AND receipt_image_url IS NOT NULL
+       UNION
+       SELECT receipt_image_url FROM maintenance_entries WHERE user_id = ? AND receipt_image_url IS NOT NULL`,
+      [userId, userId],
+    );
+    const ownerIds = await receiptOwnerIds(pool, userId);
+
+    const [result] = await pool.execute("DELETE FROM users WHERE id = ?", [
+      userId,
+    ]);
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    await deleteUnusedReceiptImages(
+      pool,
+      images.map((row) => row.receipt_image_url),
+    );
+    await deleteOwnerReceiptImages(ownerIds);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete user error:", error);
+    res.status(500).json({ error: "Failed to delete account" });
+  }
+});
+
 // GET /api/users/devices - Get user's logged in devices
 router.get("/devices", async (req, res) => {
   try {
@@ -2,9 +2,24 @@ import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import pool from '../db/connection.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { recordTombstone } from '../utils/tombstones.js';
+import { deleteUnusedReceiptImages } from '../utils/receiptStorage.js';
 
 const router = express.Router();
 
+// API shape of a vehicles row, without the totals GET / adds
+export const mapVehicle = v => ({
+  id: v.id,
+  name: v.name,
+  licensePlate: v.license_plate,
+  fuelType: v.fuel_type,
+  brand: v.brand,
+  model: v.model,
+  year: v.year,
+  engine: v.engine,
+  enginePower: v.engine_power,
+});
+
 // All routes require authentication
 router.use(authMiddleware);
 
@@ -12,21 +27,21 @@ router.use(authMiddleware);
 router.get('/', async (req, res) => {
   try {
     const [vehicles] = await pool.execute(
-      `SELECT id, name, license_plate, fuel_type, brand, model, year, engine, engine_power, created_at 
-       FROM vehicles WHERE user_id = ? ORDER BY created_at DESC`,
+      `SELECT v.id, v.name, v.license_plate, v.fuel_type, v.brand, v.model, v.year, v.engine, v.engine_power, v.created_at,
+        (SELECT COALESCE(SUM(total_cost), 0) FROM fuel_entries WHERE vehicle_id = v.id) as fuel_cost,
+        (SELECT COALESCE(SUM(cost), 0) FROM maintenance_entries WHERE vehicle_id = v.id) as maintenance_cost,
+        (SELECT mileage FROM fuel_entries WHERE vehicle_id = v.id AND mileage IS NOT NULL ORDER BY date DESC, time DESC LIMIT 1) as latest_mileage
+       FROM vehicles v WHERE v.user_id = ? ORDER BY v.created_at DESC`,
       [req.user.userId]
     );
 
     const mappedVehicles = vehicles.map(v => ({
-      id: v.id,
-      name: v.name,
-      licensePlate: v.license_plate,
-      fuelType: v.fuel_type,
-      brand: v.brand,
-      model: v.model,
-      year: v.year,
-      engine: v.engine,
-      enginePower: v.engine_power,
+      ...mapVehicle(v),
+      // Total cost of ownership = fuel + maintenance
+      fuelCost: parseFloat(v.fuel_cost),
+      maintenanceCost: parseFloat(v.maintenance_cost),
+      // Odometer reading of the most recent fill-up that recorded one
+      latestMileage: v.latest_mileage,
     }));
 
     res.json(mappedVehicles);
@@ -128,11 +143,36 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Vehicle not found' });
     }
 
-    await pool.execute(
-      'DELETE FROM vehicles WHERE id = ? AND user_id = ?',
+    // Maintenance entries go with the vehicle through the foreign key
+    const [maintenance] = await pool.execute(
+      'SELECT receipt_image_url FROM maintenance_entries WHERE vehicle_id = ? AND user_id = ? AND receipt_image_url IS NOT NULL',
       [req.params.id, req.user.userId]
     );
 
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      // The foreign key would detach the entries too, but a cascade doesn't
+      // touch updated_at and sync would never report them
+      await connection.execute(
+        'UPDATE fuel_entries SET vehicle_id = NULL WHERE vehicle_id = ? AND user_id = ?',
+        [req.params.id, req.user.userId]
+      );
+      await connection.execute(
+        'DELETE FROM vehicles WHERE id = ? AND user_id = ?',
+        [req.params.id, req.user.userId]
+      );
+      await recordTombstone(connection, req.user.userId, 'vehicle', req.params.id);
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    await deleteUnusedReceiptImages(pool, maintenance.map(row => row.receipt_image_url));
+
     res.json({ success: true });
   } catch (error) {
     console.error('Delete vehicle error:', error);
@@ -0,0 +1,70 @@
+// Minimal RFC 4180 helpers for data export
+
+export const escapeCsvValue = (value) => {
+  if (value === null || value === undefined) return "";
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const toCsvRow = (values) =>
+  values.map(escapeCsvValue).join(",") + "\r\n";
+
+// Picks whichever of , ; or tab appears most in the first few lines
+export const detectDelimiter = (text) => {
+  const sample = text.split(/\r?\n/).slice(0, 5).join("\n");
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of [",", ";", "\t"]) {
+    const count = sample.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// Parses CSV text into an array of rows (arrays of strings). Handles quoted
+// fields with embedded delimiters, newlines and "" escapes.
+export const parseCsv = (text, delimiter = detectDelimiter(text)) => {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
@@ -0,0 +1,59 @@
+import fs from "fs";
+import { fileURLToPath } from "url";
+
+// Sources of daily exchange rates. A provider returns the ECB reference rates
+// (1 EUR in each currency) for every business day in a date range:
+// [{ date: "YYYY-MM-DD", rates: { CZK: 25.147, USD: 1.0321, ... } }]
+
+const DEFAULT_FIXTURE = fileURLToPath(
+  new URL("../../fixtures/exchange-rates.json", import.meta.url),
+);
+
+// Frankfurter API — free, no key needed, European Central Bank data
+const frankfurterProvider = {
+  name: "frankfurter",
+  fetchRange: async (start, end) => {
+    const response = await fetch(
+      `https://api.frankfurter.app/${start}..${end}`,
+    );
+    if (!response.ok) {
+      throw new Error(`Frankfurter responded with ${response.status}`);
+    }
+    const data = await response.json();
+    return Object.entries(data.rates || {}).map(([date, rates]) => ({
+      date,
+      rates,
+    }));
+  },
+};
+
+// Reads a Frankfurter-style time series from disk, so the server runs without
+// network access: { "base": "EUR", "rates": { "2025-01-02": { "CZK": 25.147 } } }
+export const createFixtureProvider = (filePath = DEFAULT_FIXTURE) => {
+  const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  const days = Object.entries(data.rates || {})
+    .map(([date, rates]) => ({ date, rates }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    name: "fixture",
+    fetchRange: async (start, end) =>
+      days.filter((day) => day.date >= start && day.date <= end),
+  };
+};
+
+// EXCHANGE_RATE_PROVIDER=frankfurter (default) or fixture, which reads
+// EXCHANGE_RATE_FIXTURE or the bundled sample file
+export const createExchangeRateProvider = () => {
+  const name = process.env.EXCHANGE_RATE_PROVIDER || "frankfurter";
+
+  if (name === "fixture") {
+    return createFixtureProvider(
+      process.env.EXCHANGE_RATE_FIXTURE || DEFAULT_FIXTURE,
+    );
+  }
+  if (name !== "frankfurter") {
+    throw new Error(`Unknown EXCHANGE_RATE_PROVIDER "${name}"`);
+  }
+  return frankfurterProvider;
+};
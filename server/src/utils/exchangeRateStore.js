@@ -0,0 +1,268 @@
+// Daily exchange rates kept in the exchange_rates table and fetched from a
+// provider (see exchangeRateProviders.js) for whatever days a lookup needs.
+// The ECB publishes every rate against the euro; those are stored and any
+// other pair is derived from two of them.
+
+const ECB_BASE = "EUR";
+
+// Rates only exist for business days. A stored rate up to this many days
+// before a date covers it (weekends, Easter); a longer gap means that stretch
+// was never fetched.
+const MAX_RATE_GAP_DAYS = 5;
+
+// How often to ask the provider for newly published days
+const LATEST_REFRESH_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+export const shiftDate = (dateStr, days) => {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+};
+
+const daysBetween = (from, to) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+
+const defaultToday = () => new Date().toISOString().split("T")[0];
+
+/**
+ * A rate store on `db` (a mysql2 pool). `getProvider` returns the provider to
+ * backfill from; `getFallbackProvider` one that works offline, used to seed an
+ * empty table when the provider has nothing. Only `currencies` are stored.
+ */
+export const createRateStore = ({
+  db,
+  getProvider,
+  getFallbackProvider,
+  currencies,
+  today = defaultToday,
+}) => {
+  let lastLatestRefresh = 0;
+  let seeded = false;
+
+  // Closed historical ranges already requested during this process, so a
+  // range the provider has no data for is not requested again on every lookup
+  const requestedRanges = new Set();
+
+  const storeRates = async (days) => {
+    const values = [];
+    for (const { date, rates } of days) {
+      for (const [currency, rate] of Object.entries({
+        ...rates,
+        [ECB_BASE]: 1,
+      })) {
+        if (currencies.includes(currency) && rate > 0) {
+          values.push([date, currency, rate]);
+        }
+      }
+    }
+    if (values.length === 0) return;
+
+    // query() rather than execute() so the nested array expands into rows
+    await db.query(
+      `INSERT INTO exchange_rates (rate_date, currency, rate) VALUES ?
+       ON DUPLICATE KEY UPDATE rate = VALUES(rate)`,
+      [values],
+    );
+  };
+
+  // Fetch [start, end] from the provider a year at a time and store it.
+  // Failures are logged rather than thrown: lookups then make do with the
+  // nearest stored rate.
+  const backfillRange = async (start, end) => {
+    const key = `${start}..${end}`;
+    const closed = end < shiftDate(today(), -MAX_RATE_GAP_DAYS);
+    if (closed && requestedRanges.has(key)) return;
+
+    try {
+      for (let from = start; from <= end;) {
+        const to = shiftDate(from, 365) < end ? shiftDate(from, 365) : end;
+        await storeRates(await getProvider().fetchRange(from, to));
+        from = shiftDate(to, 1);
+      }
+      if (closed) requestedRanges.add(key);
+    } catch (error) {
+      console.error(
+        `Failed to fetch exchange rates for ${key}:`,
+        error.message,
+      );
+    }
+  };
+
+  // Pull the days published since the last refresh
+  const refreshLatestRates = async () => {
+    if (Date.now() - lastLatestRefresh < LATEST_REFRESH_INTERVAL) return;
+    lastLatestRefresh = Date.now();
+    await backfillRange(shiftDate(today(), -MAX_RATE_GAP_DAYS), today());
+  };
+
+  // Backfill whatever part of [start, end] exchange_rates does not cover yet
+  const ensureRatesCovered = async (start, end) => {
+    if (end > today()) end = today();
+    if (start > end) start = end;
+
+    const [rows] = await db.execute(
+      `SELECT DISTINCT DATE_FORMAT(rate_date, '%Y-%m-%d') AS date
+       FROM exchange_rates WHERE rate_date >= ? AND rate_date <= ?`,
+      [shiftDate(start, -MAX_RATE_GAP_DAYS), end],
+    );
+    const stored = new Set(rows.map((row) => row.date));
+
+    let lastStored = null;
+    let firstMissing = null;
+    let lastMissing = null;
+    for (
+      let date = shiftDate(start, -MAX_RATE_GAP_DAYS);
+      date <= end;
+      date = shiftDate(date, 1)
+    ) {
+      if (stored.has(date)) lastStored = date;
+      if (
+        date >= start &&
+        (!lastStored || daysBetween(lastStored, date) > MAX_RATE_GAP_DAYS)
+      ) {
+        firstMissing = firstMissing || date;
+        lastMissing = date;
+      }
+    }
+
+    if (firstMissing) {
+      // Start early enough to find the business day before the first date
+      await backfillRange(
+        shiftDate(firstMissing, -MAX_RATE_GAP_DAYS),
+        lastMissing,
+      );
+    }
+  };
+
+  // The day to read rates from for `start`: the last stored day up to it, or
+  // the earliest stored day when `start` predates them all
+  const findStartDay = async (start) => {
+    const [[bounds]] = await db.execute(
+      `SELECT
+         (SELECT DATE_FORMAT(MAX(rate_date), '%Y-%m-%d') FROM exchange_rates WHERE rate_date <= ?) AS before_start,
+         (SELECT DATE_FORMAT(MIN(rate_date), '%Y-%m-%d') FROM exchange_rates) AS earliest`,
+      [start],
+    );
+    return bounds.before_start || bounds.earliest;
+  };
+
+  // An empty table after backfilling means the provider is unreachable; the
+  // bundled rates are approximate but beat failing every conversion
+  const seedFromFallback = async () => {
+    if (seeded || !getFallbackProvider) return;
+    seeded = true;
+    try {
+      const fallback = getFallbackProvider();
+      await storeRates(await fallback.fetchRange("0000-01-01", "9999-12-31"));
+      console.warn("Exchange rates unavailable, using the bundled rates");
+    } catch (error) {
+      console.error("Failed to seed exchange rates:", error.message);
+    }
+  };
+
+  /**
+   * Stored rates (1 EUR in each of `wanted`) for each of the given dates.
+   * Each currency carries its last published rate forward over weekends and
+   * holidays. Dates older than anything stored use the earliest stored rates,
+   * so an offline server still converts.
+   * Returns a Map of date -> { date: day the rates are from, rates }.
+   */
+  const getStoredRates = async (wanted, dates) => {
+    const result = new Map();
+    const sorted = [...new Set(dates)].sort();
+    if (sorted.length === 0) return result;
+
+    const start = sorted[0];
+    const end = sorted[sorted.length - 1];
+
+    if (end >= shiftDate(today(), -MAX_RATE_GAP_DAYS)) {
+      await refreshLatestRates();
+    }
+    await ensureRatesCovered(start, end);
+
+    let from = await findStartDay(start);
+    if (!from) {
+      await seedFromFallback();
+      from = await findStartDay(start);
+    }
+    if (!from) return result;
+
+    const [rows] = await db.query(
+      `SELECT DATE_FORMAT(rate_date, '%Y-%m-%d') AS date, currency, rate
+       FROM exchange_rates
+       WHERE currency IN (?) AND rate_date >= ? AND rate_date <= ?
+       ORDER BY rate_date ASC`,
+      [wanted, from, end > from ? end : from],
+    );
+
+    const days = [];
+    for (const row of rows) {
+      if (days[days.length - 1]?.date !== row.date) {
+        days.push({ date: row.date, rates: {} });
+      }
+      days[days.length - 1].rates[row.currency] = Number(row.rate);
+    }
+
+    let index = 0;
+    let current = null;
+    for (const date of sorted) {
+      while (index < days.length && (days[index].date <= date || !current)) {
+        current = {
+          date: days[index].date,
+          rates: { ...current?.rates, ...days[index].rates },
+        };
+        index++;
+        // Offline fallback: the first stored day is later than this date
+        if (current.date > date) break;
+      }
+      if (current) result.set(date, current);
+    }
+
+    return result;
+  };
+
+  /**
+   * Rates from one currency to another on each of the given dates
+   * (YYYY-MM-DD), as a Map of date -> rate. Throws when a pair has no stored
+   * rate at all.
+   */
+  const getRatesForDates = async (from, to, dates) => {
+    const result = new Map();
+
+    if (from === to) {
+      dates.forEach((date) => result.set(date, 1));
+      return result;
+    }
+
+    const stored = await getStoredRates([from, to], dates);
+    for (const date of dates) {
+      const rates = stored.get(date)?.rates;
+      if (!rates?.[from] || !rates?.[to]) {
+        throw new Error(`No exchange rate for ${from} -> ${to} on ${date}`);
+      }
+      result.set(date, rates[to] / rates[from]);
+    }
+
+    return result;
+  };
+
+  // Every stored currency against `base` on a date, or null when nothing is
+  // stored. `date` in the result is the business day the rates are from.
+  const getRatesOnDate = async (date, base) => {
+    const stored = (await getStoredRates(currencies, [date])).get(date);
+    if (!stored || !stored.rates[base]) return null;
+
+    return {
+      base,
+      date: stored.date,
+      rates: Object.fromEntries(
+        Object.entries(stored.rates).map(([currency, rate]) => [
+          currency,
+          rate / stored.rates[base],
+        ]),
+      ),
+    };
+  };
+
+  return { refreshLatestRates, getRatesForDates, getRatesOnDate };
+};
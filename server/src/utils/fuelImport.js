@@ -0,0 +1,320 @@
+import { parseCsv, detectDelimiter } from "./csv.js";
+
+// Maps CSV exports from other fuel trackers onto fuel_entries fields.
+// Headers are matched after normalising ("Odo (km)" -> "odo"), so each
+// format lists the header names it is known to use. Values are imported as
+// they are: the files are expected to be in km and liters. Amounts are in the
+// currency picked for the import and converted to CZK when saved.
+
+export const IMPORT_FIELDS = [
+  "date",
+  "time",
+  "mileage",
+  "totalLiters",
+  "pricePerLiter",
+  "totalCost",
+  "fullTank",
+  "missedFillup",
+  "stationName",
+  "stationAddress",
+  "stationLat",
+  "stationLng",
+  "notes",
+];
+
+export const IMPORT_FORMATS = {
+  // Fuelio: several "## Section" blocks, fill-ups live under "## Log"
+  fuelio: {
+    delimiter: ",",
+    dateOrder: "YMD",
+    decimalComma: false,
+    columns: {
+      date: ["data", "date"],
+      mileage: ["odo"],
+      totalLiters: ["fuel"],
+      fullTank: ["full"],
+      totalCost: ["price"],
+      pricePerLiter: ["volumeprice"],
+      stationLat: ["latitude"],
+      stationLng: ["longitude"],
+      stationAddress: ["city"],
+      notes: ["notes"],
+      missedFillup: ["missed"],
+    },
+  },
+  // Spritmonitor.de: semicolon separated, German number and date formats
+  spritmonitor: {
+    delimiter: ";",
+    dateOrder: "DMY",
+    decimalComma: true,
+    columns: {
+      date: ["date", "datum"],
+      mileage: ["odometer", "kilometerstand"],
+      totalLiters: ["quantity", "menge"],
+      totalCost: ["totalprice", "gesamtpreis", "kosten"],
+      fullTank: ["type", "tankart", "betankungsart"],
+      stationName: ["station", "tankstelle"],
+      stationAddress: ["location", "ort"],
+      notes: ["note", "bemerkung", "notiz"],
+    },
+    // "Full tank" / "Partial" (or "Voll" / "Teil")
+    parseFullTank: (value) => !/partial|teil/i.test(value),
+  },
+  // aCar: US style dates, partial fill-ups are flagged instead of full ones
+  acar: {
+    delimiter: ",",
+    dateOrder: "MDY",
+    decimalComma: false,
+    columns: {
+      date: ["date"],
+      time: ["time"],
+      mileage: ["odometerreading", "odometer"],
+      totalLiters: ["volume"],
+      pricePerLiter: ["priceperunit", "fuelprice"],
+      totalCost: ["totalcost"],
+      fullTank: ["partialfillup", "partial"],
+      missedFillup: ["previousmissedfillups", "missedfillup"],
+      stationName: ["fuelstation", "fuelbrand"],
+      stationLat: ["latitude"],
+      stationLng: ["longitude"],
+      notes: ["notes"],
+    },
+    parseFullTank: (value) => !parseBoolean(value),
+  },
+};
+
+const normalizeHeader = (header) =>
+  String(header)
+    .toLowerCase()
+    .replace(/\(.*?\)/g, "")
+    .replace(/[^a-z0-9]/g, "");
+
+const parseBoolean = (value) =>
+  /^(1|true|yes|y|x|ja|ano)$/i.test(String(value).trim());
+
+// The separator that does not mark decimals may only group thousands, so
+// "1,5" in a file read with decimal points is taken for a decimal comma
+// rather than 15. Such values come back as NaN.
+const parseNumber = (value, decimalComma) => {
+  let str = String(value ?? "")
+    .trim()
+    .replace(/[^\d.,-]/g, "");
+  if (!str) return null;
+  const [group, decimal] = decimalComma ? [".", ","] : [",", "."];
+  const [whole] = str.split(decimal);
+  if (
+    whole.includes(group) &&
+    !new RegExp(`^-?\\d{1,3}(\\${group}\\d{3})+$`).test(whole)
+  ) {
+    return NaN;
+  }
+  str = decimalComma
+    ? str.replace(/\./g, "").replace(",", ".")
+    : str.replace(/,/g, "");
+  const num = parseFloat(str);
+  return isNaN(num) ? null : num;
+};
+
+const NUMBER_FIELDS = [
+  "mileage",
+  "totalLiters",
+  "pricePerLiter",
+  "totalCost",
+  "stationLat",
+  "stationLng",
+];
+
+const parseTime = (value) => {
+  const match = /^(\d{1,2}):(\d{2})/.exec(String(value ?? "").trim());
+  return match ? `${match[1].padStart(2, "0")}:${match[2]}:00` : null;
+};
+
+// Reads the date in the given field order plus an optional HH:mm time
+const parseDateTime = (value, dateOrder) => {
+  const str = String(value ?? "").trim();
+  const [datePart, timePart] = str.split(/[ T]+/);
+  const parts = (datePart || "")
+    .split(/[^\d]+/)
+    .filter(Boolean)
+    .map(Number);
+  if (parts.length !== 3) return null;
+
+  let year = parts[dateOrder.indexOf("Y")];
+  const month = parts[dateOrder.indexOf("M")];
+  const day = parts[dateOrder.indexOf("D")];
+  if (year < 100) year += 2000;
+
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (
+    parsed.getUTCFullYear() !== year ||
+    parsed.getUTCMonth() !== month - 1 ||
+    parsed.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return {
+    date: parsed.toISOString().split("T")[0],
+    time: parseTime(timePart),
+  };
+};
+
+// The header row is the first one that contains the date column plus at
+// least two other known columns; it also skips Fuelio's vehicle section.
+const findHeader = (rows, columns) => {
+  const required = Math.min(3, Object.keys(columns).length);
+  for (let i = 0; i < rows.length; i++) {
+    const headers = rows[i].map(normalizeHeader);
+    const indexes = {};
+    for (const [field, aliases] of Object.entries(columns)) {
+      const index = headers.findIndex((h) => aliases.includes(h));
+      if (index !== -1) indexes[field] = index;
+    }
+    if (indexes.date !== undefined && Object.keys(indexes).length >= required) {
+      return { headerIndex: i, indexes };
+    }
+  }
+  return null;
+};
+
+/**
+ * Parse an export file into fuel entries.
+ * Generic mode takes `mapping` ({ field: "Column header" }) plus optional
+ * delimiter / dateOrder / decimalComma overrides.
+ * Returns { rows: [{ line, entry, error, duplicateOf }] } or { error } when
+ * the file as a whole cannot be read. duplicateOf is the line of an earlier
+ * row in the file with the same fill-up.
+ */
+export const parseImportFile = (text, format, options = {}) => {
+  let config;
+  if (format === "generic") {
+    if (!options.mapping || !options.mapping.date) {
+      return {
+        error: "A column mapping with at least a date column is required",
+      };
+    }
+    config = {
+      delimiter: options.delimiter || detectDelimiter(text),
+      dateOrder: options.dateOrder || "YMD",
+      decimalComma: !!options.decimalComma,
+      columns: Object.fromEntries(
+        Object.entries(options.mapping)
+          .filter(([field, header]) => IMPORT_FIELDS.includes(field) && header)
+          .map(([field, header]) => [field, [normalizeHeader(header)]]),
+      ),
+    };
+  } else {
+    config = IMPORT_FORMATS[format];
+    if (!config) {
+      return {
+        error: `format must be one of ${[...Object.keys(IMPORT_FORMATS), "generic"].join(", ")}`,
+      };
+    }
+  }
+
+  const csvRows = parseCsv(text, config.delimiter);
+  const header = findHeader(csvRows, config.columns);
+  if (!header) {
+    return { error: "Could not find the expected columns in this file" };
+  }
+
+  const { headerIndex, indexes } = header;
+  const rows = [];
+  // Line of the first row seen with each date, time, mileage and amounts
+  const seen = new Map();
+
+  for (let i = headerIndex + 1; i < csvRows.length; i++) {
+    const cells = csvRows[i];
+    // Fuelio starts its next section here
+    if (String(cells[0]).startsWith("##")) break;
+    if (cells.every((cell) => !String(cell).trim())) continue;
+
+    const line = i + 1;
+    const get = (field) =>
+      indexes[field] !== undefined ? cells[indexes[field]] : undefined;
+    const number = (field) => parseNumber(get(field), config.decimalComma);
+
+    const dateTime = parseDateTime(get("date"), config.dateOrder);
+    if (!dateTime) {
+      rows.push({
+        line,
+        entry: null,
+        error: `Invalid date "${get("date") ?? ""}"`,
+      });
+      continue;
+    }
+
+    const ambiguous = NUMBER_FIELDS.find((field) =>
+      Number.isNaN(number(field)),
+    );
+    if (ambiguous) {
+      rows.push({
+        line,
+        entry: null,
+        error: `Ambiguous number "${get(ambiguous)}" in ${ambiguous}; check the decimal separator`,
+      });
+      continue;
+    }
+
+    let totalLiters = number("totalLiters");
+    let pricePerLiter = number("pricePerLiter");
+    let totalCost = number("totalCost");
+
+    // Fill in whichever of the three values the format leaves out
+    if (totalCost == null && totalLiters != null && pricePerLiter != null) {
+      totalCost = totalLiters * pricePerLiter;
+    }
+    if (pricePerLiter == null && totalLiters && totalCost != null) {
+      pricePerLiter = totalCost / totalLiters;
+    }
+    if (totalLiters == null && pricePerLiter && totalCost != null) {
+      totalLiters = totalCost / pricePerLiter;
+    }
+
+    if (!totalCost || totalCost < 0) {
+      rows.push({ line, entry: null, error: "Missing or invalid total cost" });
+      continue;
+    }
+
+    const fullTankValue = get("fullTank");
+    const mileage = number("mileage");
+
+    const entry = {
+      date: dateTime.date,
+      time: dateTime.time || parseTime(get("time")),
+      mileage: mileage != null ? Math.round(mileage) : null,
+      totalLiters: totalLiters != null ? Number(totalLiters.toFixed(2)) : null,
+      pricePerLiter:
+        pricePerLiter != null ? Number(pricePerLiter.toFixed(3)) : null,
+      totalCost: Number(totalCost.toFixed(2)),
+      fullTank:
+        fullTankValue === undefined || fullTankValue === ""
+          ? true
+          : config.parseFullTank
+            ? config.parseFullTank(fullTankValue)
+            : parseBoolean(fullTankValue),
+      missedFillup:
+        get("missedFillup") !== undefined && parseBoolean(get("missedFillup")),
+      stationName: get("stationName")?.trim() || null,
+      stationAddress: get("stationAddress")?.trim() || null,
+      stationLat: number("stationLat") || null,
+      stationLng: number("stationLng") || null,
+      notes: get("notes")?.trim() || null,
+    };
+
+    // The same fill-up listed twice, e.g. two exports pasted together
+    const key = [
+      entry.date,
+      entry.time,
+      entry.mileage,
+      entry.totalLiters,
+      entry.totalCost,
+    ].join("|");
+    const duplicateOf = seen.get(key) ?? null;
+    if (duplicateOf == null) seen.set(key, line);
+
+    rows.push({ line, error: null, entry, duplicateOf });
+  }
+
+  return { rows };
+};
@@ -0,0 +1,206 @@
+// Deterministic extraction of fuel receipt fields from OCR text. Used by the
+// providers that only return text (Google Cloud Vision, Tesseract); the same
+// input always gives the same result, so it can be checked offline.
+
+// Clean brand names for stations whose receipts carry a longer company name
+const STATION_BRANDS = [
+  ["Tank ONO", /\b(tank\s*)?ono\b/i],
+  ["Benzina", /\bbenzina\b/i],
+  ["Orlen", /\borlen\b/i],
+  ["Shell", /\bshell\b/i],
+  ["OMV", /\bomv\b/i],
+  ["MOL", /\bmol\b/i],
+  ["EuroOil", /\beuro\s*oil\b/i],
+  ["Robin Oil", /\brobin\s*oil\b/i],
+  ["Globus", /\bglobus\b/i],
+  ["Makro", /\bmakro\b/i],
+  ["Eni", /\b(eni|agip)\b/i],
+  ["Lukoil", /\blukoil\b/i],
+  ["Aral", /\baral\b/i],
+  ["BP", /\bbp\b/i],
+  ["Circle K", /\bcircle\s*k\b/i],
+  ["Chevron", /\bchevron\b/i],
+  ["Exxon", /\bexxon\b/i],
+  ["Texaco", /\btexaco\b/i],
+];
+
+// "1 234,56", "1.234,56", "1,234.56", "37.52"
+const NUMBER =
+  "\\d{1,3}(?:[ .,]\\d{3})*(?:[.,]\\d{1,3})?|\\d+(?:[.,]\\d{1,3})?";
+
+const UNIT = "(?:l|ltr|litr\\w*|gal\\w*|kwh)";
+
+const TOTAL_LABEL =
+  /(celkem|k\s*úhradě|k\s*uhrade|úhrada|uhrada|zaplaceno|total|amount\s*due|suma|summe)/i;
+const QUANTITY_LABEL =
+  /(množství|mnozstvi|objem|quantity|qty|volume|menge|gallons|liters|litres)/i;
+const PRICE_LABEL =
+  /(jedn\.?\s*cena|cena\s*za\s*(?:jedn|l|litr)\w*|unit\s*price|price\s*(?:per|\/)\s*\w+)/i;
+
+const parseNumber = (value) => {
+  if (value == null) return null;
+  let text = String(value).replace(/\s/g, "");
+  const separators = text.match(/[.,]/g) ?? [];
+  if (new Set(separators).size > 1) {
+    // "1.234,56" or "1,234.56": the last separator is the decimal one
+    const decimalAt = Math.max(text.lastIndexOf(","), text.lastIndexOf("."));
+    text = `${text.slice(0, decimalAt).replace(/[.,]/g, "")}.${text.slice(decimalAt + 1)}`;
+  } else if (separators.length > 1) {
+    // "1.234.567" only groups thousands
+    text = text.replace(/[.,]/g, "");
+  } else {
+    text = text.replace(",", ".");
+  }
+  const number = parseFloat(text);
+  return Number.isFinite(number) ? number : null;
+};
+
+const numbersIn = (line) =>
+  [...line.matchAll(new RegExp(NUMBER, "g"))]
+    .map((match) => parseNumber(match[0]))
+    .filter((n) => n != null);
+
+const round = (value, decimals) =>
+  value == null ? null : Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const isValidDate = (year, month, day) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+};
+
+const formatIsoDate = (year, month, day) =>
+  `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+// ISO dates, day-first dotted dates and slashed dates (month-first unless the
+// first part cannot be a month)
+const findDate = (text) => {
+  const iso = /\b(\d{4})-(\d{2})-(\d{2})\b/.exec(text);
+  if (iso) {
+    const [year, month, day] = iso.slice(1).map(Number);
+    if (isValidDate(year, month, day)) return formatIsoDate(year, month, day);
+  }
+
+  for (const match of text.matchAll(
+    /\b(\d{1,2})\s*([./])\s*(\d{1,2})\s*[./]\s*(\d{2,4})\b/g,
+  )) {
+    const [first, second] = [Number(match[1]), Number(match[3])];
+    let year = Number(match[4]);
+    if (year < 100) year += 2000;
+    let [day, month] = [first, second];
+    if (match[2] === "/" && first <= 12) [day, month] = [second, first];
+    if (isValidDate(year, month, day)) return formatIsoDate(year, month, day);
+  }
+  return null;
+};
+
+const findTime = (text) => {
+  const match = /\b([01]?\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?\b/.exec(text);
+  return match ? `${match[1].padStart(2, "0")}:${match[2]}` : null;
+};
+
+const findStationName = (lines) => {
+  const text = lines.join("\n");
+  for (const [name, pattern] of STATION_BRANDS) {
+    if (pattern.test(text)) return name;
+  }
+  // Otherwise the header, which is usually the company name
+  const header = lines.find((line) => /[a-zá-ž]{3,}/i.test(line));
+  return header ? header.trim().slice(0, 60) : null;
+};
+
+// The largest amount on a line with a total label; "Celkem" can repeat
+// for subtotals and VAT summaries
+const findTotalCost = (lines) => {
+  const amounts = lines
+    .filter((line) => TOTAL_LABEL.test(line) && !/dph|vat|tax/i.test(line))
+    .flatMap(numbersIn);
+  return amounts.length > 0 ? Math.max(...amounts) : null;
+};
+
+const findQuantity = (lines) => {
+  // "38,52 l x 36,90 Kč/l"
+  const withUnit = new RegExp(`(${NUMBER})\\s*${UNIT}\\b(?!\\s*\\/)`, "i");
+  for (const line of lines) {
+    const match = withUnit.exec(line);
+    if (match) return parseNumber(match[1]);
+  }
+  for (const line of lines) {
+    if (QUANTITY_LABEL.test(line)) {
+      const [quantity] = numbersIn(line.replace(QUANTITY_LABEL, ""));
+      if (quantity != null) return quantity;
+    }
+  }
+  return null;
+};
+
+const findUnitPrice = (lines) => {
+  const perUnit = new RegExp(
+    `(${NUMBER})\\s*(?:kč|czk|eur|€|\\$|usd)?\\s*\\/\\s*${UNIT}\\b`,
+    "i",
+  );
+  for (const line of lines) {
+    const match = perUnit.exec(line);
+    if (match) return parseNumber(match[1]);
+  }
+  for (const line of lines) {
+    if (PRICE_LABEL.test(line)) {
+      const [price] = numbersIn(line.replace(PRICE_LABEL, ""));
+      if (price != null) return price;
+    }
+  }
+  return null;
+};
+
+/**
+ * Extract { stationName, date, time, pricePerUnit, totalUnits, totalCost }
+ * from receipt text. Fields that cannot be found are null; one missing number
+ * out of quantity, unit price and total is worked out from the other two.
+ */
+export const parseReceiptText = (text) => {
+  const lines = String(text || "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  let totalCost = findTotalCost(lines);
+  let totalUnits = findQuantity(lines);
+  let pricePerUnit = findUnitPrice(lines);
+
+  if (totalCost == null && totalUnits && pricePerUnit) {
+    totalCost = totalUnits * pricePerUnit;
+  } else if (pricePerUnit == null && totalCost && totalUnits) {
+    pricePerUnit = totalCost / totalUnits;
+  } else if (totalUnits == null && totalCost && pricePerUnit) {
+    totalUnits = totalCost / pricePerUnit;
+  }
+
+  return {
+    stationName: findStationName(lines),
+    date: findDate(text || ""),
+    time: findTime(text || ""),
+    pricePerUnit: round(pricePerUnit, 3),
+    totalUnits: round(totalUnits, 3),
+    totalCost: round(totalCost, 2),
+  };
+};
+
+// Brings structured output (e.g. from a language model) into the same shape:
+// numbers as numbers, empty values as null
+export const normalizeReceiptData = (data) => {
+  const text = (value) =>
+    typeof value === "string" && value.trim() ? value.trim() : null;
+  const number = (value) =>
+    typeof value === "number" ? value : parseNumber(value);
+  return {
+    stationName: text(data?.stationName),
+    date: text(data?.date),
+    time: text(data?.time),
+    pricePerUnit: number(data?.pricePerUnit),
+    totalUnits: number(data?.totalUnits),
+    totalCost: number(data?.totalCost),
+  };
+};
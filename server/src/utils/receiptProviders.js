@@ -0,0 +1,235 @@
+import fs from "fs";
+import { fileURLToPath } from "url";
+import OpenAI from "openai";
+import vision from "@google-cloud/vision";
+import { createWorker } from "tesseract.js";
+import { normalizeReceiptData, parseReceiptText } from "./receiptParser.js";
+
+// Sources of receipt data. A provider turns a receipt image into the fields
+// of a fuel entry:
+// { parsed: { stationName, date, time, pricePerUnit, totalUnits, totalCost },
+//   rawText }
+// configured() says whether its credentials are set; analyze() throws when
+// the provider cannot read the image.
+
+const DEFAULT_FIXTURE = fileURLToPath(
+  new URL("../../fixtures/receipt.txt", import.meta.url),
+);
+
+// OpenAI vision model, reading the fields directly from the image
+let openai = null;
+
+const openaiProvider = {
+  name: "openai",
+  configured: () => !!process.env.OPENAI_API_KEY,
+  analyze: async (imageBuffer, mimeType) => {
+    if (!openai) openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+    const today = new Date().toISOString().split("T")[0];
+    const response = await openai.chat.completions.create({
+      model: process.env.OPENAI_RECEIPT_MODEL || "gpt-4o",
+      messages: [
+        {
+          role: "system",
+          content:
+            "You are a specialized receipt scanner for gas stations. Extract data strictly in JSON format. Do not use markdown.",
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: `Analyze this fuel receipt and extract the following fields in JSON format:
+stationName (string, use clean brand name like 'Tank ONO', 'Shell', 'Benzina', 'Chevron', 'Exxon'),
+date (YYYY-MM-DD),
+time (HH:MM),
+pricePerUnit (number, price per Liter or Gallon),
+totalUnits (number, total Liters or Gallons),
+totalCost (number, total price in local currency).
+
+Note: Extract units as they appear on the receipt. Today is ${today}. If the year is missing or ambiguous, assume the receipt is recent (from this year ${new Date().getFullYear()}).
+
+If totalCost is missing, calculate it from units * pricePerUnit. Simplify station names (e.g. 'ONO' -> 'Tank ONO'). Return ONLY the JSON object, no markdown.`,
+            },
+            {
+              type: "image_url",
+              image_url: {
+                url: `data:${mimeType};base64,${imageBuffer.toString("base64")}`,
+                detail: "high",
+              },
+            },
+          ],
+        },
+      ],
+      response_format: { type: "json_object" },
+      max_tokens: 500,
+    });
+
+    const content = response.choices[0].message.content;
+    return {
+      parsed: normalizeReceiptData(JSON.parse(content)),
+      rawText: content,
+    };
+  },
+};
+
+// Google Cloud Vision text detection, with GOOGLE_CLOUD_API_KEY over REST or
+// the service account in GOOGLE_APPLICATION_CREDENTIALS through the client
+let visionClient = null;
+
+const detectTextWithApiKey = async (imageBuffer) => {
+  const response = await fetch(
+    `https://vision.googleapis.com/v1/images:annotate?key=${process.env.GOOGLE_CLOUD_API_KEY}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        requests: [
+          {
+            image: { content: imageBuffer.toString("base64") },
+            features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+          },
+        ],
+      }),
+    },
+  );
+  if (!response.ok) {
+    throw new Error(`Cloud Vision responded with ${response.status}`);
+  }
+  const [result] = (await response.json()).responses || [];
+  if (result?.error) throw new Error(result.error.message);
+  return result?.fullTextAnnotation?.text || "";
+};
+
+const detectTextWithClient = async (imageBuffer) => {
+  if (!visionClient) visionClient = new vision.ImageAnnotatorClient();
+  const [result] = await visionClient.documentTextDetection({
+    image: { content: imageBuffer },
+  });
+  return result.fullTextAnnotation?.text || "";
+};
+
+const googleVisionProvider = {
+  name: "google-vision",
+  configured: () =>
+    !!(
+      process.env.GOOGLE_CLOUD_API_KEY ||
+      process.env.GOOGLE_APPLICATION_CREDENTIALS
+    ),
+  analyze: async (imageBuffer) => {
+    const text = process.env.GOOGLE_CLOUD_API_KEY
+      ? await detectTextWithApiKey(imageBuffer)
+      : await detectTextWithClient(imageBuffer);
+    return { parsed: parseReceiptText(text), rawText: text };
+  },
+};
+
+// Tesseract running in-process. Language data is downloaded on first use
+// unless TESSERACT_LANG_PATH points at local *.traineddata files.
+let tesseractWorker = null;
+
+const tesseractProvider = {
+  name: "tesseract",
+  configured: () => true,
+  analyze: async (imageBuffer) => {
+    if (!tesseractWorker) {
+      const langs = (process.env.TESSERACT_LANGS || "ces+eng").split("+");
+      tesseractWorker = createWorker(langs, 1, {
+        ...(process.env.TESSERACT_LANG_PATH && {
+          langPath: process.env.TESSERACT_LANG_PATH,
+          gzip: false,
+        }),
+      }).catch((error) => {
+        tesseractWorker = null;
+        throw error;
+      });
+    }
+    const worker = await tesseractWorker;
+    const { data } = await worker.recognize(imageBuffer);
+    return { parsed: parseReceiptText(data.text), rawText: data.text };
+  },
+};
+
+// Parses receipt text from disk instead of reading the image, so the scan
+// pipeline runs without network access or OCR models, e.g. in tests
+const fixtureProvider = {
+  name: "fixture",
+  configured: () => true,
+  analyze: async () => {
+    const text = await fs.promises.readFile(
+      process.env.RECEIPT_OCR_FIXTURE || DEFAULT_FIXTURE,
+      "utf8",
+    );
+    return { parsed: parseReceiptText(text), rawText: text };
+  },
+};
+
+const PROVIDERS = {
+  [openaiProvider.name]: openaiProvider,
+  [googleVisionProvider.name]: googleVisionProvider,
+  [tesseractProvider.name]: tesseractProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+// Tesseract needs network access for its first run, so it is opt-in
+const DEFAULT_PROVIDERS = "openai,google-vision";
+
+// Amount fields found; a result with both the quantity and the total is
+// complete, the unit price follows from them
+const amountsFound = (parsed) =>
+  ["pricePerUnit", "totalUnits", "totalCost"].filter(
+    (field) => parsed[field] != null,
+  ).length;
+const isComplete = (parsed) =>
+  parsed.totalUnits != null && parsed.totalCost != null;
+
+/**
+ * RECEIPT_OCR_PROVIDERS lists providers to try in order, e.g.
+ * "openai,google-vision" (the default), "openai,tesseract" or "fixture".
+ * Providers without credentials are skipped; the next one is tried when a
+ * provider fails or leaves amounts out. Returns analyze(imageBuffer, mimeType), resolving to
+ * { parsed, rawText, provider } with the most complete result, or
+ * provider: null when none could read the receipt.
+ */
+export const createReceiptAnalyzer = () => {
+  const names = (process.env.RECEIPT_OCR_PROVIDERS || DEFAULT_PROVIDERS)
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const unknown = names.filter((name) => !PROVIDERS[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown RECEIPT_OCR_PROVIDERS "${unknown.join(", ")}"`);
+  }
+
+  const chain = names.map((name) => PROVIDERS[name]);
+
+  return async (imageBuffer, mimeType) => {
+    let best = null;
+
+    for (const provider of chain) {
+      if (!provider.configured()) continue;
+
+      try {
+        const startTime = Date.now();
+        const result = await provider.analyze(imageBuffer, mimeType);
+        console.log(
+          `Receipt analyzed by ${provider.name} in ${Date.now() - startTime}ms`,
+        );
+
+        if (isComplete(result.parsed)) {
+          return { ...result, provider: provider.name };
+        }
+        if (!best || amountsFound(result.parsed) > amountsFound(best.parsed)) {
+          best = { ...result, provider: provider.name };
+        }
+      } catch (error) {
+        console.error(`Receipt provider ${provider.name} failed:`, error);
+      }
+    }
+
+    if (best) return best;
+    console.warn("No receipt provider could read the receipt");
+    return { parsed: parseReceiptText(""), rawText: "", provider: null };
+  };
+};
@@ -0,0 +1,417 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { v2 as cloudinary } from "cloudinary";
+import dotenv from "dotenv";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import sharp from "sharp";
+import { v4 as uuidv4 } from "uuid";
+
+dotenv.config();
+
+// Where receipt photos are kept. A backend stores an image under a key of
+// the form "<userId>/<id>.<ext>" and returns the URL saved with the entry:
+// save(key, buffer, mimeType) -> url, read(key) -> { buffer, mimeType } | null,
+// remove(urls) and removeOwner(userId) for everything under "<userId>/".
+// Cloudinary serves its own public URLs; the local disk and S3
+// backends are served by the authenticated GET /api/receipts/images routes.
+
+const DEFAULT_LOCAL_DIR = fileURLToPath(
+  new URL("../../uploads/receipts", import.meta.url),
+);
+
+export const IMAGE_ROUTE = "/api/receipts/images";
+
+const THUMBNAIL_WIDTH = 320;
+
+const EXTENSIONS = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+const MIME_TYPES = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([mimeType, ext]) => [ext, mimeType]),
+);
+
+// "<userId>/<id>.<ext>", or "<userId>/<id>.thumb.jpg" for thumbnails
+const KEY = /^[\w-]+\/[\w-]+(?:\.thumb)?\.(?:jpg|png|webp|gif)$/;
+const OWNER_ID = /^[\w-]+$/;
+
+export const isValidKey = (key) => KEY.test(key);
+
+const thumbnailKey = (key) => key.replace(/\.[a-z]+$/, ".thumb.jpg");
+
+const mimeTypeOf = (key) =>
+  MIME_TYPES[key.split(".").pop()] || "application/octet-stream";
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+});
+
+// Cloudinary URLs look like .../image/upload/v123/tankuy/receipts/abc.jpg;
+// the public id is the path after the version without the extension
+const getPublicIdFromUrl = (url) => {
+  const match = /\/upload\/(?:v\d+\/)?(.+?)(?:\.[a-z0-9]+)?$/i.exec(url || "");
+  return match ? match[1] : null;
+};
+
+const isCloudinaryUrl = (url) => /^https?:\/\/res\.cloudinary\.com\//.test(url);
+
+const isOwnCloudinaryUrl = (url) =>
+  !!process.env.CLOUDINARY_CLOUD_NAME &&
+  url.startsWith(
+    `https://res.cloudinary.com/${process.env.CLOUDINARY_CLOUD_NAME}/`,
+  );
+
+const keyFromImageUrl = (url) => {
+  const prefix = `${IMAGE_ROUTE}/`;
+  if (!url?.startsWith(prefix)) return null;
+  const key = url.slice(prefix.length);
+  return isValidKey(key) ? key : null;
+};
+
+// Small JPEG previews for lists; the full photo is only loaded when opened
+const createThumbnail = async (buffer) => {
+  try {
+    return await sharp(buffer)
+      .rotate()
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+  } catch (error) {
+    console.error("Receipt thumbnail failed:", error);
+    return null;
+  }
+};
+
+const removeFromCloudinary = async (urls) => {
+  const publicIds = [...new Set(urls.map(getPublicIdFromUrl).filter(Boolean))];
+  // The Admin API accepts at most 100 ids per call
+  for (let i = 0; i < publicIds.length; i += 100) {
+    await cloudinary.api.delete_resources(publicIds.slice(i, i + 100));
+  }
+};
+
+// Cloudinary, which also resizes on the fly for thumbnails
+const cloudinaryBackend = {
+  name: "cloudinary",
+  save: async (key, buffer, mimeType) => {
+    const result = await cloudinary.uploader.upload(
+      `data:${mimeType};base64,${buffer.toString("base64")}`,
+      { folder: "tankuy/receipts", resource_type: "image" },
+    );
+    return result.secure_url;
+  },
+  read: async () => null,
+  remove: removeFromCloudinary,
+  // Uploads are not grouped by user; they can only be removed by URL
+  removeOwner: async () => {},
+};
+
+// Files on the server's disk under RECEIPT_STORAGE_DIR
+const createLocalBackend = () => {
+  const root = path.resolve(
+    process.env.RECEIPT_STORAGE_DIR || DEFAULT_LOCAL_DIR,
+  );
+
+  return {
+    name: "local",
+    put: async (key, buffer) => {
+      const file = path.join(root, key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, buffer);
+    },
+    read: async (key) => {
+      try {
+        const buffer = await fs.promises.readFile(path.join(root, key));
+        return { buffer, mimeType: mimeTypeOf(key) };
+      } catch (error) {
+        if (error.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    delete: async (keys) => {
+      await Promise.all(
+        keys.map((key) =>
+          fs.promises.rm(path.join(root, key), { force: true }),
+        ),
+      );
+    },
+    deleteOwner: async (userId) => {
+      await fs.promises.rm(path.join(root, userId), {
+        recursive: true,
+        force: true,
+      });
+    },
+  };
+};
+
+// S3 or a compatible server such as MinIO (set S3_ENDPOINT)
+const createS3Backend = () => {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) throw new Error("S3_BUCKET is not set");
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || "us-east-1",
+    ...(process.env.S3_ENDPOINT && {
+      endpoint: process.env.S3_ENDPOINT,
+      // MinIO serves buckets as paths rather than subdomains
+      forcePathStyle: true,
+    }),
+    ...(process.env.S3_ACCESS_KEY_ID && {
+      credentials: {
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      },
+    }),
+  });
+
+  return {
+    name: "s3",
+    put: async (key, buffer, mimeType) => {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: buffer,
+          ContentType: mimeType,
+        }),
+      );
+    },
+    read: async (key) => {
+      try {
+        const object = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: key }),
+        );
+        return {
+          buffer: Buffer.from(await object.Body.transformToByteArray()),
+          mimeType: object.ContentType || mimeTypeOf(key),
+        };
+      } catch (error) {
+        if (error.name === "NoSuchKey") return null;
+        throw error;
+      }
+    },
+    delete: async (keys) => {
+      // DeleteObjects accepts at most 1000 keys per call
+      for (let i = 0; i < keys.length; i += 1000) {
+        await client.send(
+          new DeleteObjectsCommand({
+            Bucket: bucket,
+            Delete: {
+              Objects: keys.slice(i, i + 1000).map((key) => ({ Key: key })),
+            },
+          }),
+        );
+      }
+    },
+    deleteOwner: async (userId) => {
+      // Each page lists up to 1000 keys, which one DeleteObjects call takes
+      let continuationToken;
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: `${userId}/`,
+            ContinuationToken: continuationToken,
+          }),
+        );
+        const keys = (page.Contents || []).map((object) => object.Key);
+        if (keys.length > 0) {
+          await client.send(
+            new DeleteObjectsCommand({
+              Bucket: bucket,
+              Delete: { Objects: keys.map((key) => ({ Key: key })) },
+            }),
+          );
+        }
+        continuationToken = page.NextContinuationToken;
+      } while (continuationToken);
+    },
+  };
+};
+
+// Backends that keep the bytes themselves are served through the API, with a
+// thumbnail stored next to each photo
+const servedByApi = (files) => ({
+  name: files.name,
+  save: async (key, buffer, mimeType) => {
+    await files.put(key, buffer, mimeType);
+    const thumbnail = await createThumbnail(buffer);
+    if (thumbnail) {
+      await files.put(thumbnailKey(key), thumbnail, "image/jpeg");
+    }
+    return `${IMAGE_ROUTE}/${key}`;
+  },
+  read: files.read,
+  remove: async (urls) => {
+    const keys = urls.map(keyFromImageUrl).filter(Boolean);
+    await files.delete(keys.flatMap((key) => [key, thumbnailKey(key)]));
+  },
+  removeOwner: files.deleteOwner,
+});
+
+/**
+ * RECEIPT_STORAGE=cloudinary, local or s3. Defaults to Cloudinary when
+ * CLOUDINARY_CLOUD_NAME is set and to the local disk otherwise, so photos are
+ * kept without any external service.
+ */
+export const createReceiptStorage = () => {
+  const name =
+    process.env.RECEIPT_STORAGE ||
+    (process.env.CLOUDINARY_CLOUD_NAME ? "cloudinary" : "local");
+
+  switch (name) {
+    case "cloudinary":
+      return cloudinaryBackend;
+    case "local":
+      return servedByApi(createLocalBackend());
+    case "s3":
+      return servedByApi(createS3Backend());
+    default:
+      throw new Error(`Unknown RECEIPT_STORAGE "${name}"`);
+  }
+};
+
+let storage = null;
+const getStorage = () => {
+  if (!storage) storage = createReceiptStorage();
+  return storage;
+};
+
+// Stores a receipt photo for the user. Returns the URL to save with the
+// entry, or null when the upload fails.
+export const saveReceiptImage = async (userId, buffer, mimeType) => {
+  const key = `${userId}/${uuidv4()}.${EXTENSIONS[mimeType] || "jpg"}`;
+  try {
+    return await getStorage().save(key, buffer, mimeType);
+  } catch (error) {
+    console.error("Receipt image upload failed:", error);
+    return null;
+  }
+};
+
+// The photo, or its thumbnail, from the local disk or S3. Falls back to the
+// photo when no thumbnail was made. Returns null when there is neither.
+export const readReceiptImage = async (key, { thumbnail = false } = {}) => {
+  const backend = getStorage();
+  if (thumbnail) {
+    const image = await backend.read(thumbnailKey(key));
+    if (image) return image;
+  }
+  return backend.read(key);
+};
+
+// The bytes of a receipt photo by the URL saved with its entry, wherever it
+// is stored. Returns null when the photo is gone.
+export const loadReceiptImage = async (url) => {
+  const key = keyFromImageUrl(url);
+  if (key) return readReceiptImage(key);
+  if (!isCloudinaryUrl(url)) return null;
+
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Cloudinary responded with ${response.status}`);
+  }
+  return {
+    buffer: Buffer.from(await response.arrayBuffer()),
+    mimeType: response.headers.get("content-type") || "image/jpeg",
+  };
+};
+
+// The preview URL for a stored receipt photo
+export const receiptThumbnailUrl = (url) => {
+  if (!url) return null;
+  if (isCloudinaryUrl(url)) {
+    return url.replace("/upload/", `/upload/c_limit,w_${THUMBNAIL_WIDTH}/`);
+  }
+  return keyFromImageUrl(url) ? `${url}/thumbnail` : url;
+};
+
+// Removes stored receipt photos by URL. Failures are logged but never thrown
+// so callers can carry on.
+const deleteReceiptImages = async (urls) => {
+  const cloudinaryUrls = urls.filter(isCloudinaryUrl);
+  const storedUrls = urls.filter((url) => keyFromImageUrl(url));
+
+  try {
+    // Photos uploaded to Cloudinary stay there after switching backends
+    if (cloudinaryUrls.length > 0 && process.env.CLOUDINARY_CLOUD_NAME) {
+      await removeFromCloudinary(cloudinaryUrls);
+    }
+    if (storedUrls.length > 0) {
+      await getStorage().remove(storedUrls);
+    }
+  } catch (error) {
+    console.error("Receipt image delete failed:", error);
+  }
+};
+
+// Removes every photo stored under the given user ids on the local disk or
+// S3, including scans that were never saved with an entry. Failures are
+// logged but never thrown.
+export const deleteOwnerReceiptImages = async (userIds) => {
+  try {
+    for (const userId of userIds.filter((id) => OWNER_ID.test(id))) {
+      await getStorage().removeOwner(userId);
+    }
+  } catch (error) {
+    console.error("Receipt image delete failed:", error);
+  }
+};
+
+// Removes the photos no entry shows any more. Call after deleting the rows
+// that held them: a photo saved with two entries, e.g. a duplicate saved from
+// the same scan, stays until the last of them is gone.
+export const deleteUnusedReceiptImages = async (db, urls) => {
+  const unique = [...new Set(urls.filter(Boolean))];
+  if (unique.length === 0) return;
+
+  const placeholders = unique.map(() => "?").join(", ");
+  const [rows] = await db.execute(
+    `SELECT receipt_image_url FROM fuel_entries WHERE receipt_image_url IN (${placeholders})
+     UNION
+     SELECT receipt_image_url FROM maintenance_entries WHERE receipt_image_url IN (${placeholders})`,
+    [...unique, ...unique],
+  );
+  const inUse = new Set(rows.map((row) => row.receipt_image_url));
+  const unused = unique.filter((url) => !inUse.has(url));
+  if (unused.length > 0) {
+    await deleteReceiptImages(unused);
+  }
+};
+
+// The ids the user's photos are stored under: their own, and those of guest
+// accounts merged into theirs
+export const receiptOwnerIds = async (db, userId) => {
+  const [rows] = await db.execute(
+    "SELECT guest_id FROM merged_guests WHERE user_id = ?",
+    [userId],
+  );
+  return [userId, ...rows.map((row) => row.guest_id)];
+};
+
+// Whether a photo on the local disk or S3 belongs to the user. Only the key
+// says who uploaded it; entries can't vouch for it.
+export const ownsReceiptKey = async (db, userId, key) =>
+  (await receiptOwnerIds(db, userId)).includes(key.split("/")[0]);
+
+// Whether the user may save `url` with an entry: their own photo on the local
+// disk or S3, or one on this server's Cloudinary account, whose URLs are
+// public and carry no owner
+export const isOwnReceiptImageUrl = async (db, userId, url) => {
+  if (typeof url !== "string") return false;
+  const key = keyFromImageUrl(url);
+  if (key) return ownsReceiptKey(db, userId, key);
+  return isOwnCloudinaryUrl(url);
+};
@@ -0,0 +1,230 @@
+// Checks the fields a provider read off a receipt before they are offered to
+// the user: values are coerced to the expected types, amounts are checked
+// against each other and obvious misreads are corrected. Every field gets a
+// confidence between 0 (missing) and 1 so the app can ask the user to confirm
+// the doubtful ones.
+
+const AMOUNT_FIELDS = ["pricePerUnit", "totalUnits", "totalCost"];
+const FIELDS = ["stationName", "date", "time", ...AMOUNT_FIELDS];
+
+const DECIMALS = { pricePerUnit: 3, totalUnits: 3, totalCost: 2 };
+
+// How far a provider's readings can be trusted before any checks; models read
+// the whole receipt, OCR engines only the characters
+const PROVIDER_CONFIDENCE = {
+  openai: 0.9,
+  "google-vision": 0.8,
+  tesseract: 0.6,
+  fixture: 0.8,
+};
+const DEFAULT_CONFIDENCE = 0.7;
+
+// Quantity × unit price may differ from the total by rounding on the receipt
+const AMOUNT_TOLERANCE = 0.02;
+// Fill-ups beyond this many litres (or kWh) are more likely misreads
+const MAX_PLAUSIBLE_UNITS = 250;
+// Decimal points OCR tends to drop or invent
+const DECIMAL_SHIFTS = [10, 100, 1000, 0.1, 0.01, 0.001];
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const round = (value, decimals) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const toNumber = (value) => {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || !value.trim()) return null;
+  const number = Number(value.trim().replace(/\s/g, "").replace(",", "."));
+  return Number.isNaN(number) ? NaN : number;
+};
+
+const isValidDate = (value) => {
+  const match = ISO_DATE.exec(value);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+};
+
+const withYear = (date, year) => `${year}${date.slice(4)}`;
+
+const matchesTotal = (price, units, cost) =>
+  Math.abs(price * units - cost) <= cost * AMOUNT_TOLERANCE;
+
+/**
+ * Validate the fields a provider read from a receipt. Returns
+ * { parsed, confidence, warnings, corrections }: the corrected fields, a
+ * 0–1 confidence per field, warnings as { code, fields, message } and the
+ * changes made as { field, from, to, reason }.
+ */
+export const validateReceipt = (data, provider, today) => {
+  const base = PROVIDER_CONFIDENCE[provider] ?? DEFAULT_CONFIDENCE;
+  const parsed = {};
+  const confidence = {};
+  const warnings = [];
+  const corrections = [];
+
+  const warn = (code, fields, message) =>
+    warnings.push({ code, fields, message });
+  const correct = (field, to, reason) => {
+    corrections.push({ field, from: parsed[field], to, reason });
+    parsed[field] = to;
+  };
+  const lower = (field, value) => {
+    confidence[field] = Math.min(confidence[field], value);
+  };
+
+  for (const field of FIELDS) {
+    parsed[field] = data?.[field] ?? null;
+    confidence[field] = parsed[field] == null ? 0 : base;
+  }
+
+  // Types and formats
+  if (parsed.stationName != null) {
+    const name = String(parsed.stationName).trim();
+    if (!name) {
+      correct("stationName", null, "invalid");
+      confidence.stationName = 0;
+    } else if (name !== parsed.stationName) {
+      correct("stationName", name, "format");
+    }
+  }
+
+  for (const field of AMOUNT_FIELDS) {
+    if (parsed[field] == null) continue;
+    const number = toNumber(parsed[field]);
+    if (!Number.isFinite(number) || number <= 0) {
+      correct(field, null, "invalid");
+      confidence[field] = 0;
+      warn("invalid_number", [field], `${field} is not a positive number`);
+    } else if (number !== parsed[field]) {
+      correct(field, number, "format");
+    }
+  }
+
+  if (parsed.time != null) {
+    const match = TIME.exec(String(parsed.time).trim());
+    if (!match) {
+      correct("time", null, "invalid");
+      confidence.time = 0;
+      warn("invalid_time", ["time"], "The time could not be read");
+    } else {
+      const time = `${match[1].padStart(2, "0")}:${match[2]}`;
+      if (time !== parsed.time) correct("time", time, "format");
+    }
+  }
+
+  // Dates: receipts are never from the future. A future date is usually the
+  // year misread, so the latest past date with the same day and month is
+  // taken instead.
+  if (parsed.date != null) {
+    if (!isValidDate(parsed.date)) {
+      correct("date", null, "invalid");
+      confidence.date = 0;
+      warn("invalid_date", ["date"], "The date could not be read");
+    } else if (parsed.date > today) {
+      const thisYear = Number(today.slice(0, 4));
+      const candidate = [thisYear, thisYear - 1]
+        .map((year) => withYear(parsed.date, year))
+        .find((date) => isValidDate(date) && date <= today);
+      if (candidate) {
+        correct("date", candidate, "future_date");
+        lower("date", 0.5);
+        warn(
+          "future_date",
+          ["date"],
+          "The date was in the future; the year was corrected",
+        );
+      } else {
+        lower("date", 0.2);
+        warn("future_date", ["date"], "The date is in the future");
+      }
+    }
+  }
+
+  // Amounts against each other
+  const { pricePerUnit: price, totalUnits: units, totalCost: cost } = parsed;
+  const found = AMOUNT_FIELDS.filter((field) => parsed[field] != null);
+
+  if (found.length === 3) {
+    if (matchesTotal(price, units, cost)) {
+      // Three independent readings agree
+      for (const field of AMOUNT_FIELDS) {
+        confidence[field] = Math.max(confidence[field], 0.95);
+      }
+    } else {
+      // One reading with a misplaced decimal point explains the mismatch.
+      // Shifting the price can balance an impossible quantity too, so fixes
+      // that leave a plausible quantity come first.
+      const fixes = AMOUNT_FIELDS.flatMap((field) =>
+        DECIMAL_SHIFTS.map((factor) => ({
+          field,
+          value: round(parsed[field] * factor, DECIMALS[field]),
+        })),
+      )
+        .map((fix) => ({
+          ...fix,
+          amounts: { ...parsed, [fix.field]: fix.value },
+        }))
+        .filter(({ amounts }) =>
+          matchesTotal(
+            amounts.pricePerUnit,
+            amounts.totalUnits,
+            amounts.totalCost,
+          ),
+        );
+      const fix =
+        fixes.find(
+          ({ amounts }) => amounts.totalUnits <= MAX_PLAUSIBLE_UNITS,
+        ) || fixes[0];
+
+      if (fix) {
+        correct(fix.field, fix.value, "decimal_shift");
+        lower(fix.field, 0.5);
+        warn(
+          "amounts_corrected",
+          [fix.field],
+          `${fix.field} had a misplaced decimal point and was corrected`,
+        );
+      } else {
+        for (const field of AMOUNT_FIELDS) lower(field, 0.4);
+        warn(
+          "amounts_mismatch",
+          AMOUNT_FIELDS,
+          "Quantity × unit price does not match the total",
+        );
+      }
+    }
+  } else if (found.length === 2) {
+    // The missing amount follows from the other two
+    const [missing] = AMOUNT_FIELDS.filter((field) => parsed[field] == null);
+    const value =
+      missing === "totalCost"
+        ? price * units
+        : missing === "totalUnits"
+          ? cost / price
+          : cost / units;
+    correct(missing, round(value, DECIMALS[missing]), "derived");
+    confidence[missing] = Math.min(...found.map((f) => confidence[f])) * 0.9;
+  }
+
+  if (parsed.totalUnits != null && parsed.totalUnits > MAX_PLAUSIBLE_UNITS) {
+    lower("totalUnits", 0.3);
+    warn(
+      "implausible_quantity",
+      ["totalUnits"],
+      `More than ${MAX_PLAUSIBLE_UNITS} units in one fill-up`,
+    );
+  }
+
+  for (const field of FIELDS) {
+    confidence[field] = round(confidence[field], 2);
+  }
+
+  return { parsed, confidence, warnings, corrections };
+};
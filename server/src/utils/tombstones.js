@@ -0,0 +1,8 @@
+// Deletes that GET /api/sync reports to clients. Call inside the transaction
+// that deletes the row, so a tombstone exists exactly when the row is gone.
+export const recordTombstone = (connection, userId, recordType, recordId) =>
+  connection.execute(
+    `INSERT INTO sync_tombstones (user_id, record_type, record_id)
+     VALUES (?, ?, ?)`,
+    [userId, recordType, recordId],
+  );
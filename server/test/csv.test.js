@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  detectDelimiter,
+  escapeCsvValue,
+  parseCsv,
+  toCsvRow,
+} from "../src/utils/csv.js";
+
+test("quotes values with delimiters, quotes and newlines", () => {
+  assert.equal(escapeCsvValue("plain"), "plain");
+  assert.equal(escapeCsvValue("a,b"), '"a,b"');
+  assert.equal(escapeCsvValue('say "hi"'), '"say ""hi"""');
+  assert.equal(escapeCsvValue("two\nlines"), '"two\nlines"');
+  assert.equal(escapeCsvValue(null), "");
+  assert.equal(toCsvRow(["a", 1, null]), "a,1,\r\n");
+});
+
+test("detects the delimiter from the first lines", () => {
+  assert.equal(detectDelimiter("a,b,c\n1,2,3"), ",");
+  assert.equal(detectDelimiter("a;b;c\n1,5;2;3"), ";");
+  assert.equal(detectDelimiter("a\tb\tc\n1\t2\t3"), "\t");
+  assert.equal(detectDelimiter("single"), ",");
+});
+
+test("parses quoted fields with delimiters, escapes and newlines", () => {
+  const rows = parseCsv(
+    'name,notes\r\n"Shell, Main St","said ""full""\nthen left"\r\nOMV,\r\n',
+  );
+
+  assert.deepEqual(rows, [
+    ["name", "notes"],
+    ["Shell, Main St", 'said "full"\nthen left'],
+    ["OMV", ""],
+  ]);
+});
+
+test("reads a last line without a line break and strips the BOM", () => {
+  assert.deepEqual(parseCsv("\uFEFFa;b\n1;2", ";"), [
+    ["a", "b"],
+    ["1", "2"],
+  ]);
+});
+
+test("round-trips exported rows", () => {
+  const values = ["Tank ONO", 'a "quoted", value', "", "line\r\nbreak"];
+
+  assert.deepEqual(parseCsv(toCsvRow(values)), [values]);
+});
@@ -0,0 +1,179 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRateStore } from "../src/utils/exchangeRateStore.js";
+import { createFixtureProvider } from "../src/utils/exchangeRateProviders.js";
+
+const CURRENCIES = ["CZK", "EUR", "USD"];
+
+// Just enough of a mysql2 pool to run the store's queries against an
+// in-memory exchange_rates table
+const createFakeDb = () => {
+  const rows = new Map();
+  const dates = () => [...new Set([...rows.values()].map((row) => row.date))];
+
+  const run = async (sql, params) => {
+    if (sql.startsWith("INSERT INTO exchange_rates")) {
+      for (const [date, currency, rate] of params[0]) {
+        rows.set(`${date}:${currency}`, { date, currency, rate });
+      }
+      return [{}];
+    }
+    if (sql.includes("SELECT DISTINCT")) {
+      const [from, to] = params;
+      return [
+        dates()
+          .filter((date) => date >= from && date <= to)
+          .map((date) => ({ date })),
+      ];
+    }
+    if (sql.includes("AS before_start")) {
+      const [start] = params;
+      const sorted = dates().sort();
+      return [
+        [
+          {
+            before_start: sorted.filter((date) => date <= start).pop() ?? null,
+            earliest: sorted[0] ?? null,
+          },
+        ],
+      ];
+    }
+    if (sql.includes("WHERE currency IN")) {
+      const [currencies, from, to] = params;
+      return [
+        [...rows.values()]
+          .filter(
+            (row) =>
+              currencies.includes(row.currency) &&
+              row.date >= from &&
+              row.date <= to,
+          )
+          .sort((a, b) => a.date.localeCompare(b.date)),
+      ];
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  return { rows, execute: run, query: run };
+};
+
+// Serves the given days and records what was asked for
+const createFakeProvider = (days) => {
+  const calls = [];
+  return {
+    calls,
+    fetchRange: async (start, end) => {
+      calls.push([start, end]);
+      return days.filter((day) => day.date >= start && day.date <= end);
+    },
+  };
+};
+
+const DAYS = [
+  { date: "2025-03-06", rates: { CZK: 25.0, USD: 1.05 } },
+  // Friday
+  { date: "2025-03-07", rates: { CZK: 25.2, USD: 1.08 } },
+  { date: "2025-03-10", rates: { CZK: 25.4, USD: 1.1 } },
+];
+
+const createStore = (provider, options = {}) =>
+  createRateStore({
+    db: createFakeDb(),
+    getProvider: () => provider,
+    currencies: CURRENCIES,
+    today: () => "2025-06-01",
+    ...options,
+  });
+
+test("converts through the euro rates of the day", async () => {
+  const store = createStore(createFakeProvider(DAYS));
+
+  const rates = await store.getRatesForDates("CZK", "USD", ["2025-03-07"]);
+
+  assert.equal(rates.get("2025-03-07"), 1.08 / 25.2);
+});
+
+test("uses the previous business day over a weekend", async () => {
+  const store = createStore(createFakeProvider(DAYS));
+
+  const rates = await store.getRatesForDates("EUR", "CZK", [
+    "2025-03-08",
+    "2025-03-09",
+    "2025-03-10",
+  ]);
+
+  assert.equal(rates.get("2025-03-08"), 25.2);
+  assert.equal(rates.get("2025-03-09"), 25.2);
+  assert.equal(rates.get("2025-03-10"), 25.4);
+});
+
+test("backfills a missing range once", async () => {
+  const provider = createFakeProvider(DAYS);
+  const store = createStore(provider);
+
+  await store.getRatesForDates("EUR", "USD", ["2025-03-07"]);
+  await store.getRatesForDates("EUR", "USD", ["2025-03-07", "2025-03-10"]);
+
+  // The first lookup fetched from five days back; the second found the
+  // stored days and asked for nothing
+  assert.deepEqual(provider.calls, [["2025-03-02", "2025-03-07"]]);
+});
+
+test("does not ask again for a past range the provider has no data for", async () => {
+  const provider = createFakeProvider([]);
+  const store = createStore(provider, { getFallbackProvider: undefined });
+
+  await assert.rejects(store.getRatesForDates("EUR", "USD", ["2025-03-07"]));
+  await assert.rejects(store.getRatesForDates("EUR", "USD", ["2025-03-07"]));
+
+  assert.equal(provider.calls.length, 1);
+});
+
+test("uses the earliest stored rates for older dates", async () => {
+  const store = createStore(createFakeProvider(DAYS));
+  await store.getRatesForDates("EUR", "CZK", ["2025-03-06"]);
+
+  const rates = await store.getRatesForDates("EUR", "CZK", ["2020-01-01"]);
+
+  assert.equal(rates.get("2020-01-01"), 25.0);
+});
+
+test("same currency needs no rates", async () => {
+  const provider = createFakeProvider([]);
+  const store = createStore(provider);
+
+  const rates = await store.getRatesForDates("CZK", "CZK", ["2025-03-07"]);
+
+  assert.equal(rates.get("2025-03-07"), 1);
+  assert.equal(provider.calls.length, 0);
+});
+
+test("seeds the bundled rates when the provider is unreachable", async () => {
+  const offline = {
+    fetchRange: async () => {
+      throw new Error("getaddrinfo ENOTFOUND api.frankfurter.app");
+    },
+  };
+  const store = createStore(offline, {
+    getFallbackProvider: () => createFixtureProvider(),
+  });
+
+  const rates = await store.getRatesForDates("CZK", "USD", ["2025-05-20"]);
+
+  const fixture = await createFixtureProvider().fetchRange(
+    "2025-01-01",
+    "2025-05-20",
+  );
+  const { CZK, USD } = fixture[fixture.length - 1].rates;
+  assert.equal(rates.get("2025-05-20"), USD / CZK);
+});
+
+test("returns every currency against a base on a date", async () => {
+  const store = createStore(createFakeProvider(DAYS));
+
+  const result = await store.getRatesOnDate("2025-03-09", "CZK");
+
+  assert.equal(result.date, "2025-03-07");
+  assert.equal(result.rates.CZK, 1);
+  assert.equal(result.rates.EUR, 1 / 25.2);
+});
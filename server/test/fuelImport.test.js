@@ -0,0 +1,262 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseImportFile } from "../src/utils/fuelImport.js";
+
+const entries = (result) => result.rows.map((row) => row.entry);
+
+test("reads the log section of a Fuelio export", () => {
+  const csv = [
+    '"## Vehicle"',
+    '"Name","Description","DistUnit","FuelUnit"',
+    '"Octavia","","0","0"',
+    '"## Log"',
+    '"Data","Odo (km)","Fuel (litres)","Full","Price (optional)","l/100km (optional)","latitude (optional)","longitude (optional)","City (optional)","Notes (optional)","Missed","TankNumber","FuelType","VolumePrice"',
+    '"2024-05-01 10:20","120450","42.5","1","1538.5","6.1","50.0755","14.4378","Praha","","0","1","110","36.2"',
+    '"2024-05-20 18:05","121100","20","0","740","0","","","","half tank","1","1","110","37"',
+    '"## CostCategories"',
+    '"CostTypeID","Name"',
+  ].join("\n");
+
+  const result = parseImportFile(csv, "fuelio");
+
+  assert.deepEqual(entries(result), [
+    {
+      date: "2024-05-01",
+      time: "10:20:00",
+      mileage: 120450,
+      totalLiters: 42.5,
+      pricePerLiter: 36.2,
+      totalCost: 1538.5,
+      fullTank: true,
+      missedFillup: false,
+      stationName: null,
+      stationAddress: "Praha",
+      stationLat: 50.0755,
+      stationLng: 14.4378,
+      notes: null,
+    },
+    {
+      date: "2024-05-20",
+      time: "18:05:00",
+      mileage: 121100,
+      totalLiters: 20,
+      pricePerLiter: 37,
+      totalCost: 740,
+      fullTank: false,
+      missedFillup: true,
+      stationName: null,
+      stationAddress: null,
+      stationLat: null,
+      stationLng: null,
+      notes: "half tank",
+    },
+  ]);
+});
+
+test("reads a Spritmonitor export with German numbers", () => {
+  const csv = [
+    "Date;Odometer;Trip;Quantity;Total price;Currency;Type;Tires;Route;Driving style;Fuel;Note;Consumption;BC-Consumption;BC-Quantity;BC-Speed;Gas station;Location",
+    '03.02.2024;1.234;450,2;45,32;78,90;EUR;Full tank;Summer;;;Super E10;"Autobahn, A9";6,1;;;;Aral;München',
+    "17.02.2024;1.690;456;20,00;35,00;EUR;Partial;Summer;;;Super E10;;;;;;;",
+  ].join("\n");
+
+  const result = parseImportFile(csv, "spritmonitor");
+
+  assert.deepEqual(
+    entries(result).map(
+      ({ date, mileage, totalLiters, pricePerLiter, totalCost, fullTank }) => ({
+        date,
+        mileage,
+        totalLiters,
+        pricePerLiter,
+        totalCost,
+        fullTank,
+      }),
+    ),
+    [
+      {
+        date: "2024-02-03",
+        mileage: 1234,
+        totalLiters: 45.32,
+        pricePerLiter: 1.741,
+        totalCost: 78.9,
+        fullTank: true,
+      },
+      {
+        date: "2024-02-17",
+        mileage: 1690,
+        totalLiters: 20,
+        pricePerLiter: 1.75,
+        totalCost: 35,
+        fullTank: false,
+      },
+    ],
+  );
+  assert.equal(result.rows[0].entry.notes, "Autobahn, A9");
+});
+
+test("reads an aCar export with US dates and partial fill-ups", () => {
+  const csv = [
+    '"Date","Time","Odometer Reading","Volume","Price per Unit","Total Cost","Partial Fill-Up","Previous Missed Fill-Ups","Fuel Station","Notes"',
+    '"05/01/2024","14:30","12,345","40.5","1.659","67.19","false","false","Shell",""',
+    '"05/09/2024","07:05","12,801","18","1.7","","true","true","",""',
+  ].join("\n");
+
+  const result = parseImportFile(csv, "acar");
+
+  assert.deepEqual(
+    entries(result).map(
+      ({
+        date,
+        time,
+        mileage,
+        totalCost,
+        fullTank,
+        missedFillup,
+        stationName,
+      }) => ({
+        date,
+        time,
+        mileage,
+        totalCost,
+        fullTank,
+        missedFillup,
+        stationName,
+      }),
+    ),
+    [
+      {
+        date: "2024-05-01",
+        time: "14:30:00",
+        mileage: 12345,
+        totalCost: 67.19,
+        fullTank: true,
+        missedFillup: false,
+        stationName: "Shell",
+      },
+      {
+        date: "2024-05-09",
+        time: "07:05:00",
+        mileage: 12801,
+        // Worked out from the volume and unit price
+        totalCost: 30.6,
+        fullTank: false,
+        missedFillup: true,
+        stationName: null,
+      },
+    ],
+  );
+});
+
+test("maps generic columns by header", () => {
+  const csv = ["When;Km;Litres;Paid", "2024-06-01;5000;30,5;1 098,00"].join(
+    "\n",
+  );
+
+  const result = parseImportFile(csv, "generic", {
+    mapping: {
+      date: "When",
+      mileage: "Km",
+      totalLiters: "Litres",
+      totalCost: "Paid",
+    },
+    decimalComma: true,
+  });
+
+  assert.equal(result.rows[0].error, null);
+  assert.equal(result.rows[0].entry.totalLiters, 30.5);
+  assert.equal(result.rows[0].entry.totalCost, 1098);
+  assert.equal(result.rows[0].entry.pricePerLiter, 36);
+});
+
+test("reports decimal commas in a file read with decimal points", () => {
+  const csv = [
+    "date,liters,cost",
+    '2024-06-01,"1,5",50',
+    '2024-06-02,30,"1,250.50"',
+  ].join("\n");
+
+  const result = parseImportFile(csv, "generic", {
+    mapping: { date: "date", totalLiters: "liters", totalCost: "cost" },
+  });
+
+  assert.equal(result.rows[0].entry, null);
+  assert.match(result.rows[0].error, /Ambiguous number "1,5" in totalLiters/);
+  // Thousands groups are fine
+  assert.equal(result.rows[1].error, null);
+  assert.equal(result.rows[1].entry.totalCost, 1250.5);
+});
+
+test("reports decimal points in a file read with decimal commas", () => {
+  const csv = ["date;liters;cost", "2024-06-01;30.5;1.098,00"].join("\n");
+
+  const result = parseImportFile(csv, "generic", {
+    mapping: { date: "date", totalLiters: "liters", totalCost: "cost" },
+    decimalComma: true,
+  });
+
+  assert.match(result.rows[0].error, /Ambiguous number "30.5" in totalLiters/);
+});
+
+test("marks fill-ups listed twice in the same file", () => {
+  const csv = [
+    "date,time,km,liters,cost",
+    "2024-06-01,08:00,5000,30,1100",
+    "2024-06-08,08:00,5400,31,1150",
+    "2024-06-01,08:00,5000,30,1100",
+    // Same day and cost but another fill-up
+    "2024-06-01,19:30,5090,30,1100",
+  ].join("\n");
+
+  const result = parseImportFile(csv, "generic", {
+    mapping: {
+      date: "date",
+      time: "time",
+      mileage: "km",
+      totalLiters: "liters",
+      totalCost: "cost",
+    },
+  });
+
+  assert.deepEqual(
+    result.rows.map((row) => [row.line, row.duplicateOf]),
+    [
+      [2, null],
+      [3, null],
+      [4, 2],
+      [5, null],
+    ],
+  );
+});
+
+test("reports rows it cannot read", () => {
+  const csv = [
+    "date,cost",
+    "2024-02-30,10",
+    "2024-03-01,",
+    "",
+    "2024-03-02,10",
+  ].join("\n");
+
+  const result = parseImportFile(csv, "generic", {
+    mapping: { date: "date", totalCost: "cost" },
+  });
+
+  assert.deepEqual(
+    result.rows.map(({ line, error }) => [line, error]),
+    [
+      [2, 'Invalid date "2024-02-30"'],
+      [3, "Missing or invalid total cost"],
+      [5, null],
+    ],
+  );
+});
+
+test("rejects files it cannot read at all", () => {
+  assert.match(parseImportFile("a,b\n1,2", "fuelio").error, /expected columns/);
+  assert.match(parseImportFile("", "nope").error, /format must be one of/);
+  assert.match(
+    parseImportFile("date\n2024-01-01", "generic", {}).error,
+    /column mapping/,
+  );
+});
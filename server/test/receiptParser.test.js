@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  normalizeReceiptData,
+  parseReceiptText,
+} from "../src/utils/receiptParser.js";
+import { createReceiptAnalyzer } from "../src/utils/receiptProviders.js";
+
+test("the fixture provider reads the bundled receipt", async () => {
+  process.env.RECEIPT_OCR_PROVIDERS = "fixture";
+  try {
+    const analyze = createReceiptAnalyzer();
+
+    const result = await analyze(Buffer.alloc(0), "image/jpeg");
+
+    assert.equal(result.provider, "fixture");
+    assert.match(result.rawText, /TANK ONO/);
+    assert.deepEqual(result.parsed, {
+      stationName: "Tank ONO",
+      date: "2025-03-14",
+      time: "17:42",
+      pricePerUnit: 36.9,
+      totalUnits: 38.52,
+      totalCost: 1421.39,
+    });
+  } finally {
+    delete process.env.RECEIPT_OCR_PROVIDERS;
+  }
+});
+
+test("unknown providers are rejected", () => {
+  process.env.RECEIPT_OCR_PROVIDERS = "fixture,abbyy";
+  try {
+    assert.throws(createReceiptAnalyzer, /Unknown RECEIPT_OCR_PROVIDERS/);
+  } finally {
+    delete process.env.RECEIPT_OCR_PROVIDERS;
+  }
+});
+
+test("parses a US receipt with labelled amounts", () => {
+  const parsed = parseReceiptText(`SHELL #1234
+123 Main St
+03/14/2025 08:15 AM
+UNLEADED
+Gallons 12.345
+Price/Gal $3.459
+TOTAL $42.70`);
+
+  assert.deepEqual(parsed, {
+    stationName: "Shell",
+    date: "2025-03-14",
+    time: "08:15",
+    pricePerUnit: 3.459,
+    totalUnits: 12.345,
+    totalCost: 42.7,
+  });
+});
+
+test("ignores VAT lines and takes the largest total", () => {
+  const parsed = parseReceiptText(`Benzina
+Celkem 500,00
+DPH 21 % 86,78
+Celkem k úhradě 1 250,50 Kč
+Množství 30,5`);
+
+  assert.equal(parsed.stationName, "Benzina");
+  assert.equal(parsed.totalCost, 1250.5);
+  assert.equal(parsed.totalUnits, 30.5);
+});
+
+test("works out the unit price from quantity and total", () => {
+  const parsed = parseReceiptText(`Robin Oil
+40,00 l
+Celkem 1 480,00`);
+
+  assert.equal(parsed.totalUnits, 40);
+  assert.equal(parsed.totalCost, 1480);
+  assert.equal(parsed.pricePerUnit, 37);
+});
+
+test("reads thousands and decimal separators either way", () => {
+  assert.equal(parseReceiptText("Total 1.234,56").totalCost, 1234.56);
+  assert.equal(parseReceiptText("Total 1,234.56").totalCost, 1234.56);
+  assert.equal(parseReceiptText("Total 1 234,56").totalCost, 1234.56);
+});
+
+test("dotted dates are day first", () => {
+  assert.equal(parseReceiptText("Datum: 02.03.25").date, "2025-03-02");
+  assert.equal(parseReceiptText("31/12/2024").date, "2024-12-31");
+});
+
+test("empty text gives empty fields", () => {
+  assert.deepEqual(parseReceiptText(""), {
+    stationName: null,
+    date: null,
+    time: null,
+    pricePerUnit: null,
+    totalUnits: null,
+    totalCost: null,
+  });
+});
+
+test("normalizes structured provider output", () => {
+  assert.deepEqual(
+    normalizeReceiptData({
+      stationName: " Shell ",
+      date: "2025-03-14",
+      time: "",
+      pricePerUnit: "36,90",
+      totalUnits: 38.52,
+      totalCost: "1 421,39",
+    }),
+    {
+      stationName: "Shell",
+      date: "2025-03-14",
+      time: null,
+      pricePerUnit: 36.9,
+      totalUnits: 38.52,
+      totalCost: 1421.39,
+    },
+  );
+});
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  deleteOwnerReceiptImages,
+  isOwnReceiptImageUrl,
+  ownsReceiptKey,
+} from "../src/utils/receiptStorage.js";
+
+// Answers the merged_guests lookup with the given guest ids
+const createFakeDb = (mergedGuests = {}) => ({
+  execute: async (sql, [userId]) => {
+    if (!sql.includes("FROM merged_guests")) {
+      throw new Error(`Unexpected query: ${sql}`);
+    }
+    return [(mergedGuests[userId] || []).map((id) => ({ guest_id: id }))];
+  },
+});
+
+test("a stored photo belongs to the user whose id starts its key", async () => {
+  const db = createFakeDb();
+  assert.equal(await ownsReceiptKey(db, "alice", "alice/a1.jpg"), true);
+  assert.equal(await ownsReceiptKey(db, "alice", "bob/b1.jpg"), false);
+  assert.equal(await ownsReceiptKey(db, "ali", "alice/a1.jpg"), false);
+});
+
+test("photos of a merged guest belong to the account it was merged into", async () => {
+  const db = createFakeDb({ alice: ["guest-1"] });
+  assert.equal(await ownsReceiptKey(db, "alice", "guest-1/g1.jpg"), true);
+  assert.equal(await ownsReceiptKey(db, "bob", "guest-1/g1.jpg"), false);
+});
+
+test("only the user's own stored photos can be saved with an entry", async () => {
+  const db = createFakeDb();
+  const own = "/api/receipts/images/alice/a1.jpg";
+  const other = "/api/receipts/images/bob/b1.jpg";
+
+  assert.equal(await isOwnReceiptImageUrl(db, "alice", own), true);
+  assert.equal(await isOwnReceiptImageUrl(db, "alice", other), false);
+  assert.equal(
+    await isOwnReceiptImageUrl(db, "alice", "/api/receipts/images/../x.jpg"),
+    false,
+  );
+  assert.equal(
+    await isOwnReceiptImageUrl(db, "alice", "https://example.com/a.jpg"),
+    false,
+  );
+  assert.equal(await isOwnReceiptImageUrl(db, "alice", { url: own }), false);
+});
+
+test("Cloudinary photos are only accepted from the configured account", async () => {
+  const db = createFakeDb();
+  const previous = process.env.CLOUDINARY_CLOUD_NAME;
+  process.env.CLOUDINARY_CLOUD_NAME = "tankuy";
+  try {
+    assert.equal(
+      await isOwnReceiptImageUrl(
+        db,
+        "alice",
+        "https://res.cloudinary.com/tankuy/image/upload/v1/tankuy/receipts/abc.jpg",
+      ),
+      true,
+    );
+    assert.equal(
+      await isOwnReceiptImageUrl(
+        db,
+        "alice",
+        "https://res.cloudinary.com/someone-else/image/upload/v1/abc.jpg",
+      ),
+      false,
+    );
+  } finally {
+    if (previous === undefined) delete process.env.CLOUDINARY_CLOUD_NAME;
+    else process.env.CLOUDINARY_CLOUD_NAME = previous;
+  }
+});
+
+test("deleting a user's photos removes everything stored under their id", async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "tankuy-receipts-"));
+  process.env.RECEIPT_STORAGE = "local";
+  process.env.RECEIPT_STORAGE_DIR = path.join(root, "receipts");
+  for (const key of ["alice/a1.jpg", "alice/a1.thumb.jpg", "bob/b1.jpg"]) {
+    const file = path.join(root, "receipts", key);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, "");
+  }
+
+  try {
+    // Anything that isn't a plain id is ignored rather than resolved
+    await deleteOwnerReceiptImages(["alice", "..", ""]);
+
+    assert.equal(fs.existsSync(path.join(root, "receipts", "alice")), false);
+    assert.equal(
+      fs.existsSync(path.join(root, "receipts", "bob", "b1.jpg")),
+      true,
+    );
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
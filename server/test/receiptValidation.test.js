@@ -0,0 +1,184 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateReceipt } from "../src/utils/receiptValidation.js";
+import { createReceiptAnalyzer } from "../src/utils/receiptProviders.js";
+
+const TODAY = "2025-06-01";
+
+const RECEIPT = {
+  stationName: "Tank ONO",
+  date: "2025-03-14",
+  time: "17:42",
+  pricePerUnit: 36.9,
+  totalUnits: 38.52,
+  totalCost: 1421.39,
+};
+
+test("the bundled receipt passes with high confidence", async () => {
+  process.env.RECEIPT_OCR_PROVIDERS = "fixture";
+  try {
+    const { parsed, provider } = await createReceiptAnalyzer()(
+      Buffer.alloc(0),
+      "image/jpeg",
+    );
+
+    const result = validateReceipt(parsed, provider, TODAY);
+
+    assert.deepEqual(result.parsed, RECEIPT);
+    assert.deepEqual(result.confidence, {
+      stationName: 0.8,
+      date: 0.8,
+      time: 0.8,
+      pricePerUnit: 0.95,
+      totalUnits: 0.95,
+      totalCost: 0.95,
+    });
+    assert.deepEqual(result.warnings, []);
+    assert.deepEqual(result.corrections, []);
+  } finally {
+    delete process.env.RECEIPT_OCR_PROVIDERS;
+  }
+});
+
+test("confidence starts from the provider", () => {
+  const { confidence } = validateReceipt(
+    { ...RECEIPT, totalCost: null, pricePerUnit: null },
+    "tesseract",
+    TODAY,
+  );
+
+  assert.equal(confidence.stationName, 0.6);
+  assert.equal(confidence.totalUnits, 0.6);
+  assert.equal(confidence.totalCost, 0);
+});
+
+test("missing fields have no confidence", () => {
+  const { parsed, confidence } = validateReceipt({}, "openai", TODAY);
+
+  assert.equal(parsed.date, null);
+  assert.equal(confidence.date, 0);
+  assert.equal(confidence.totalCost, 0);
+});
+
+test("text amounts and times are brought into shape", () => {
+  const { parsed, corrections } = validateReceipt(
+    { ...RECEIPT, totalCost: "1421,39", time: "7:05" },
+    "openai",
+    TODAY,
+  );
+
+  assert.equal(parsed.totalCost, 1421.39);
+  assert.equal(parsed.time, "07:05");
+  assert.deepEqual(
+    corrections.map(({ field, reason }) => [field, reason]),
+    [
+      ["totalCost", "format"],
+      ["time", "format"],
+    ],
+  );
+});
+
+test("a future date gets the latest past year", () => {
+  const { parsed, confidence, warnings } = validateReceipt(
+    { ...RECEIPT, date: "2026-03-14" },
+    "openai",
+    TODAY,
+  );
+
+  assert.equal(parsed.date, "2025-03-14");
+  assert.equal(confidence.date, 0.5);
+  assert.equal(warnings[0].code, "future_date");
+});
+
+test("a future day of this year moves to last year", () => {
+  const { parsed } = validateReceipt(
+    { ...RECEIPT, date: "2025-09-30" },
+    "openai",
+    TODAY,
+  );
+
+  assert.equal(parsed.date, "2024-09-30");
+});
+
+test("impossible dates are dropped", () => {
+  const { parsed, confidence, warnings } = validateReceipt(
+    { ...RECEIPT, date: "2025-02-30" },
+    "openai",
+    TODAY,
+  );
+
+  assert.equal(parsed.date, null);
+  assert.equal(confidence.date, 0);
+  assert.equal(warnings[0].code, "invalid_date");
+});
+
+test("a misplaced decimal point is corrected", () => {
+  const { parsed, confidence, warnings, corrections } = validateReceipt(
+    { ...RECEIPT, totalUnits: 3852 },
+    "google-vision",
+    TODAY,
+  );
+
+  assert.equal(parsed.totalUnits, 38.52);
+  assert.equal(confidence.totalUnits, 0.5);
+  assert.deepEqual(corrections, [
+    {
+      field: "totalUnits",
+      from: 3852,
+      to: 38.52,
+      reason: "decimal_shift",
+    },
+  ]);
+  assert.equal(warnings[0].code, "amounts_corrected");
+});
+
+test("amounts that cannot be reconciled are all doubted", () => {
+  const { confidence, warnings } = validateReceipt(
+    { ...RECEIPT, totalCost: 999 },
+    "openai",
+    TODAY,
+  );
+
+  assert.equal(confidence.pricePerUnit, 0.4);
+  assert.equal(confidence.totalUnits, 0.4);
+  assert.equal(confidence.totalCost, 0.4);
+  assert.equal(warnings[0].code, "amounts_mismatch");
+});
+
+test("a missing amount is derived from the other two", () => {
+  const { parsed, confidence, corrections } = validateReceipt(
+    { ...RECEIPT, pricePerUnit: null },
+    "openai",
+    TODAY,
+  );
+
+  assert.equal(parsed.pricePerUnit, 36.9);
+  assert.equal(confidence.pricePerUnit, 0.81);
+  assert.equal(corrections[0].reason, "derived");
+});
+
+test("non-positive amounts are dropped", () => {
+  const { parsed, confidence, warnings } = validateReceipt(
+    { ...RECEIPT, totalCost: -5, pricePerUnit: null },
+    "openai",
+    TODAY,
+  );
+
+  assert.equal(parsed.totalCost, null);
+  assert.equal(confidence.totalCost, 0);
+  assert.equal(warnings[0].code, "invalid_number");
+});
+
+test("an implausible quantity is flagged", () => {
+  const { confidence, warnings } = validateReceipt(
+    { ...RECEIPT, pricePerUnit: 1, totalUnits: 300, totalCost: 300 },
+    "openai",
+    TODAY,
+  );
+
+  assert.equal(confidence.totalUnits, 0.3);
+  assert.deepEqual(
+    warnings.map((warning) => warning.code),
+    ["implausible_quantity"],
+  );
+});